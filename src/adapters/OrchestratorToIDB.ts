@@ -4,15 +4,29 @@
 import { 
   CommandType, 
   IOrchestratorCommand, 
-  CommandResult 
+  CommandResult,
+  ExecutionOptions
 } from '../orchestrator/interfaces/IOrchestratorCommand.js';
-import { IIDBManager } from '../idb/interfaces/IIDBManager.js';
+import { AccessibilityInfo, IIDBManager, ScreenSize } from '../idb/interfaces/IIDBManager.js';
+import { isTransientError } from '../idb/errors.js';
+import { elementCenter, resolveElement } from '../idb/elements.js';
+import { defaultRecordingPath } from '../idb/VideoRecorder.js';
+import {
+  DRAG_DURATION,
+  LONG_PRESS_DURATION,
+  PULL_TO_REFRESH_DURATION,
+  SwipePath,
+  screenCenter,
+  scrollPath,
+  swipePath
+} from '../idb/gestures.js';
 
 /**
  * Adapter that converts orchestrator commands into IDBManager calls
  */
 export class OrchestratorToIDB {
   private idbManager: IIDBManager;
+  private activeRecordings: Map<string, string> = new Map(); // sessionId -> recordingId
 
   /**
    * Constructor
@@ -26,142 +40,26 @@ export class OrchestratorToIDB {
    * Executes an orchestrator command using IDBManager
    * @param command Command to execute
    * @param sessionId Simulator session ID (optional)
+   * @param options Execution options (optional)
    * @returns Execution result
    */
-  public async executeCommand(command: IOrchestratorCommand, sessionId?: string): Promise<CommandResult> {
-    try {
-      const startTime = Date.now();
-      let result: any;
-
-      // Execute command based on its type
-      switch (command.type) {
-        // Simulator management commands
-        case CommandType.CREATE_SIMULATOR_SESSION:
-          result = await this.idbManager.createSimulatorSession(command.parameters);
-          break;
-
-        case CommandType.TERMINATE_SIMULATOR_SESSION:
-          await this.idbManager.terminateSimulatorSession(
-            command.parameters.sessionId || sessionId || ''
-          );
-          result = { sessionId: command.parameters.sessionId || sessionId };
-          break;
-
-        case CommandType.LIST_AVAILABLE_SIMULATORS:
-          result = await this.idbManager.listAvailableSimulators();
-          break;
-
-        case CommandType.LIST_BOOTED_SIMULATORS:
-          result = await this.idbManager.listBootedSimulators();
-          break;
-
-        case CommandType.BOOT_SIMULATOR:
-          await this.idbManager.bootSimulatorByUDID(command.parameters.udid);
-          result = { udid: command.parameters.udid };
-          break;
-
-        case CommandType.SHUTDOWN_SIMULATOR:
-          if (command.parameters.udid) {
-            await this.idbManager.shutdownSimulatorByUDID(command.parameters.udid);
-            result = { udid: command.parameters.udid };
-          } else {
-            await this.idbManager.shutdownSimulator(
-              command.parameters.sessionId || sessionId || ''
-            );
-            result = { sessionId: command.parameters.sessionId || sessionId };
-          }
-          break;
-
-        // Application management commands
-        case CommandType.INSTALL_APP:
-          result = await this.idbManager.installApp(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.appPath
-          );
-          break;
-
-        case CommandType.LAUNCH_APP:
-          await this.idbManager.launchApp(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.bundleId
-          );
-          result = { bundleId: command.parameters.bundleId };
-          break;
-
-        case CommandType.TERMINATE_APP:
-          await this.idbManager.terminateApp(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.bundleId
-          );
-          result = { bundleId: command.parameters.bundleId };
-          break;
-
-        // UI interaction commands
-        case CommandType.TAP:
-          await this.idbManager.tap(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.x,
-            command.parameters.y
-          );
-          result = { x: command.parameters.x, y: command.parameters.y };
-          break;
-
-        case CommandType.SWIPE:
-          await this.idbManager.swipe(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.startX,
-            command.parameters.startY,
-            command.parameters.endX,
-            command.parameters.endY,
-            command.parameters.duration
-          );
-          result = {
-            startX: command.parameters.startX,
-            startY: command.parameters.startY,
-            endX: command.parameters.endX,
-            endY: command.parameters.endY
-          };
-          break;
-
-        // Screenshot and logging commands
-        case CommandType.TAKE_SCREENSHOT:
-          result = await this.idbManager.takeScreenshot(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.outputPath
-          );
-          break;
+  public async executeCommand(
+    command: IOrchestratorCommand,
+    sessionId?: string,
+    options: ExecutionOptions = {}
+  ): Promise<CommandResult> {
+    const { signal } = options;
 
-        case CommandType.GET_SYSTEM_LOGS:
-          result = await this.idbManager.getSystemLogs(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.options
-          );
-          break;
-
-        case CommandType.GET_APP_LOGS:
-          result = await this.idbManager.getAppLogs(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.bundleId
-          );
-          break;
-
-        // Verification commands
-        case CommandType.IS_SIMULATOR_BOOTED:
-          result = await this.idbManager.isSimulatorBooted(
-            command.parameters.sessionId || sessionId || ''
-          );
-          break;
-
-        case CommandType.IS_APP_INSTALLED:
-          result = await this.idbManager.isAppInstalled(
-            command.parameters.sessionId || sessionId || '',
-            command.parameters.bundleId
-          );
-          break;
+    if (signal?.aborted) {
+      return this.cancelledResult(command);
+    }
 
-        default:
-          throw new Error(`Unsupported command type: ${command.type}`);
-      }
+    try {
+      // Bind the spawned idb processes to the abort signal when supported
+      const execution = signal && this.idbManager.runWithSignal
+        ? this.idbManager.runWithSignal(signal, () => this.dispatchCommand(command, sessionId, options))
+        : this.dispatchCommand(command, sessionId, options);
+      const result = signal ? await this.untilAborted(execution, signal) : await execution;
 
       // Create and return the result
       return {
@@ -170,6 +68,10 @@ export class OrchestratorToIDB {
         timestamp: Date.now()
       };
     } catch (error: any) {
+      if (signal?.aborted) {
+        return this.cancelledResult(command);
+      }
+
       // Handle errors
       console.error(`Error executing command ${command.type}:`, error);
       
@@ -182,8 +84,557 @@ export class OrchestratorToIDB {
       return {
         success: false,
         error: error.message || 'Unknown error',
+        transient: isTransientError(error),
         timestamp: Date.now()
       };
     }
   }
+
+  /**
+   * Stops waiting for an operation as soon as the signal is aborted, even if the
+   * operation itself does not observe the signal
+   * @param operation Operation in progress
+   * @param signal Abort signal
+   * @returns Result of the operation
+   */
+  private untilAborted<T>(operation: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new Error('Operation aborted'));
+      signal.addEventListener('abort', onAbort, { once: true });
+      operation.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Builds the result of a cancelled command
+   * @param command Cancelled command
+   * @returns Cancelled result
+   */
+  private cancelledResult(command: IOrchestratorCommand): CommandResult {
+    return {
+      success: false,
+      cancelled: true,
+      error: `Command ${command.type} cancelled`,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Gets an optional IDBManager method, failing if the manager does not implement it
+   * @param name Method name
+   * @returns Method bound to the IDBManager
+   */
+  private requireMethod<K extends keyof IIDBManager>(name: K): NonNullable<IIDBManager[K]> {
+    const method = this.idbManager[name];
+    if (typeof method !== 'function') {
+      throw new Error(`Operation ${String(name)} is not supported by the IDB manager`);
+    }
+    return method.bind(this.idbManager) as NonNullable<IIDBManager[K]>;
+  }
+
+  /**
+   * Finds the element named by the parameters of a command on the current screen
+   * @param parameters Command parameters with `element` and optionally `elementType`
+   * @param sessionId Simulator session ID
+   * @returns Element, without its children, and the coordinates of its centre
+   * @throws Error listing the candidates if no element or several elements match
+   */
+  private async locateElement(
+    parameters: Record<string, any>,
+    sessionId: string
+  ): Promise<{ element: AccessibilityInfo; x: number; y: number }> {
+    const elements = await this.requireMethod('describeAllElements')(sessionId);
+    const { children, ...element } = resolveElement(elements, {
+      element: String(parameters.element),
+      elementType: parameters.elementType
+    });
+    return { element, ...elementCenter(element) };
+  }
+
+  /**
+   * Swipes along a path computed from the screen size of a session
+   * @param sessionId Simulator session ID
+   * @param computePath Computes the path from the screen size
+   * @param duration Swipe duration in milliseconds (optional)
+   * @returns Swipe path
+   */
+  private async swipeOnScreen(
+    sessionId: string,
+    computePath: (screen: ScreenSize) => SwipePath,
+    duration?: number
+  ): Promise<SwipePath> {
+    const path = computePath(await this.requireMethod('getScreenSize')(sessionId));
+    await this.idbManager.swipe(sessionId, path.startX, path.startY, path.endX, path.endY, duration);
+    return path;
+  }
+
+  /**
+   * Calls the IDBManager method matching a command
+   * @param command Command to execute
+   * @param sessionId Simulator session ID (optional)
+   * @param options Execution options
+   * @returns Data returned by the IDBManager
+   */
+  private async dispatchCommand(
+    command: IOrchestratorCommand,
+    sessionId: string | undefined,
+    options: ExecutionOptions
+  ): Promise<any> {
+    let result: any;
+
+    // Execute command based on its type
+    switch (command.type) {
+      // Simulator management commands
+      case CommandType.CREATE_SIMULATOR_SESSION:
+        result = await this.idbManager.createSimulatorSession(command.parameters, options.onProgress);
+        break;
+
+      case CommandType.TERMINATE_SIMULATOR_SESSION:
+        await this.idbManager.terminateSimulatorSession(
+          command.parameters.sessionId || sessionId || ''
+        );
+        result = { sessionId: command.parameters.sessionId || sessionId };
+        break;
+
+      case CommandType.LIST_AVAILABLE_SIMULATORS:
+        result = await this.idbManager.listAvailableSimulators();
+        break;
+
+      case CommandType.LIST_BOOTED_SIMULATORS:
+        result = await this.idbManager.listBootedSimulators();
+        break;
+
+      case CommandType.LIST_SIMULATOR_SESSIONS:
+        result = await this.idbManager.listSimulatorSessions();
+        break;
+
+      case CommandType.BOOT_SIMULATOR:
+        await this.idbManager.bootSimulatorByUDID(command.parameters.udid, options.onProgress);
+        result = { udid: command.parameters.udid };
+        break;
+
+      case CommandType.SHUTDOWN_SIMULATOR:
+        if (command.parameters.udid) {
+          await this.idbManager.shutdownSimulatorByUDID(command.parameters.udid);
+          result = { udid: command.parameters.udid };
+        } else {
+          await this.idbManager.shutdownSimulator(
+            command.parameters.sessionId || sessionId || ''
+          );
+          result = { sessionId: command.parameters.sessionId || sessionId };
+        }
+        break;
+
+      case CommandType.FOCUS_SIMULATOR:
+        await this.requireMethod('focusSimulator')(
+          command.parameters.sessionId || sessionId || ''
+        );
+        result = { sessionId: command.parameters.sessionId || sessionId };
+        break;
+
+      // Application management commands
+      case CommandType.INSTALL_APP:
+        result = await this.idbManager.installApp(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.appPath,
+          options.onProgress
+        );
+        break;
+
+      case CommandType.LAUNCH_APP:
+        await this.idbManager.launchApp(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.bundleId
+        );
+        result = { bundleId: command.parameters.bundleId };
+        break;
+
+      case CommandType.TERMINATE_APP:
+        await this.idbManager.terminateApp(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.bundleId
+        );
+        result = { bundleId: command.parameters.bundleId };
+        break;
+
+      case CommandType.UNINSTALL_APP:
+        await this.requireMethod('uninstallApp')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.bundleId
+        );
+        result = { bundleId: command.parameters.bundleId };
+        break;
+
+      case CommandType.LIST_APPS:
+        result = await this.requireMethod('listApps')(
+          command.parameters.sessionId || sessionId || ''
+        );
+        break;
+
+      // UI interaction commands
+      case CommandType.TAP:
+        await this.idbManager.tap(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.x,
+          command.parameters.y,
+          command.parameters.duration
+        );
+        result = { x: command.parameters.x, y: command.parameters.y };
+        break;
+
+      case CommandType.SWIPE:
+        await this.idbManager.swipe(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.startX,
+          command.parameters.startY,
+          command.parameters.endX,
+          command.parameters.endY,
+          command.parameters.duration,
+          command.parameters.delta
+        );
+        result = {
+          startX: command.parameters.startX,
+          startY: command.parameters.startY,
+          endX: command.parameters.endX,
+          endY: command.parameters.endY
+        };
+        break;
+
+      case CommandType.PRESS_BUTTON:
+        await this.requireMethod('pressButton')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.button,
+          command.parameters.duration
+        );
+        result = { button: command.parameters.button };
+        break;
+
+      case CommandType.INPUT_TEXT:
+        await this.requireMethod('inputText')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.text
+        );
+        result = { text: command.parameters.text };
+        break;
+
+      case CommandType.PRESS_KEY:
+        await this.requireMethod('pressKey')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.keyCode,
+          command.parameters.duration
+        );
+        result = { keyCode: command.parameters.keyCode };
+        break;
+
+      case CommandType.PRESS_KEY_SEQUENCE:
+        await this.requireMethod('pressKeySequence')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.keyCodes
+        );
+        result = { keyCodes: command.parameters.keyCodes };
+        break;
+
+      case CommandType.TAP_ELEMENT: {
+        const elementSessionId = command.parameters.sessionId || sessionId || '';
+        result = await this.locateElement(command.parameters, elementSessionId);
+        await this.idbManager.tap(elementSessionId, result.x, result.y);
+        break;
+      }
+
+      case CommandType.INPUT_TEXT_INTO_ELEMENT: {
+        // Focus the element before typing into it
+        const elementSessionId = command.parameters.sessionId || sessionId || '';
+        const located = await this.locateElement(command.parameters, elementSessionId);
+        await this.idbManager.tap(elementSessionId, located.x, located.y);
+        await this.requireMethod('inputText')(elementSessionId, command.parameters.text);
+        result = { ...located, text: command.parameters.text };
+        break;
+      }
+
+      // Gesture commands
+      case CommandType.SCROLL:
+        result = await this.swipeOnScreen(
+          command.parameters.sessionId || sessionId || '',
+          screen => scrollPath(screen, command.parameters.direction, command.parameters.distance),
+          command.parameters.duration
+        );
+        break;
+
+      case CommandType.DIRECTIONAL_SWIPE:
+        result = await this.swipeOnScreen(
+          command.parameters.sessionId || sessionId || '',
+          screen => swipePath(screen, command.parameters.direction, {
+            distance: command.parameters.distance,
+            fromEdge: command.parameters.fromEdge
+          }),
+          command.parameters.duration
+        );
+        break;
+
+      case CommandType.PULL_TO_REFRESH:
+        // A slow swipe down from the top of the content
+        result = await this.swipeOnScreen(
+          command.parameters.sessionId || sessionId || '',
+          screen => swipePath(screen, 'down'),
+          command.parameters.duration ?? PULL_TO_REFRESH_DURATION
+        );
+        break;
+
+      case CommandType.LONG_PRESS: {
+        const duration = command.parameters.duration ?? LONG_PRESS_DURATION;
+        await this.idbManager.tap(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.x,
+          command.parameters.y,
+          duration
+        );
+        result = { x: command.parameters.x, y: command.parameters.y, duration };
+        break;
+      }
+
+      // Managers without a double-tap gesture tap twice, which apps may see as two single taps
+      case CommandType.DOUBLE_TAP: {
+        const doubleTapSessionId = command.parameters.sessionId || sessionId || '';
+        if (this.idbManager.doubleTap) {
+          await this.idbManager.doubleTap(doubleTapSessionId, command.parameters.x, command.parameters.y);
+        } else {
+          await this.idbManager.tap(doubleTapSessionId, command.parameters.x, command.parameters.y);
+          await this.idbManager.tap(doubleTapSessionId, command.parameters.x, command.parameters.y);
+        }
+        result = { x: command.parameters.x, y: command.parameters.y };
+        break;
+      }
+
+      case CommandType.DRAG:
+        await this.idbManager.swipe(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.startX,
+          command.parameters.startY,
+          command.parameters.endX,
+          command.parameters.endY,
+          command.parameters.duration ?? DRAG_DURATION
+        );
+        result = {
+          startX: command.parameters.startX,
+          startY: command.parameters.startY,
+          endX: command.parameters.endX,
+          endY: command.parameters.endY
+        };
+        break;
+
+      case CommandType.PINCH: {
+        const pinchSessionId = command.parameters.sessionId || sessionId || '';
+        const pinch = this.requireMethod('pinch');
+        // Pinch around the centre of the screen unless a point is given
+        const center = command.parameters.x !== undefined && command.parameters.y !== undefined
+          ? { x: command.parameters.x, y: command.parameters.y }
+          : screenCenter(await this.requireMethod('getScreenSize')(pinchSessionId));
+        await pinch(pinchSessionId, center.x, center.y, command.parameters.scale, command.parameters.duration);
+        result = { ...center, scale: command.parameters.scale };
+        break;
+      }
+
+      // Accessibility commands
+      case CommandType.DESCRIBE_ELEMENTS:
+        result = await this.requireMethod('describeAllElements')(
+          command.parameters.sessionId || sessionId || ''
+        );
+        break;
+
+      case CommandType.DESCRIBE_POINT:
+        result = await this.requireMethod('describePointElement')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.x,
+          command.parameters.y
+        );
+        break;
+
+      // Screenshot and logging commands
+      case CommandType.TAKE_SCREENSHOT:
+        result = await this.idbManager.takeScreenshot(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.outputPath
+        );
+        break;
+
+      case CommandType.START_VIDEO_RECORDING: {
+        const recordingSessionId = command.parameters.sessionId || sessionId || '';
+        // Recordings are stopped by session, so only one may be in progress in each
+        const activeRecordingId = this.activeRecordings.get(recordingSessionId);
+        if (activeRecordingId) {
+          throw new Error(
+            `Video recording ${activeRecordingId} is already in progress for session: ${recordingSessionId}`
+          );
+        }
+        const startVideoRecording = this.requireMethod('startVideoRecording');
+        const outputPath = command.parameters.outputPath || defaultRecordingPath(recordingSessionId);
+        const recordingId = await startVideoRecording(recordingSessionId, outputPath);
+        this.activeRecordings.set(recordingSessionId, recordingId);
+        result = { recordingId, outputPath };
+        break;
+      }
+
+      case CommandType.STOP_VIDEO_RECORDING: {
+        const recordingSessionId = command.parameters.sessionId || sessionId || '';
+        const recordingId = command.parameters.recordingId || this.activeRecordings.get(recordingSessionId);
+        if (!recordingId) {
+          throw new Error(`No video recording in progress for session: ${recordingSessionId}`);
+        }
+        try {
+          result = await this.requireMethod('stopVideoRecording')(recordingSessionId, recordingId);
+        } finally {
+          if (this.activeRecordings.get(recordingSessionId) === recordingId) {
+            this.activeRecordings.delete(recordingSessionId);
+          }
+        }
+        break;
+      }
+
+      case CommandType.GET_SYSTEM_LOGS:
+        result = await this.idbManager.getSystemLogs(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.options ?? (command.parameters.limit ? { limit: command.parameters.limit } : undefined)
+        );
+        break;
+
+      case CommandType.GET_APP_LOGS:
+        result = await this.idbManager.getAppLogs(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.bundleId
+        );
+        break;
+
+      // Debug commands
+      case CommandType.START_DEBUG_SERVER:
+        result = {
+          bundleId: command.parameters.bundleId,
+          port: await this.requireMethod('startDebugServer')(
+            command.parameters.sessionId || sessionId || '',
+            command.parameters.bundleId
+          )
+        };
+        break;
+
+      case CommandType.STOP_DEBUG_SERVER:
+        await this.requireMethod('stopDebugServer')(
+          command.parameters.sessionId || sessionId || ''
+        );
+        result = { sessionId: command.parameters.sessionId || sessionId };
+        break;
+
+      case CommandType.GET_DEBUG_SERVER_STATUS:
+        result = await this.requireMethod('getDebugServerStatus')(
+          command.parameters.sessionId || sessionId || ''
+        );
+        break;
+
+      // Crash log commands
+      case CommandType.LIST_CRASH_LOGS:
+        result = await this.requireMethod('listCrashLogs')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.bundleId ? { bundleId: command.parameters.bundleId } : undefined
+        );
+        break;
+
+      case CommandType.GET_CRASH_LOG:
+        result = await this.requireMethod('getCrashLog')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.crashName
+        );
+        break;
+
+      case CommandType.DELETE_CRASH_LOGS: {
+        const { bundleId, crashNames } = command.parameters;
+        // Without filters, "delete crash logs" removes every crash log
+        const deleteOptions = {
+          bundleId,
+          crashNames,
+          all: command.parameters.all ?? !(bundleId || crashNames?.length)
+        };
+        await this.requireMethod('deleteCrashLogs')(
+          command.parameters.sessionId || sessionId || '',
+          deleteOptions
+        );
+        result = deleteOptions;
+        break;
+      }
+
+      // Miscellaneous commands
+      case CommandType.INSTALL_DYLIB:
+        await this.requireMethod('installDylib')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.dylibPath
+        );
+        result = { dylibPath: command.parameters.dylibPath };
+        break;
+
+      case CommandType.OPEN_URL:
+        await this.requireMethod('openUrl')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.url
+        );
+        result = { url: command.parameters.url };
+        break;
+
+      case CommandType.CLEAR_KEYCHAIN:
+        await this.requireMethod('clearKeychain')(
+          command.parameters.sessionId || sessionId || ''
+        );
+        result = { sessionId: command.parameters.sessionId || sessionId };
+        break;
+
+      case CommandType.SET_LOCATION:
+        await this.requireMethod('setLocation')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.latitude,
+          command.parameters.longitude
+        );
+        result = { latitude: command.parameters.latitude, longitude: command.parameters.longitude };
+        break;
+
+      case CommandType.ADD_MEDIA:
+        await this.requireMethod('addMedia')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.mediaPaths
+        );
+        result = { mediaPaths: command.parameters.mediaPaths };
+        break;
+
+      case CommandType.APPROVE_PERMISSIONS:
+        await this.requireMethod('approvePermissions')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.bundleId,
+          command.parameters.permissions
+        );
+        result = { bundleId: command.parameters.bundleId, permissions: command.parameters.permissions };
+        break;
+
+      case CommandType.UPDATE_CONTACTS:
+        await this.requireMethod('updateContacts')(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.dbPath
+        );
+        result = { dbPath: command.parameters.dbPath };
+        break;
+
+      // Verification commands
+      case CommandType.IS_SIMULATOR_BOOTED:
+        result = await this.idbManager.isSimulatorBooted(
+          command.parameters.sessionId || sessionId || ''
+        );
+        break;
+
+      case CommandType.IS_APP_INSTALLED:
+        result = await this.idbManager.isAppInstalled(
+          command.parameters.sessionId || sessionId || '',
+          command.parameters.bundleId
+        );
+        break;
+
+      default:
+        throw new Error(`Unsupported command type: ${command.type}`);
+    }
+
+    return result;
+  }
 }
@@ -22,49 +22,77 @@ export class ParserToOrchestrator {
   constructor(commandFactory: CommandFactory) {
     this.commandFactory = commandFactory;
     
-    // Mapping natural language commands to CommandType
+    // Mapping parser command IDs to CommandType. Phrasings in each language
+    // live in the parser language packs
     this.commandMappings = {
       // Simulator management commands
-      'crear sesión': CommandType.CREATE_SIMULATOR_SESSION,
-      'crear simulador': CommandType.CREATE_SIMULATOR_SESSION,
-      'iniciar simulador': CommandType.CREATE_SIMULATOR_SESSION,
-      'terminar sesión': CommandType.TERMINATE_SIMULATOR_SESSION,
-      'cerrar simulador': CommandType.TERMINATE_SIMULATOR_SESSION,
-      'listar simuladores': CommandType.LIST_AVAILABLE_SIMULATORS,
-      'mostrar simuladores': CommandType.LIST_AVAILABLE_SIMULATORS,
-      'listar simuladores arrancados': CommandType.LIST_BOOTED_SIMULATORS,
-      'arrancar simulador': CommandType.BOOT_SIMULATOR,
-      'apagar simulador': CommandType.SHUTDOWN_SIMULATOR,
+      'create session': CommandType.CREATE_SIMULATOR_SESSION,
+      'end session': CommandType.TERMINATE_SIMULATOR_SESSION,
+      'list simulators': CommandType.LIST_AVAILABLE_SIMULATORS,
+      'list booted simulators': CommandType.LIST_BOOTED_SIMULATORS,
+      'list sessions': CommandType.LIST_SIMULATOR_SESSIONS,
+      'boot simulator': CommandType.BOOT_SIMULATOR,
+      'shutdown simulator': CommandType.SHUTDOWN_SIMULATOR,
+      'focus simulator': CommandType.FOCUS_SIMULATOR,
       
       // Application management commands
-      'instalar app': CommandType.INSTALL_APP,
-      'instalar aplicación': CommandType.INSTALL_APP,
-      'lanzar app': CommandType.LAUNCH_APP,
-      'abrir app': CommandType.LAUNCH_APP,
-      'iniciar app': CommandType.LAUNCH_APP,
-      'cerrar app': CommandType.TERMINATE_APP,
-      'terminar app': CommandType.TERMINATE_APP,
+      'install app': CommandType.INSTALL_APP,
+      'launch app': CommandType.LAUNCH_APP,
+      'terminate app': CommandType.TERMINATE_APP,
+      'uninstall app': CommandType.UNINSTALL_APP,
+      'list apps': CommandType.LIST_APPS,
       
       // UI interaction commands
       'tap': CommandType.TAP,
-      'tocar': CommandType.TAP,
-      'pulsar': CommandType.TAP,
       'swipe': CommandType.SWIPE,
-      'deslizar': CommandType.SWIPE,
+      'press device button': CommandType.PRESS_BUTTON,
+      'input text': CommandType.INPUT_TEXT,
+      'press key': CommandType.PRESS_KEY,
+      'press key sequence': CommandType.PRESS_KEY_SEQUENCE,
+      'tap element': CommandType.TAP_ELEMENT,
+      'input text into element': CommandType.INPUT_TEXT_INTO_ELEMENT,
+      
+      // Gesture commands
+      'scroll': CommandType.SCROLL,
+      'directional swipe': CommandType.DIRECTIONAL_SWIPE,
+      'pull to refresh': CommandType.PULL_TO_REFRESH,
+      'long press': CommandType.LONG_PRESS,
+      'double tap': CommandType.DOUBLE_TAP,
+      'drag': CommandType.DRAG,
+      'pinch': CommandType.PINCH,
+      
+      // Accessibility commands
+      'describe elements': CommandType.DESCRIBE_ELEMENTS,
+      'describe point': CommandType.DESCRIBE_POINT,
       
       // Screenshot and logs commands
-      'capturar pantalla': CommandType.TAKE_SCREENSHOT,
+      'capture screen': CommandType.TAKE_SCREENSHOT,
+      'record video': CommandType.START_VIDEO_RECORDING,
+      'stop recording': CommandType.STOP_VIDEO_RECORDING,
+      'get logs': CommandType.GET_SYSTEM_LOGS,
       'screenshot': CommandType.TAKE_SCREENSHOT,
-      'captura': CommandType.TAKE_SCREENSHOT,
       'logs': CommandType.GET_SYSTEM_LOGS,
-      'logs del sistema': CommandType.GET_SYSTEM_LOGS,
-      'logs de app': CommandType.GET_APP_LOGS,
+      
+      // Debug commands
+      'start debug': CommandType.START_DEBUG_SERVER,
+      'stop debug': CommandType.STOP_DEBUG_SERVER,
+      'debug status': CommandType.GET_DEBUG_SERVER_STATUS,
+      'list crash logs': CommandType.LIST_CRASH_LOGS,
+      'show crash log': CommandType.GET_CRASH_LOG,
+      'delete crash logs': CommandType.DELETE_CRASH_LOGS,
+      
+      // Miscellaneous commands
+      'install dylib': CommandType.INSTALL_DYLIB,
+      'open url': CommandType.OPEN_URL,
+      'clear keychain': CommandType.CLEAR_KEYCHAIN,
+      'set location': CommandType.SET_LOCATION,
+      'add media': CommandType.ADD_MEDIA,
+      'approve permissions': CommandType.APPROVE_PERMISSIONS,
+      'update contacts': CommandType.UPDATE_CONTACTS,
       
       // Verification commands
-      'verificar simulador': CommandType.IS_SIMULATOR_BOOTED,
-      'comprobar simulador': CommandType.IS_SIMULATOR_BOOTED,
-      'verificar app': CommandType.IS_APP_INSTALLED,
-      'comprobar app': CommandType.IS_APP_INSTALLED
+      'check simulator booted': CommandType.IS_SIMULATOR_BOOTED,
+      'check app installed': CommandType.IS_APP_INSTALLED
     };
   }
 
@@ -74,8 +102,20 @@ export class ParserToOrchestrator {
    * @returns Orchestrator command
    */
   public convertToCommand(parseResult: ParseResult): IOrchestratorCommand {
+    // Compound instructions run their steps in order, stopping at the first error
+    if (parseResult.steps) {
+      return this.commandFactory.createSequence(
+        parseResult.steps.map(step => this.convertToCommand(step))
+      );
+    }
+
     // Determine command type
-    const commandType = this.mapToCommandType(parseResult.command);
+    let commandType = this.mapToCommandType(parseResult.command);
+
+    // Logs of a specific application
+    if (commandType === CommandType.GET_SYSTEM_LOGS && parseResult.parameters.bundleId) {
+      commandType = CommandType.GET_APP_LOGS;
+    }
     
     // Convert parameters
     const parameters = this.convertParameters(commandType, parseResult.parameters);
@@ -156,6 +196,50 @@ export class ParserToOrchestrator {
         }
         break;
         
+      case CommandType.DESCRIBE_POINT:
+        if (parameters.x !== undefined) {
+          parameters.x = Number(parameters.x);
+        }
+        if (parameters.y !== undefined) {
+          parameters.y = Number(parameters.y);
+        }
+        break;
+
+      case CommandType.PRESS_KEY:
+        parameters.keyCode = Number(parameters.keyCode);
+        break;
+
+      case CommandType.PRESS_KEY_SEQUENCE:
+        if (Array.isArray(parameters.keyCodes)) {
+          parameters.keyCodes = parameters.keyCodes.map(Number);
+        }
+        break;
+
+      case CommandType.PRESS_BUTTON:
+        if (typeof parameters.button === 'string') {
+          parameters.button = parameters.button.toUpperCase();
+        }
+        break;
+
+      case CommandType.SET_LOCATION:
+        parameters.latitude = Number(parameters.latitude);
+        parameters.longitude = Number(parameters.longitude);
+        break;
+
+      case CommandType.INPUT_TEXT:
+        // The parser may have normalized numeric text into a number
+        parameters.text = String(parameters.text);
+        break;
+
+      case CommandType.INPUT_TEXT_INTO_ELEMENT:
+        parameters.text = String(parameters.text);
+        parameters.element = String(parameters.element);
+        break;
+
+      case CommandType.TAP_ELEMENT:
+        parameters.element = String(parameters.element);
+        break;
+
       case CommandType.CREATE_SIMULATOR_SESSION:
         // Convert autoboot to boolean if it's a string
         if (typeof parameters.autoboot === 'string') {
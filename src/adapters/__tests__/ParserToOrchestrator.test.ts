@@ -0,0 +1,242 @@
+import { jest } from '@jest/globals';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ParserToOrchestrator } from '../ParserToOrchestrator.js';
+import { NLParser } from '../../parser/NLParser.js';
+import { MCPOrchestrator } from '../../orchestrator/MCPOrchestrator.js';
+import { IIDBManager } from '../../idb/interfaces/IIDBManager.js';
+import { RECORDINGS_DIRECTORY } from '../../idb/VideoRecorder.js';
+import { CommandType, CommandFactory } from '../../orchestrator/interfaces/IOrchestratorCommand.js';
+import { SimulatorCommands } from '../../parser/commands/SimulatorCommands.js';
+import { AppCommands } from '../../parser/commands/AppCommands.js';
+import { UICommands } from '../../parser/commands/UICommands.js';
+import { GestureCommands } from '../../parser/commands/GestureCommands.js';
+import { AccessibilityCommands } from '../../parser/commands/AccessibilityCommands.js';
+import { CaptureCommands } from '../../parser/commands/CaptureCommands.js';
+import { DebugCommands } from '../../parser/commands/DebugCommands.js';
+import { MiscCommands } from '../../parser/commands/MiscCommands.js';
+
+const commandFactory: CommandFactory = {
+  createCommand: (type, parameters, description) => ({ type, parameters, description, id: uuidv4() }),
+  createSequence: (commands, stopOnError = true) => ({
+    type: CommandType.SEQUENCE,
+    parameters: { commands, stopOnError },
+    id: uuidv4()
+  }),
+  createConditional: (condition, ifTrue, ifFalse) => ({
+    type: CommandType.CONDITIONAL,
+    parameters: { condition, ifTrue, ifFalse },
+    id: uuidv4()
+  })
+};
+
+const definitions = [
+  new SimulatorCommands(),
+  new AppCommands(),
+  new UICommands(),
+  new GestureCommands(),
+  new AccessibilityCommands(),
+  new CaptureCommands(),
+  new DebugCommands(),
+  new MiscCommands()
+].flatMap(handler => handler.getDefinitions());
+
+/**
+ * IDB manager implementing every optional method
+ */
+// Elements named by the examples of the element commands
+const screenElements = Object.entries({
+  Login: 'Button', Settings: 'Cell', 'Sign in': 'Link', Entrar: 'Button', Ajustes: 'Cell',
+  Email: 'TextField', Password: 'SecureTextField', Contraseña: 'SecureTextField'
+}).map(([label, type], index) => ({ label, type, frame: { x: 0, y: index * 50, width: 100, height: 40 } }));
+
+const createFullIDBManager = (): IIDBManager => ({
+  createSimulatorSession: jest.fn(async () => 'session_1'),
+  terminateSimulatorSession: jest.fn(async () => {}),
+  listAvailableSimulators: jest.fn(async () => []),
+  listBootedSimulators: jest.fn(async () => []),
+  listSimulatorSessions: jest.fn(async () => ['session_1']),
+  bootSimulatorByUDID: jest.fn(async () => {}),
+  shutdownSimulatorByUDID: jest.fn(async () => {}),
+  shutdownSimulator: jest.fn(async () => {}),
+  isSimulatorBooted: jest.fn(async () => true),
+  focusSimulator: jest.fn(async () => {}),
+  installApp: jest.fn(async () => ({ bundleId: 'com.example.app', name: 'app' })),
+  launchApp: jest.fn(async () => {}),
+  terminateApp: jest.fn(async () => {}),
+  uninstallApp: jest.fn(async () => {}),
+  listApps: jest.fn(async () => []),
+  isAppInstalled: jest.fn(async () => true),
+  tap: jest.fn(async () => {}),
+  swipe: jest.fn(async () => {}),
+  getScreenSize: jest.fn(async () => ({ width: 393, height: 852 })),
+  doubleTap: jest.fn(async () => {}),
+  pinch: jest.fn(async () => {}),
+  pressButton: jest.fn(async () => {}),
+  inputText: jest.fn(async () => {}),
+  pressKey: jest.fn(async () => {}),
+  pressKeySequence: jest.fn(async () => {}),
+  describeAllElements: jest.fn(async () => screenElements),
+  describePointElement: jest.fn(async () => null),
+  takeScreenshot: jest.fn(async () => '/tmp/screenshot.png'),
+  startVideoRecording: jest.fn(async () => 'recording_1'),
+  stopVideoRecording: jest.fn(async () => ({ recordingId: 'recording_1', outputPath: '/tmp/video.mp4', duration: 1000, size: 2048 })),
+  getSystemLogs: jest.fn(async () => ''),
+  getAppLogs: jest.fn(async () => ''),
+  startDebugServer: jest.fn(async () => 1234),
+  stopDebugServer: jest.fn(async () => {}),
+  getDebugServerStatus: jest.fn(async () => ({ running: false })),
+  listCrashLogs: jest.fn(async () => []),
+  getCrashLog: jest.fn(async () => ''),
+  deleteCrashLogs: jest.fn(async () => {}),
+  installDylib: jest.fn(async () => {}),
+  openUrl: jest.fn(async () => {}),
+  clearKeychain: jest.fn(async () => {}),
+  setLocation: jest.fn(async () => {}),
+  addMedia: jest.fn(async () => {}),
+  approvePermissions: jest.fn(async () => {}),
+  updateContacts: jest.fn(async () => {})
+});
+
+describe('ParserToOrchestrator', () => {
+  const parser = new NLParser();
+  const adapter = new ParserToOrchestrator(commandFactory);
+
+  it('should map every parser command to a CommandType', async () => {
+    for (const definition of definitions) {
+      const command = adapter.convertToCommand({
+        command: definition.command,
+        parameters: {},
+        confidence: 1,
+        originalText: definition.command
+      });
+      expect(Object.values(CommandType)).toContain(command.type);
+    }
+  });
+
+  it('should select app logs when a bundle ID is given', async () => {
+    const systemLogs = adapter.convertToCommand(await parser.parseInstruction('get logs'));
+    const appLogs = adapter.convertToCommand(await parser.parseInstruction('get logs for com.example.app'));
+
+    expect(systemLogs.type).toBe(CommandType.GET_SYSTEM_LOGS);
+    expect(appLogs.type).toBe(CommandType.GET_APP_LOGS);
+  });
+
+  it('should keep the case of extracted values', async () => {
+    const command = adapter.convertToCommand(await parser.parseInstruction('input text Hello World'));
+    expect(command.type).toBe(CommandType.INPUT_TEXT);
+    expect(command.parameters.text).toBe('Hello World');
+  });
+
+  it('should execute the examples of every command end to end', async () => {
+    const failures: string[] = [];
+
+    for (const definition of definitions) {
+      for (const example of definition.examples) {
+        const orchestrator = new MCPOrchestrator(parser, createFullIDBManager());
+        orchestrator.setActiveSessionId('session_1');
+        if (definition.command === 'stop recording') {
+          await orchestrator.processInstruction('record video /tmp/video.mp4');
+        }
+
+        const result = await orchestrator.processInstruction(example);
+        if (!result.success) {
+          failures.push(`${example}: ${result.error}`);
+        }
+      }
+    }
+
+    expect(failures).toEqual([]);
+  });
+
+  it('should run compound instructions as a sequence and report each step', async () => {
+    const idbManager = createFullIDBManager();
+    const orchestrator = new MCPOrchestrator(parser, idbManager);
+    orchestrator.setActiveSessionId('session_1');
+
+    const result = await orchestrator.processInstruction('launch app com.foo then tap 100, 200 and take a screenshot');
+
+    expect(result.success).toBe(true);
+    expect(result.data.completedCommands).toBe(3);
+    expect(idbManager.launchApp).toHaveBeenCalledWith('session_1', 'com.foo');
+    expect(idbManager.tap).toHaveBeenCalledWith('session_1', 100, 200, undefined);
+    expect(idbManager.takeScreenshot).toHaveBeenCalled();
+    expect(result.data.interpretation).toEqual([
+      { text: 'launch app com.foo', command: 'launch app', parameters: { bundleId: 'com.foo' } },
+      { text: 'tap 100, 200', command: 'tap', parameters: { x: 100, y: 200 } },
+      { text: 'take a screenshot', command: 'capture screen', parameters: {} }
+    ]);
+  });
+
+  it('should take instruction text literally instead of as references', async () => {
+    const idbManager = createFullIDBManager();
+    const orchestrator = new MCPOrchestrator(parser, idbManager);
+    orchestrator.setActiveSessionId('session_1');
+
+    const result = await orchestrator.processInstruction('input text ${HOME} then tap 10, 20');
+
+    expect(result.success).toBe(true);
+    expect(idbManager.inputText).toHaveBeenCalledWith('session_1', '${HOME}');
+    expect(idbManager.tap).toHaveBeenCalledWith('session_1', 10, 20, undefined);
+  });
+
+  it('should allow one video recording in progress per session', async () => {
+    const idbManager = createFullIDBManager();
+    const orchestrator = new MCPOrchestrator(parser, idbManager);
+    orchestrator.setActiveSessionId('session_1');
+
+    expect((await orchestrator.processInstruction('record video /tmp/first.mp4')).success).toBe(true);
+    const second = await orchestrator.processInstruction('record video /tmp/second.mp4');
+    expect(second.success).toBe(false);
+    expect(second.error).toBe('Video recording recording_1 is already in progress for session: session_1');
+    expect(idbManager.startVideoRecording).toHaveBeenCalledTimes(1);
+
+    expect((await orchestrator.processInstruction('stop recording')).success).toBe(true);
+    expect(idbManager.stopVideoRecording).toHaveBeenCalledWith('session_1', 'recording_1');
+    expect((await orchestrator.processInstruction('record video /tmp/second.mp4')).success).toBe(true);
+  });
+
+  it('should record into the recordings directory when no path is given', async () => {
+    const idbManager = createFullIDBManager();
+    const orchestrator = new MCPOrchestrator(parser, idbManager);
+    orchestrator.setActiveSessionId('session_1');
+
+    const result = await orchestrator.processInstruction('record video');
+
+    expect(result.success).toBe(true);
+    expect(path.dirname(result.data.outputPath)).toBe(RECORDINGS_DIRECTORY);
+    expect(result.data.outputPath).toMatch(/\/session_1_[\w-]+\.mp4$/);
+    expect(idbManager.startVideoRecording).toHaveBeenCalledWith('session_1', result.data.outputPath);
+  });
+
+  it('should double tap with a single gesture of the IDB manager', async () => {
+    const idbManager = createFullIDBManager();
+    const orchestrator = new MCPOrchestrator(parser, idbManager);
+    orchestrator.setActiveSessionId('session_1');
+
+    expect((await orchestrator.processInstruction('double tap at 100, 200')).success).toBe(true);
+    expect(idbManager.doubleTap).toHaveBeenCalledWith('session_1', 100, 200);
+    expect(idbManager.tap).not.toHaveBeenCalled();
+
+  });
+
+  it('should double tap with two taps when the IDB manager has no double-tap gesture', async () => {
+    const { doubleTap, ...idbManager } = createFullIDBManager();
+    const orchestrator = new MCPOrchestrator(parser, idbManager as IIDBManager);
+    orchestrator.setActiveSessionId('session_1');
+
+    expect((await orchestrator.processInstruction('double tap at 100, 200')).success).toBe(true);
+    expect(idbManager.tap).toHaveBeenCalledTimes(2);
+    expect(idbManager.tap).toHaveBeenCalledWith('session_1', 100, 200);
+  });
+
+  it('should report operations the IDB manager does not implement', async () => {
+    const { openUrl, ...idbManager } = createFullIDBManager();
+    const orchestrator = new MCPOrchestrator(parser, idbManager as IIDBManager);
+    orchestrator.setActiveSessionId('session_1');
+
+    const result = await orchestrator.processInstruction('open url https://example.com');
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Operation openUrl is not supported by the IDB manager');
+  });
+});
@@ -0,0 +1,670 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { deflateSync } from 'zlib';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  IIDBManager,
+  SimulatorInfo,
+  AppInfo,
+  SessionConfig,
+  ButtonType,
+  CrashLogInfo,
+  AccessibilityInfo,
+  ProgressCallback,
+  ScreenSize,
+  VideoRecordingResult
+} from './interfaces/IIDBManager.js';
+import { createAbortError } from './errors.js';
+import { ELEMENT_TYPES, flattenElements } from './elements.js';
+import { checkMinimumOS, readAppBundle } from './appBundle.js';
+import { DEFAULT_FAKE_FIXTURE, FakeFixture, HOME_SCREEN } from './fakeFixture.js';
+
+/**
+ * Port reported by fake debug servers
+ */
+const FAKE_DEBUG_SERVER_PORT = 10881;
+
+interface FakeLogEntry {
+  date: Date;
+  bundleId?: string;
+  message: string;
+}
+
+interface FakeCrashLog extends CrashLogInfo {
+  content: string;
+}
+
+/**
+ * Mutable state of a fake simulator
+ */
+interface FakeSimulator {
+  info: SimulatorInfo;
+  screen: ScreenSize;
+  apps: Map<string, AppInfo>;
+  running: Set<string>;
+  foregroundApp?: string;
+  /**
+   * Accessibility trees by bundle ID, copied from the fixture so that typed text
+   * stays in this simulator
+   */
+  screens: Record<string, AccessibilityInfo[]>;
+  focusedElement?: AccessibilityInfo;
+  location?: { latitude: number; longitude: number };
+  logs: FakeLogEntry[];
+  crashLogs: FakeCrashLog[];
+  media: string[];
+  permissions: Map<string, Set<string>>;
+  debugServer?: { port: number; bundleId: string };
+}
+
+/**
+ * Computes the CRC-32 of PNG chunks
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encodes a blank grayscale PNG image
+ * @param width Width in pixels
+ * @param height Height in pixels
+ * @returns PNG data
+ */
+function blankPng(width: number, height: number): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 0; // Grayscale
+  // Every row starts with filter type 0 followed by white pixels
+  const row = Buffer.alloc(width + 1, 0xff);
+  row[0] = 0;
+  const pixels = Buffer.concat(Array.from({ length: height }, () => row));
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(pixels)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * Checks whether a point is inside the frame of an element
+ */
+function containsPoint(element: AccessibilityInfo, x: number, y: number): boolean {
+  const { frame } = element;
+  return x >= frame.x && x <= frame.x + frame.width && y >= frame.y && y <= frame.y + frame.height;
+}
+
+/**
+ * In-memory implementation of IIDBManager
+ *
+ * Simulates devices, their boot state, installed and running apps, the foreground
+ * app and its accessibility tree, logs, crash logs and location, without idb or
+ * Xcode. Its state is seeded from a fixture and its clock advances one second per
+ * operation, so the same commands always give the same results. It lets the
+ * server run end to end on any platform, e.g. in CI and demos.
+ */
+export class FakeIDBManager implements IIDBManager {
+  private simulators: Map<string, FakeSimulator> = new Map();
+  private sessions: Map<string, string> = new Map();
+  private sessionCounter: number = 1;
+  private recordingCounter: number = 1;
+  private recordings: Map<string, { sessionId: string; outputPath: string; startTime: number }> = new Map();
+  private abortContext: AsyncLocalStorage<AbortSignal> = new AsyncLocalStorage();
+  private clock: number;
+
+  /**
+   * Constructor
+   * @param fixture Initial state of the simulators (DEFAULT_FAKE_FIXTURE by default)
+   */
+  constructor(fixture: FakeFixture = DEFAULT_FAKE_FIXTURE) {
+    this.clock = Date.parse(fixture.startTime);
+
+    for (const simulator of fixture.simulators) {
+      this.simulators.set(simulator.udid, {
+        info: {
+          udid: simulator.udid,
+          name: simulator.name,
+          state: simulator.state,
+          os: simulator.os,
+          deviceType: simulator.deviceType
+        },
+        screen: { ...simulator.screen },
+        apps: new Map(simulator.apps.map(app => [app.bundleId, { ...app }])),
+        running: new Set(simulator.foregroundApp ? [simulator.foregroundApp] : []),
+        foregroundApp: simulator.foregroundApp,
+        screens: structuredClone(fixture.screens),
+        location: simulator.location && { ...simulator.location },
+        logs: simulator.logs.map(log => ({
+          date: log.date ? new Date(log.date) : new Date(this.clock),
+          bundleId: log.bundleId,
+          message: log.message
+        })),
+        crashLogs: simulator.crashLogs.map(crash => ({
+          name: crash.name,
+          bundleId: crash.bundleId,
+          date: new Date(crash.date),
+          path: `/fake/${simulator.udid}/crashes/${crash.name}`,
+          content: crash.content
+        })),
+        media: [],
+        permissions: new Map()
+      });
+    }
+  }
+
+  async runWithSignal<T>(signal: AbortSignal, operation: () => Promise<T>): Promise<T> {
+    return this.abortContext.run(signal, operation);
+  }
+
+  private throwIfAborted(): void {
+    if (this.abortContext.getStore()?.aborted) {
+      throw createAbortError();
+    }
+  }
+
+  /**
+   * Advances the clock of the backend
+   * @returns Time of the current operation
+   */
+  private tick(): Date {
+    this.clock += 1000;
+    return new Date(this.clock);
+  }
+
+  private log(simulator: FakeSimulator, message: string, bundleId?: string): void {
+    simulator.logs.push({ date: this.tick(), bundleId, message });
+  }
+
+  private simulatorByUDID(udid: string): FakeSimulator {
+    this.throwIfAborted();
+    const simulator = this.simulators.get(udid);
+    if (!simulator) {
+      throw new Error(`Simulator not found: ${udid}`);
+    }
+    return simulator;
+  }
+
+  /**
+   * Gets the simulator of a session
+   * @param sessionId Session ID
+   * @param requireBooted Whether the operation needs the simulator to be booted
+   * @returns Simulator state
+   */
+  private simulatorFor(sessionId: string, requireBooted: boolean = true): FakeSimulator {
+    this.throwIfAborted();
+    const udid = this.sessions.get(sessionId);
+    if (!udid) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const simulator = this.simulatorByUDID(udid);
+    if (requireBooted && simulator.info.state !== 'Booted') {
+      throw new Error(`Simulator ${simulator.info.name} (${udid}) is not booted`);
+    }
+    return simulator;
+  }
+
+  private installedApp(simulator: FakeSimulator, bundleId: string): AppInfo {
+    const app = simulator.apps.get(bundleId);
+    if (!app) {
+      throw new Error(`App not installed: ${bundleId}`);
+    }
+    return app;
+  }
+
+  private currentScreen(simulator: FakeSimulator): AccessibilityInfo[] {
+    return simulator.screens[simulator.foregroundApp || HOME_SCREEN] || [];
+  }
+
+  /**
+   * Finds the innermost element at a point of the current screen
+   */
+  private elementAt(simulator: FakeSimulator, x: number, y: number): AccessibilityInfo | null {
+    const elements = flattenElements(this.currentScreen(simulator)).filter(element => containsPoint(element, x, y));
+    return elements.length > 0 ? elements[elements.length - 1] : null;
+  }
+
+  // === Simulator Management ===
+
+  async createSimulatorSession(config?: SessionConfig, onProgress?: ProgressCallback): Promise<string> {
+    this.throwIfAborted();
+    const simulators = [...this.simulators.values()];
+    let simulator: FakeSimulator | undefined;
+
+    if (config?.deviceName) {
+      simulator = simulators.find(sim =>
+        sim.info.name === config.deviceName &&
+        (!config.platformVersion || sim.info.os.includes(config.platformVersion))
+      );
+      if (!simulator) {
+        throw new Error(`No simulator found with name ${config.deviceName}`);
+      }
+    } else {
+      simulator = simulators[0];
+    }
+
+    if (config?.autoboot !== false) {
+      await this.bootSimulatorByUDID(simulator.info.udid, onProgress);
+    }
+
+    const sessionId = `fake-session-${this.sessionCounter++}`;
+    this.sessions.set(sessionId, simulator.info.udid);
+    return sessionId;
+  }
+
+  async terminateSimulatorSession(sessionId: string): Promise<void> {
+    this.simulatorFor(sessionId, false);
+    for (const [recordingId, recording] of this.recordings) {
+      if (recording.sessionId === sessionId) {
+        await this.stopVideoRecording(sessionId, recordingId);
+      }
+    }
+    this.sessions.delete(sessionId);
+  }
+
+  async dispose(): Promise<void> {
+    this.recordings.clear();
+  }
+
+  async listAvailableSimulators(): Promise<SimulatorInfo[]> {
+    this.throwIfAborted();
+    return [...this.simulators.values()].map(simulator => ({ ...simulator.info }));
+  }
+
+  async listBootedSimulators(): Promise<SimulatorInfo[]> {
+    const simulators = await this.listAvailableSimulators();
+    return simulators.filter(sim => sim.state === 'Booted');
+  }
+
+  async bootSimulatorByUDID(udid: string, onProgress?: ProgressCallback): Promise<void> {
+    const simulator = this.simulatorByUDID(udid);
+    if (simulator.info.state === 'Booted') {
+      return;
+    }
+    onProgress?.({ progress: 0, total: 1, message: `Booting simulator ${udid}` });
+    simulator.info.state = 'Booted';
+    this.log(simulator, 'Simulator booted');
+    onProgress?.({ progress: 1, total: 1, message: `Simulator ${udid} booted` });
+  }
+
+  async shutdownSimulatorByUDID(udid: string): Promise<void> {
+    const simulator = this.simulatorByUDID(udid);
+    if (simulator.info.state !== 'Booted') {
+      return;
+    }
+    this.log(simulator, 'Simulator shut down');
+    simulator.info.state = 'Shutdown';
+    simulator.running.clear();
+    simulator.foregroundApp = undefined;
+    simulator.focusedElement = undefined;
+    simulator.debugServer = undefined;
+  }
+
+  async shutdownSimulator(sessionId: string): Promise<void> {
+    const simulator = this.simulatorFor(sessionId, false);
+    await this.shutdownSimulatorByUDID(simulator.info.udid);
+  }
+
+  async listSimulatorSessions(): Promise<string[]> {
+    this.throwIfAborted();
+    return [...this.sessions.keys()];
+  }
+
+  async getSessionSimulator(sessionId: string): Promise<SimulatorInfo | null> {
+    this.throwIfAborted();
+    const udid = this.sessions.get(sessionId);
+    const simulator = udid ? this.simulators.get(udid) : undefined;
+    return simulator ? { ...simulator.info } : null;
+  }
+
+  async getScreenSize(sessionId: string): Promise<ScreenSize> {
+    return { ...this.simulatorFor(sessionId).screen };
+  }
+
+  async isSimulatorBooted(sessionId: string): Promise<boolean> {
+    return this.simulatorFor(sessionId, false).info.state === 'Booted';
+  }
+
+  async focusSimulator(sessionId: string): Promise<void> {
+    this.simulatorFor(sessionId);
+  }
+
+  // === Application Management ===
+
+  async installApp(sessionId: string, appPath: string, onProgress?: ProgressCallback): Promise<AppInfo> {
+    const simulator = this.simulatorFor(sessionId);
+    // Apps that do not exist on disk get a bundle ID derived from their file name
+    const name = path.basename(appPath, path.extname(appPath));
+    const app: AppInfo = fs.existsSync(appPath)
+      ? { ...readAppBundle(appPath), installedPath: appPath }
+      : { bundleId: `com.example.${name}`, name, installedPath: appPath };
+    checkMinimumOS(app, simulator.info.os);
+
+    onProgress?.({ progress: 0, total: 1, message: `Installing ${path.basename(appPath)}` });
+    simulator.apps.set(app.bundleId, app);
+    this.log(simulator, `Installed ${appPath}`, app.bundleId);
+    onProgress?.({ progress: 1, total: 1, message: `Installed ${app.name}` });
+    return { ...app };
+  }
+
+  async launchApp(sessionId: string, bundleId: string): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    this.installedApp(simulator, bundleId);
+    simulator.running.add(bundleId);
+    simulator.foregroundApp = bundleId;
+    simulator.focusedElement = undefined;
+    this.log(simulator, 'App launched', bundleId);
+  }
+
+  async terminateApp(sessionId: string, bundleId: string): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    this.installedApp(simulator, bundleId);
+    if (!simulator.running.delete(bundleId)) {
+      throw new Error(`App not running: ${bundleId}`);
+    }
+    if (simulator.foregroundApp === bundleId) {
+      simulator.foregroundApp = undefined;
+      simulator.focusedElement = undefined;
+    }
+    this.log(simulator, 'App terminated', bundleId);
+  }
+
+  async uninstallApp(sessionId: string, bundleId: string): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    this.installedApp(simulator, bundleId);
+    if (simulator.running.has(bundleId)) {
+      await this.terminateApp(sessionId, bundleId);
+    }
+    simulator.apps.delete(bundleId);
+    simulator.permissions.delete(bundleId);
+    this.log(simulator, 'App uninstalled', bundleId);
+  }
+
+  async listApps(sessionId: string): Promise<AppInfo[]> {
+    return [...this.simulatorFor(sessionId).apps.values()].map(app => ({ ...app }));
+  }
+
+  async isAppInstalled(sessionId: string, bundleId: string): Promise<boolean> {
+    return this.simulatorFor(sessionId).apps.has(bundleId);
+  }
+
+  /**
+   * Gets the app in the foreground
+   * @param sessionId Session ID of the simulator
+   * @returns Bundle ID, or undefined on the home screen
+   */
+  async getForegroundApp(sessionId: string): Promise<string | undefined> {
+    return this.simulatorFor(sessionId).foregroundApp;
+  }
+
+  // === UI Interaction ===
+
+  async tap(sessionId: string, x: number, y: number, duration?: number): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    const element = this.elementAt(simulator, x, y);
+    simulator.focusedElement = element || undefined;
+    const target = element ? ` on "${element.label || element.identifier || element.type}"` : '';
+    this.log(simulator, `${duration ? 'Long press' : 'Tap'} at ${x}, ${y}${target}`, simulator.foregroundApp);
+  }
+
+  async doubleTap(sessionId: string, x: number, y: number): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    const element = this.elementAt(simulator, x, y);
+    simulator.focusedElement = element || undefined;
+    const target = element ? ` on "${element.label || element.identifier || element.type}"` : '';
+    this.log(simulator, `Double tap at ${x}, ${y}${target}`, simulator.foregroundApp);
+  }
+
+  async swipe(
+    sessionId: string,
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number
+  ): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    this.log(simulator, `Swipe from ${startX}, ${startY} to ${endX}, ${endY}`, simulator.foregroundApp);
+  }
+
+  async pinch(sessionId: string, x: number, y: number, scale: number): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    this.log(simulator, `Pinch at ${x}, ${y} with scale ${scale}`, simulator.foregroundApp);
+  }
+
+  async pressButton(sessionId: string, button: ButtonType): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    if (button === 'HOME') {
+      simulator.foregroundApp = undefined;
+      simulator.focusedElement = undefined;
+    }
+    this.log(simulator, `Button ${button} pressed`);
+  }
+
+  async inputText(sessionId: string, text: string): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    const field = simulator.focusedElement;
+    if (!field || !ELEMENT_TYPES.field.includes(field.type || '')) {
+      throw new Error('No text field is focused');
+    }
+    field.value = (field.value || '') + text;
+    this.log(simulator, `Text typed into "${field.label || field.identifier}"`, simulator.foregroundApp);
+  }
+
+  async pressKey(sessionId: string, keyCode: number): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    this.log(simulator, `Key ${keyCode} pressed`, simulator.foregroundApp);
+  }
+
+  async pressKeySequence(sessionId: string, keyCodes: number[]): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    this.log(simulator, `Keys ${keyCodes.join(', ')} pressed`, simulator.foregroundApp);
+  }
+
+  // === Accessibility ===
+
+  async describeAllElements(sessionId: string): Promise<AccessibilityInfo[]> {
+    return structuredClone(this.currentScreen(this.simulatorFor(sessionId)));
+  }
+
+  async describePointElement(sessionId: string, x: number, y: number): Promise<AccessibilityInfo | null> {
+    const element = this.elementAt(this.simulatorFor(sessionId), x, y);
+    return element ? structuredClone(element) : null;
+  }
+
+  // === Screenshots and Logs ===
+
+  async takeScreenshot(sessionId: string, outputPath?: string): Promise<Buffer | string> {
+    const simulator = this.simulatorFor(sessionId);
+    const image = blankPng(simulator.screen.width, simulator.screen.height);
+    if (outputPath) {
+      fs.writeFileSync(outputPath, image);
+      return outputPath;
+    }
+    return image;
+  }
+
+  async startVideoRecording(sessionId: string, outputPath: string): Promise<string> {
+    const simulator = this.simulatorFor(sessionId);
+    const recordingId = `fake-recording-${this.recordingCounter++}`;
+    this.log(simulator, `Video recording started to ${outputPath}`);
+    this.recordings.set(recordingId, { sessionId, outputPath, startTime: this.clock });
+    return recordingId;
+  }
+
+  async stopVideoRecording(sessionId: string, recordingId: string): Promise<VideoRecordingResult> {
+    const simulator = this.simulatorFor(sessionId, false);
+    const recording = this.recordings.get(recordingId);
+    if (!recording || recording.sessionId !== sessionId) {
+      throw new Error(`Recording not found: ${recordingId}`);
+    }
+    this.recordings.delete(recordingId);
+    this.log(simulator, `Video recording saved to ${recording.outputPath}`);
+    // No video is written, so the recording is empty
+    return { recordingId, outputPath: recording.outputPath, duration: this.clock - recording.startTime, size: 0 };
+  }
+
+  async getSystemLogs(sessionId: string, options?: {
+    bundle?: string;
+    since?: Date;
+    limit?: number;
+  }): Promise<string> {
+    const simulator = this.simulatorFor(sessionId);
+    let logs = simulator.logs.filter(log =>
+      (!options?.bundle || log.bundleId === options.bundle) &&
+      (!options?.since || log.date >= options.since)
+    );
+    if (options?.limit) {
+      logs = logs.slice(-options.limit);
+    }
+    return logs
+      .map(log => `${log.date.toISOString()} ${log.bundleId || 'SpringBoard'}: ${log.message}`)
+      .join('\n');
+  }
+
+  async getAppLogs(sessionId: string, bundleId: string): Promise<string> {
+    return this.getSystemLogs(sessionId, { bundle: bundleId });
+  }
+
+  // === Debug ===
+
+  async startDebugServer(sessionId: string, bundleId: string): Promise<number> {
+    const simulator = this.simulatorFor(sessionId);
+    this.installedApp(simulator, bundleId);
+    simulator.debugServer = { port: FAKE_DEBUG_SERVER_PORT, bundleId };
+    this.log(simulator, `Debug server started on port ${FAKE_DEBUG_SERVER_PORT}`, bundleId);
+    return FAKE_DEBUG_SERVER_PORT;
+  }
+
+  async stopDebugServer(sessionId: string): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    if (!simulator.debugServer) {
+      throw new Error('No debug server is running');
+    }
+    this.log(simulator, 'Debug server stopped', simulator.debugServer.bundleId);
+    simulator.debugServer = undefined;
+  }
+
+  async getDebugServerStatus(sessionId: string): Promise<{ running: boolean; port?: number; bundleId?: string }> {
+    const { debugServer } = this.simulatorFor(sessionId);
+    return debugServer ? { running: true, ...debugServer } : { running: false };
+  }
+
+  // === Crash Logs ===
+
+  /**
+   * Selects the crash logs matching filtering options
+   */
+  private matchCrashLogs(simulator: FakeSimulator, options: {
+    crashNames?: string[];
+    bundleId?: string;
+    before?: Date;
+    since?: Date;
+  }): FakeCrashLog[] {
+    return simulator.crashLogs.filter(crash =>
+      (!options.crashNames || options.crashNames.includes(crash.name)) &&
+      (!options.bundleId || crash.bundleId === options.bundleId) &&
+      (!options.before || crash.date < options.before) &&
+      (!options.since || crash.date >= options.since)
+    );
+  }
+
+  async listCrashLogs(sessionId: string, options?: {
+    bundleId?: string;
+    before?: Date;
+    since?: Date;
+  }): Promise<CrashLogInfo[]> {
+    const simulator = this.simulatorFor(sessionId);
+    return this.matchCrashLogs(simulator, options || {})
+      .map(({ content, ...crash }) => ({ ...crash, date: new Date(crash.date) }));
+  }
+
+  async getCrashLog(sessionId: string, crashName: string): Promise<string> {
+    const crash = this.simulatorFor(sessionId).crashLogs.find(log => log.name === crashName);
+    if (!crash) {
+      throw new Error(`Crash log not found: ${crashName}`);
+    }
+    return crash.content;
+  }
+
+  async deleteCrashLogs(sessionId: string, options: {
+    crashNames?: string[];
+    bundleId?: string;
+    before?: Date;
+    since?: Date;
+    all?: boolean;
+  }): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    const deleted = new Set(options.all ? simulator.crashLogs : this.matchCrashLogs(simulator, options));
+    simulator.crashLogs = simulator.crashLogs.filter(crash => !deleted.has(crash));
+  }
+
+  // === Miscellaneous ===
+
+  async installDylib(sessionId: string, dylibPath: string): Promise<void> {
+    this.log(this.simulatorFor(sessionId), `Installed dylib ${dylibPath}`);
+  }
+
+  async openUrl(sessionId: string, url: string): Promise<void> {
+    this.log(this.simulatorFor(sessionId), `Opened URL ${url}`);
+  }
+
+  async clearKeychain(sessionId: string): Promise<void> {
+    this.log(this.simulatorFor(sessionId), 'Keychain cleared');
+  }
+
+  async setLocation(sessionId: string, latitude: number, longitude: number): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    simulator.location = { latitude, longitude };
+    this.log(simulator, `Location set to ${latitude}, ${longitude}`);
+  }
+
+  /**
+   * Gets the simulated location
+   * @param sessionId Session ID of the simulator
+   * @returns Latitude and longitude, or null if none was set
+   */
+  async getLocation(sessionId: string): Promise<{ latitude: number; longitude: number } | null> {
+    const { location } = this.simulatorFor(sessionId, false);
+    return location ? { ...location } : null;
+  }
+
+  async addMedia(sessionId: string, mediaPaths: string[]): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    simulator.media.push(...mediaPaths);
+    this.log(simulator, `Added ${mediaPaths.length} media files`);
+  }
+
+  async approvePermissions(sessionId: string, bundleId: string, permissions: string[]): Promise<void> {
+    const simulator = this.simulatorFor(sessionId);
+    this.installedApp(simulator, bundleId);
+    const approved = simulator.permissions.get(bundleId) || new Set<string>();
+    permissions.forEach(permission => approved.add(permission));
+    simulator.permissions.set(bundleId, approved);
+    this.log(simulator, `Approved permissions ${permissions.join(', ')}`, bundleId);
+  }
+
+  async updateContacts(sessionId: string, dbPath: string): Promise<void> {
+    this.log(this.simulatorFor(sessionId), `Contacts updated from ${dbPath}`);
+  }
+}
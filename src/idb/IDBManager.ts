@@ -1,8 +1,7 @@
 // SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
 // SPDX-License-Identifier: Apache-2.0
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { AsyncLocalStorage } from 'async_hooks';
 import * as fs from 'fs';
 import * as path from 'path';
 import { 
@@ -12,10 +11,43 @@ import {
   SessionConfig,
   ButtonType,
   AccessibilityInfo,
-  CrashLogInfo
+  CrashLogInfo,
+  ProgressCallback,
+  ScreenSize,
+  VideoRecordingResult
 } from './interfaces/IIDBManager.js';
+import { IProcessRunner, RunOptions } from './interfaces/IProcessRunner.js';
+import { IDBCommandError, createAbortError } from './errors.js';
+import { ProcessRunner } from './ProcessRunner.js';
+import { VideoRecorder } from './VideoRecorder.js';
+import { checkMinimumOS, readAppBundle } from './appBundle.js';
 
-const execAsync = promisify(exec);
+/**
+ * Formats a command for logs and error messages, quoting arguments with spaces
+ */
+function formatCommand(file: string, args: string[]): string {
+  return [file, ...args].map(arg => /[\s"'$`\\]/.test(arg) ? JSON.stringify(arg) : arg).join(' ');
+}
+
+/**
+ * Converts an element of `idb ui describe-all/describe-point --json` output
+ */
+function toAccessibilityInfo(element: any): AccessibilityInfo {
+  const frame = element.frame || {};
+  return {
+    identifier: element.AXUniqueId || undefined,
+    label: element.AXLabel || undefined,
+    frame: {
+      x: Number(frame.x) || 0,
+      y: Number(frame.y) || 0,
+      width: Number(frame.width) || 0,
+      height: Number(frame.height) || 0
+    },
+    type: element.type || element.role || undefined,
+    value: element.AXValue || undefined,
+    children: Array.isArray(element.children) ? element.children.map(toAccessibilityInfo) : undefined
+  };
+}
 
 /**
  * IDB manager implementation for interacting with iOS simulators
@@ -23,22 +55,87 @@ const execAsync = promisify(exec);
 export class IDBManager implements IIDBManager {
   private sessions: Map<string, string> = new Map(); // sessionId -> udid
   private sessionCounter: number = 0;
+  private abortContext: AsyncLocalStorage<AbortSignal> = new AsyncLocalStorage();
+
+  /**
+   * Constructor
+   * @param processRunner Runner of the idb and simctl processes
+   * @param videoRecorder Manager of the video recording processes
+   */
+  constructor(
+    private readonly processRunner: IProcessRunner = new ProcessRunner(),
+    private readonly videoRecorder: VideoRecorder = new VideoRecorder()
+  ) {}
+
+  async runWithSignal<T>(signal: AbortSignal, operation: () => Promise<T>): Promise<T> {
+    return this.abortContext.run(signal, operation);
+  }
+
+  private throwIfAborted(): void {
+    if (this.abortContext.getStore()?.aborted) {
+      throw createAbortError();
+    }
+  }
+
+  private async delay(ms: number): Promise<void> {
+    const signal = this.abortContext.getStore();
+    this.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
 
-  private async executeCommand(command: string): Promise<string> {
+  /**
+   * Runs a command without a shell
+   * @param file Executable name
+   * @param args Arguments, passed as they are
+   * @param options Timeout and output limit (optional)
+   * @returns Trimmed standard output
+   * @throws IDBCommandError if the command fails or exits with a non-zero code
+   */
+  private async executeCommand(file: string, args: string[], options: Omit<RunOptions, 'signal'> = {}): Promise<string> {
+    const signal = this.abortContext.getStore();
+    const command = formatCommand(file, args);
+    this.throwIfAborted();
+
+    let result;
     try {
-      const { stdout } = await execAsync(command);
-      return stdout.trim();
+      result = await this.processRunner.run(file, args, { ...options, signal });
     } catch (error: any) {
+      if (signal?.aborted) {
+        // The runner has already killed the child process
+        throw createAbortError();
+      }
       console.error(`Error executing idb command: ${command}`);
       console.error(error.message);
-      throw new Error(`Error executing idb command: ${error.message}`);
+      throw new IDBCommandError(command, error.message);
     }
+
+    if (result.exitCode !== 0) {
+      const output = result.stderr.trim() || result.stdout.trim() ||
+        (result.exitCode === null ? 'process was killed' : `exited with code ${result.exitCode}`);
+      console.error(`Error executing idb command: ${command}`);
+      console.error(output);
+      throw new IDBCommandError(command, output);
+    }
+    return result.stdout.trim();
   }
 
   private async verifyIDBAvailability(): Promise<void> {
     try {
-      await this.executeCommand('idb --version');
-    } catch (error) {
+      await this.executeCommand('idb', ['--version'], { timeout: 10000 });
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw error;
+      }
       throw new Error('idb is not installed or not available in PATH. Make sure idb-companion and fb-idb are properly installed.');
     }
   }
@@ -47,7 +144,7 @@ export class IDBManager implements IIDBManager {
     return `session_${Date.now()}_${this.sessionCounter++}`;
   }
 
-  async createSimulatorSession(config?: SessionConfig): Promise<string> {
+  async createSimulatorSession(config?: SessionConfig, onProgress?: ProgressCallback): Promise<string> {
     await this.verifyIDBAvailability();
     let udid: string;
 
@@ -71,7 +168,7 @@ export class IDBManager implements IIDBManager {
     }
 
     if (config?.autoboot !== false) {
-      await this.bootSimulatorByUDID(udid);
+      await this.bootSimulatorByUDID(udid, onProgress);
     }
 
     const sessionId = this.generateSessionId();
@@ -84,12 +181,14 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
+    // Stop the recordings of the session so that their videos are written
+    await this.videoRecorder.stopSession(sessionId);
     this.sessions.delete(sessionId);
   }
 
   async listAvailableSimulators(): Promise<SimulatorInfo[]> {
     await this.verifyIDBAvailability();
-    const output = await this.executeCommand('xcrun simctl list devices --json');
+    const output = await this.executeCommand('xcrun', ['simctl', 'list', 'devices', '--json']);
     const data = JSON.parse(output);
     const simulators: SimulatorInfo[] = [];
     
@@ -114,28 +213,37 @@ export class IDBManager implements IIDBManager {
     return simulators.filter(sim => sim.state === 'Booted');
   }
 
-  async bootSimulatorByUDID(udid: string): Promise<void> {
+  async bootSimulatorByUDID(udid: string, onProgress?: ProgressCallback): Promise<void> {
     await this.verifyIDBAvailability();
     const simulators = await this.listBootedSimulators();
     if (simulators.some(sim => sim.udid === udid)) {
       return;
     }
     
-    await this.executeCommand(`xcrun simctl boot ${udid}`);
+    await this.executeCommand('xcrun', ['simctl', 'boot', udid]);
     let attempts = 0;
     const maxAttempts = 30;
     
     while (attempts < maxAttempts) {
+      onProgress?.({
+        progress: attempts,
+        total: maxAttempts,
+        message: `Waiting for simulator ${udid} to boot (attempt ${attempts + 1}/${maxAttempts})`
+      });
       try {
         const booted = await this.listBootedSimulators();
         if (booted.some(sim => sim.udid === udid)) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
+          await this.delay(2000);
+          onProgress?.({ progress: maxAttempts, total: maxAttempts, message: `Simulator ${udid} booted` });
           return;
         }
-      } catch (error) {
-        // Ignore errors during boot
+      } catch (error: any) {
+        // Ignore errors during boot, except cancellation
+        if (error.name === 'AbortError') {
+          throw error;
+        }
       }
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await this.delay(1000);
       attempts++;
     }
     
@@ -147,34 +255,36 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
+    await this.videoRecorder.stopSession(sessionId);
     await this.shutdownSimulatorByUDID(udid);
   }
 
   async shutdownSimulatorByUDID(udid: string): Promise<void> {
     await this.verifyIDBAvailability();
-    await this.executeCommand(`xcrun simctl shutdown ${udid}`);
+    await this.executeCommand('xcrun', ['simctl', 'shutdown', udid]);
   }
 
-  async installApp(sessionId: string, appPath: string): Promise<AppInfo> {
+  async installApp(sessionId: string, appPath: string, onProgress?: ProgressCallback): Promise<AppInfo> {
     const udid = this.sessions.get(sessionId);
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
     
+    onProgress?.({ progress: 0, total: 2, message: `Checking ${appPath}` });
     if (!fs.existsSync(appPath)) {
       throw new Error(`File does not exist: ${appPath}`);
     }
+    const app = readAppBundle(appPath);
+    const simulator = (await this.listAvailableSimulators()).find(sim => sim.udid === udid);
+    if (simulator) {
+      checkMinimumOS(app, simulator.os);
+    }
     
-    await this.executeCommand(`idb install --udid ${udid} ${appPath}`);
-    
-    const appName = path.basename(appPath, path.extname(appPath));
-    const bundleId = `com.example.${appName}`;
+    onProgress?.({ progress: 1, total: 2, message: `Installing ${path.basename(appPath)}` });
+    await this.executeCommand('idb', ['install', '--udid', udid, '--', appPath]);
+    onProgress?.({ progress: 2, total: 2, message: `Installed ${app.name}` });
     
-    return {
-      bundleId,
-      name: appName,
-      installedPath: appPath
-    };
+    return { ...app, installedPath: appPath };
   }
 
   async launchApp(sessionId: string, bundleId: string): Promise<void> {
@@ -182,7 +292,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb launch --udid ${udid} ${bundleId}`);
+    await this.executeCommand('idb', ['launch', '--udid', udid, '--', bundleId]);
   }
 
   async terminateApp(sessionId: string, bundleId: string): Promise<void> {
@@ -190,15 +300,18 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb terminate --udid ${udid} ${bundleId}`);
+    await this.executeCommand('idb', ['terminate', '--udid', udid, '--', bundleId]);
   }
 
-  async tap(sessionId: string, x: number, y: number): Promise<void> {
+  async tap(sessionId: string, x: number, y: number, duration?: number): Promise<void> {
     const udid = this.sessions.get(sessionId);
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb ui --udid ${udid} tap ${x} ${y}`);
+    const args = ['ui', 'tap', '--udid', udid];
+    // idb takes durations in seconds
+    if (duration) args.push('--duration', String(duration / 1000));
+    await this.executeCommand('idb', [...args, '--', String(x), String(y)]);
   }
 
   async swipe(
@@ -207,15 +320,17 @@ export class IDBManager implements IIDBManager {
     startY: number,
     endX: number,
     endY: number,
-    duration: number = 100
+    duration?: number,
+    delta?: number
   ): Promise<void> {
     const udid = this.sessions.get(sessionId);
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(
-      `idb ui --udid ${udid} swipe ${startX} ${startY} ${endX} ${endY} ${duration}`
-    );
+    const args = ['ui', 'swipe', '--udid', udid];
+    if (duration) args.push('--duration', String(duration / 1000));
+    if (delta) args.push('--delta', String(delta));
+    await this.executeCommand('idb', [...args, '--', ...[startX, startY, endX, endY].map(String)]);
   }
 
   async takeScreenshot(sessionId: string, outputPath?: string): Promise<Buffer | string> {
@@ -225,7 +340,7 @@ export class IDBManager implements IIDBManager {
     }
     
     const tempPath = outputPath || path.join(process.cwd(), `screenshot_${Date.now()}.png`);
-    await this.executeCommand(`idb screenshot --udid ${udid} ${tempPath}`);
+    await this.executeCommand('idb', ['screenshot', '--udid', udid, '--', tempPath]);
     
     if (outputPath) {
       return outputPath;
@@ -246,10 +361,10 @@ export class IDBManager implements IIDBManager {
       throw new Error(`Session not found: ${sessionId}`);
     }
     
-    let command = `idb log --udid ${udid}`;
-    if (options?.bundle) command += ` --bundle ${options.bundle}`;
-    if (options?.limit) command += ` --limit ${options.limit}`;
-    return this.executeCommand(`${command} --timeout 5`);
+    const args = ['log', '--udid', udid];
+    if (options?.bundle) args.push('--bundle', options.bundle);
+    if (options?.limit) args.push('--limit', String(options.limit));
+    return this.executeCommand('idb', [...args, '--timeout', '5']);
   }
 
   async getAppLogs(sessionId: string, bundleId: string): Promise<string> {
@@ -260,6 +375,32 @@ export class IDBManager implements IIDBManager {
     return Array.from(this.sessions.keys());
   }
 
+  async getSessionSimulator(sessionId: string): Promise<SimulatorInfo | null> {
+    const udid = this.sessions.get(sessionId);
+    if (!udid) {
+      return null;
+    }
+    const simulators = await this.listAvailableSimulators();
+    return simulators.find(sim => sim.udid === udid) || null;
+  }
+
+  async getScreenSize(sessionId: string): Promise<ScreenSize> {
+    const udid = this.sessions.get(sessionId);
+    if (!udid) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const output = await this.executeCommand('idb', ['describe', '--udid', udid, '--json']);
+    const screen = JSON.parse(output || '{}').screen_dimensions;
+    if (!screen) {
+      throw new Error(`Screen size not available for session: ${sessionId}`);
+    }
+    const density = screen.density || 1;
+    return {
+      width: screen.width_points ?? Math.round(screen.width / density),
+      height: screen.height_points ?? Math.round(screen.height / density)
+    };
+  }
+
   async isSimulatorBooted(sessionId: string): Promise<boolean> {
     const udid = this.sessions.get(sessionId);
     if (!udid) {
@@ -274,12 +415,8 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    try {
-      await this.executeCommand(`idb list-apps --udid ${udid} | grep "${bundleId}"`);
-      return true;
-    } catch (error) {
-      return false;
-    }
+    const apps = await this.listApps(sessionId);
+    return apps.some(app => app.bundleId === bundleId);
   }
 
   async focusSimulator(sessionId: string): Promise<void> {
@@ -287,7 +424,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb focus --udid ${udid}`);
+    await this.executeCommand('idb', ['focus', '--udid', udid]);
   }
 
   async uninstallApp(sessionId: string, bundleId: string): Promise<void> {
@@ -295,7 +432,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb uninstall --udid ${udid} ${bundleId}`);
+    await this.executeCommand('idb', ['uninstall', '--udid', udid, '--', bundleId]);
   }
 
   async listApps(sessionId: string): Promise<AppInfo[]> {
@@ -303,8 +440,11 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    const output = await this.executeCommand(`idb list-apps --udid ${udid} --json`);
-    const apps = JSON.parse(output);
+    const output = await this.executeCommand('idb', ['list-apps', '--udid', udid, '--json']);
+    // idb prints one JSON object per app; older versions print a JSON array
+    const apps = output.startsWith('[')
+      ? JSON.parse(output)
+      : output.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
     return apps.map((app: any) => ({
       bundleId: app.bundle_id,
       name: app.name || app.bundle_id,
@@ -317,9 +457,9 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    let command = `idb ui --udid ${udid} button ${button}`;
-    if (duration) command += ` --duration ${duration}`;
-    await this.executeCommand(command);
+    const args = ['ui', 'button', '--udid', udid];
+    if (duration) args.push('--duration', String(duration));
+    await this.executeCommand('idb', [...args, '--', button]);
   }
 
   async inputText(sessionId: string, text: string): Promise<void> {
@@ -327,8 +467,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    const escapedText = text.replace(/"/g, '\\"');
-    await this.executeCommand(`idb ui --udid ${udid} text "${escapedText}"`);
+    await this.executeCommand('idb', ['ui', 'text', '--udid', udid, '--', text]);
   }
 
   async pressKey(sessionId: string, keyCode: number, duration?: number): Promise<void> {
@@ -336,9 +475,9 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    let command = `idb ui --udid ${udid} key ${keyCode}`;
-    if (duration) command += ` --duration ${duration}`;
-    await this.executeCommand(command);
+    const args = ['ui', 'key', '--udid', udid];
+    if (duration) args.push('--duration', String(duration));
+    await this.executeCommand('idb', [...args, '--', String(keyCode)]);
   }
 
   async pressKeySequence(sessionId: string, keyCodes: number[]): Promise<void> {
@@ -346,8 +485,70 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    const keyCodesStr = keyCodes.join(' ');
-    await this.executeCommand(`idb ui --udid ${udid} key-sequence ${keyCodesStr}`);
+    await this.executeCommand('idb', ['ui', 'key-sequence', '--udid', udid, '--', ...keyCodes.map(String)]);
+  }
+
+  async describeAllElements(sessionId: string): Promise<AccessibilityInfo[]> {
+    const udid = this.sessions.get(sessionId);
+    if (!udid) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const output = await this.executeCommand('idb', ['ui', 'describe-all', '--udid', udid, '--json']);
+    const elements = JSON.parse(output || '[]');
+    return (Array.isArray(elements) ? elements : [elements]).map(toAccessibilityInfo);
+  }
+
+  async describePointElement(sessionId: string, x: number, y: number): Promise<AccessibilityInfo | null> {
+    const udid = this.sessions.get(sessionId);
+    if (!udid) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const output = await this.executeCommand('idb', ['ui', 'describe-point', '--udid', udid, '--json', '--', String(x), String(y)]);
+    if (!output) {
+      return null;
+    }
+    const element = JSON.parse(output);
+    return element ? toAccessibilityInfo(Array.isArray(element) ? element[0] : element) : null;
+  }
+
+  async startVideoRecording(sessionId: string, outputPath: string): Promise<string> {
+    const udid = this.sessions.get(sessionId);
+    if (!udid) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    return this.videoRecorder.start(sessionId, udid, outputPath);
+  }
+
+  async stopVideoRecording(sessionId: string, recordingId: string): Promise<VideoRecordingResult> {
+    if (!this.sessions.has(sessionId)) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    return this.videoRecorder.stop(recordingId);
+  }
+
+  async dispose(): Promise<void> {
+    await this.videoRecorder.stopAll();
+  }
+
+  async startDebugServer(sessionId: string, bundleId: string): Promise<number> {
+    const udid = this.sessions.get(sessionId);
+    if (!udid) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    const output = await this.executeCommand('idb', ['debugserver', 'start', '--udid', udid, '--', bundleId]);
+    const portMatch = output.match(/(?:port:?\s*|:)(\d+)/);
+    if (!portMatch) {
+      throw new Error(`Could not determine the debug server port from: ${output}`);
+    }
+    return parseInt(portMatch[1], 10);
+  }
+
+  async stopDebugServer(sessionId: string): Promise<void> {
+    const udid = this.sessions.get(sessionId);
+    if (!udid) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    await this.executeCommand('idb', ['debugserver', 'stop', '--udid', udid]);
   }
 
   async getDebugServerStatus(sessionId: string): Promise<{ running: boolean; port?: number; bundleId?: string; }> {
@@ -356,7 +557,7 @@ export class IDBManager implements IIDBManager {
       throw new Error(`Session not found: ${sessionId}`);
     }
     try {
-      const output = await this.executeCommand(`idb debugserver status --udid ${udid}`);
+      const output = await this.executeCommand('idb', ['debugserver', 'status', '--udid', udid]);
       if (output.includes("No debug server running")) {
         return { running: false };
       }
@@ -381,11 +582,11 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    let command = `idb crash list --udid ${udid}`;
-    if (options?.bundleId) command += ` --bundle-id ${options.bundleId}`;
-    if (options?.before) command += ` --before ${options.before.toISOString()}`;
-    if (options?.since) command += ` --since ${options.since.toISOString()}`;
-    const output = await this.executeCommand(command);
+    const args = ['crash', 'list', '--udid', udid];
+    if (options?.bundleId) args.push('--bundle-id', options.bundleId);
+    if (options?.before) args.push('--before', options.before.toISOString());
+    if (options?.since) args.push('--since', options.since.toISOString());
+    const output = await this.executeCommand('idb', args);
     const lines = output.split('\n').filter(Boolean);
     return lines.map(line => {
       const parts = line.split(' - ');
@@ -403,7 +604,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    return this.executeCommand(`idb crash show --udid ${udid} ${crashName}`);
+    return this.executeCommand('idb', ['crash', 'show', '--udid', udid, '--', crashName]);
   }
 
   async deleteCrashLogs(sessionId: string, options: {
@@ -418,20 +619,20 @@ export class IDBManager implements IIDBManager {
       throw new Error(`Session not found: ${sessionId}`);
     }
     if (options.all) {
-      await this.executeCommand(`idb crash delete --udid ${udid} --all`);
+      await this.executeCommand('idb', ['crash', 'delete', '--udid', udid, '--all']);
       return;
     }
     if (options.crashNames?.length) {
       for (const crashName of options.crashNames) {
-        await this.executeCommand(`idb crash delete --udid ${udid} ${crashName}`);
+        await this.executeCommand('idb', ['crash', 'delete', '--udid', udid, '--', crashName]);
       }
       return;
     }
-    let command = `idb crash delete --udid ${udid}`;
-    if (options.bundleId) command += ` --bundle-id ${options.bundleId}`;
-    if (options.before) command += ` --before ${options.before.toISOString()}`;
-    if (options.since) command += ` --since ${options.since.toISOString()}`;
-    await this.executeCommand(command);
+    const args = ['crash', 'delete', '--udid', udid];
+    if (options.bundleId) args.push('--bundle-id', options.bundleId);
+    if (options.before) args.push('--before', options.before.toISOString());
+    if (options.since) args.push('--since', options.since.toISOString());
+    await this.executeCommand('idb', args);
   }
 
   async installDylib(sessionId: string, dylibPath: string): Promise<void> {
@@ -439,7 +640,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb dylib install --udid ${udid} ${dylibPath}`);
+    await this.executeCommand('idb', ['dylib', 'install', '--udid', udid, '--', dylibPath]);
   }
 
   async openUrl(sessionId: string, url: string): Promise<void> {
@@ -447,7 +648,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb open --udid ${udid} ${url}`);
+    await this.executeCommand('idb', ['open', '--udid', udid, '--', url]);
   }
 
   async clearKeychain(sessionId: string): Promise<void> {
@@ -455,7 +656,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb clear_keychain --udid ${udid}`);
+    await this.executeCommand('idb', ['clear_keychain', '--udid', udid]);
   }
 
   async setLocation(sessionId: string, latitude: number, longitude: number): Promise<void> {
@@ -463,7 +664,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb set_location --udid ${udid} ${latitude} ${longitude}`);
+    await this.executeCommand('idb', ['set_location', '--udid', udid, '--', String(latitude), String(longitude)]);
   }
 
   async addMedia(sessionId: string, mediaPaths: string[]): Promise<void> {
@@ -471,8 +672,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    const mediaPathsStr = mediaPaths.join(' ');
-    await this.executeCommand(`idb add-media --udid ${udid} ${mediaPathsStr}`);
+    await this.executeCommand('idb', ['add-media', '--udid', udid, '--', ...mediaPaths]);
   }
 
   async approvePermissions(sessionId: string, bundleId: string, permissions: string[]): Promise<void> {
@@ -480,8 +680,7 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    const permissionsStr = permissions.join(' ');
-    await this.executeCommand(`idb approve --udid ${udid} ${bundleId} ${permissionsStr}`);
+    await this.executeCommand('idb', ['approve', '--udid', udid, '--', bundleId, ...permissions]);
   }
 
   async updateContacts(sessionId: string, dbPath: string): Promise<void> {
@@ -489,6 +688,6 @@ export class IDBManager implements IIDBManager {
     if (!udid) {
       throw new Error(`Session not found: ${sessionId}`);
     }
-    await this.executeCommand(`idb contacts update --udid ${udid} ${dbPath}`);
+    await this.executeCommand('idb', ['contacts', 'update', '--udid', udid, '--', dbPath]);
   }
 }
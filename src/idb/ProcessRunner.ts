@@ -0,0 +1,85 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { spawn } from 'child_process';
+import { IProcessRunner, ProcessResult, RunOptions } from './interfaces/IProcessRunner.js';
+import { createAbortError } from './errors.js';
+
+/**
+ * Time after which commands are killed unless another timeout is given
+ */
+export const DEFAULT_PROCESS_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Maximum size of stdout and of stderr unless another limit is given
+ */
+export const DEFAULT_MAX_OUTPUT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Runs commands with `spawn` and an argument list, without a shell
+ */
+export class ProcessRunner implements IProcessRunner {
+  async run(file: string, args: string[], options: RunOptions = {}): Promise<ProcessResult> {
+    const { signal } = options;
+    const timeout = options.timeout ?? DEFAULT_PROCESS_TIMEOUT;
+    const maxOutputSize = options.maxOutputSize ?? DEFAULT_MAX_OUTPUT_SIZE;
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    return new Promise<ProcessResult>((resolve, reject) => {
+      const child = spawn(file, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+      const sizes = { stdout: 0, stderr: 0 };
+      let failure: Error | null = null;
+      let settled = false;
+
+      const settle = (error: Error | null, exitCode: number | null = null) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve({
+            stdout: Buffer.concat(output.stdout).toString('utf8'),
+            stderr: Buffer.concat(output.stderr).toString('utf8'),
+            exitCode
+          });
+        }
+      };
+
+      // Kill the process and report the failure once it has exited
+      const fail = (error: Error) => {
+        if (!failure) {
+          failure = error;
+          child.kill('SIGKILL');
+        }
+      };
+
+      const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+        sizes[stream] += chunk.length;
+        if (sizes[stream] > maxOutputSize) {
+          fail(new Error(`${stream} of ${file} exceeded ${maxOutputSize} bytes`));
+        } else {
+          output[stream].push(chunk);
+        }
+      };
+      child.stdout.on('data', collect('stdout'));
+      child.stderr.on('data', collect('stderr'));
+
+      const onAbort = () => fail(createAbortError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const timer = timeout > 0
+        ? setTimeout(() => fail(new Error(`${file} timed out after ${timeout} ms`)), timeout)
+        : undefined;
+
+      // Processes that could not be started emit 'error' without exiting
+      child.once('error', error => settle(child.pid === undefined ? error : failure || error));
+      child.once('close', exitCode => settle(failure, exitCode));
+    });
+  }
+}
@@ -0,0 +1,243 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { VideoRecordingResult } from './interfaces/IIDBManager.js';
+import { IDBCommandError } from './errors.js';
+
+/**
+ * Recordings are stopped automatically after this time unless another limit is given
+ */
+export const DEFAULT_MAX_RECORDING_DURATION = 30 * 60 * 1000;
+
+/**
+ * Time given to the recorder to finalize the video after SIGINT before it is killed
+ */
+export const DEFAULT_RECORDING_STOP_TIMEOUT = 10 * 1000;
+
+/**
+ * Directory of the videos of recordings started without an output path
+ */
+export const RECORDINGS_DIRECTORY = path.join(os.tmpdir(), 'mcp-server-simulator-ios-idb', 'recordings');
+
+/**
+ * Generates the path of a video in the recordings directory, creating the directory
+ * @param sessionId Session ID the recording belongs to
+ * @returns Path of a new MP4 file
+ */
+export function defaultRecordingPath(sessionId: string): string {
+  fs.mkdirSync(RECORDINGS_DIRECTORY, { recursive: true });
+  const name = `${sessionId || 'simulator'}_${new Date().toISOString().replace(/[:.]/g, '-')}.mp4`;
+  return path.join(RECORDINGS_DIRECTORY, name.replace(/[^\w.-]/g, '_'));
+}
+
+/**
+ * Maximum number of characters of stderr kept to explain failed recordings
+ */
+const MAX_STDERR_LENGTH = 4096;
+
+export interface VideoRecorderOptions {
+  /**
+   * Time in milliseconds after which recordings are stopped (0 for no limit)
+   */
+  maxDuration?: number;
+  /**
+   * Time in milliseconds to wait for the video to be finalized when stopping
+   */
+  stopTimeout?: number;
+  /**
+   * Builds the command recording the simulator (`idb record-video` by default)
+   */
+  command?: (udid: string, outputPath: string) => { file: string; args: string[] };
+}
+
+interface ActiveRecording {
+  sessionId: string;
+  outputPath: string;
+  child: ChildProcess;
+  startTime: number;
+  stderr: string;
+  exited: Promise<number | null>;
+  timer?: NodeJS.Timeout;
+  stopping?: Promise<VideoRecordingResult>;
+}
+
+/**
+ * Runs video recordings as long-lived child processes tracked by recording ID
+ *
+ * Recordings are stopped with SIGINT so that the recorder finalizes the MP4 file,
+ * and are stopped automatically when they reach their maximum duration. The result
+ * of recordings that ended on their own is kept until they are stopped.
+ */
+export class VideoRecorder {
+  private recordings: Map<string, ActiveRecording> = new Map();
+  private finished: Map<string, { sessionId: string; result: Promise<VideoRecordingResult> }> = new Map();
+  private recordingCounter: number = 1;
+  private readonly maxDuration: number;
+  private readonly stopTimeout: number;
+  private readonly command: (udid: string, outputPath: string) => { file: string; args: string[] };
+
+  /**
+   * Constructor
+   * @param options Maximum duration, stop timeout and recording command (optional)
+   */
+  constructor(options: VideoRecorderOptions = {}) {
+    this.maxDuration = options.maxDuration ?? DEFAULT_MAX_RECORDING_DURATION;
+    this.stopTimeout = options.stopTimeout ?? DEFAULT_RECORDING_STOP_TIMEOUT;
+    this.command = options.command ?? ((udid, outputPath) => ({
+      file: 'idb',
+      args: ['record-video', '--udid', udid, '--', outputPath]
+    }));
+  }
+
+  /**
+   * Starts recording the screen of a simulator
+   * @param sessionId Session ID the recording belongs to
+   * @param udid UDID of the simulator
+   * @param outputPath Path of the MP4 file to write
+   * @returns Recording ID
+   * @throws IDBCommandError if the recorder cannot be started
+   */
+  async start(sessionId: string, udid: string, outputPath: string): Promise<string> {
+    const { file, args } = this.command(udid, outputPath);
+    const recordingId = `recording_${Date.now()}_${this.recordingCounter++}`;
+    const child = spawn(file, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => resolve());
+      child.once('error', error => reject(new IDBCommandError([file, ...args].join(' '), error.message)));
+    });
+
+    const recording: ActiveRecording = {
+      sessionId,
+      outputPath,
+      child,
+      startTime: Date.now(),
+      stderr: '',
+      // 'close' comes after the stderr output has been read
+      exited: new Promise(resolve => child.once('close', code => resolve(code)))
+    };
+    child.stderr?.on('data', (chunk: Buffer) => {
+      recording.stderr = (recording.stderr + chunk.toString('utf8')).slice(-MAX_STDERR_LENGTH);
+    });
+
+    // Recordings ending without being stopped keep their result for the stop call
+    recording.exited.then(code => {
+      if (this.recordings.get(recordingId) === recording && !recording.stopping) {
+        this.recordings.delete(recordingId);
+        clearTimeout(recording.timer);
+        const result = this.collect(recordingId, recording, code);
+        result.catch(() => {});
+        this.finished.set(recordingId, { sessionId, result });
+      }
+    });
+
+    if (this.maxDuration > 0) {
+      recording.timer = setTimeout(() => {
+        const result = this.stop(recordingId);
+        result.catch(() => {});
+        this.finished.set(recordingId, { sessionId, result });
+      }, this.maxDuration);
+      recording.timer.unref();
+    }
+
+    this.recordings.set(recordingId, recording);
+    return recordingId;
+  }
+
+  /**
+   * Stops a recording and waits for its video to be finalized
+   * @param recordingId Recording ID
+   * @returns Path, duration and size of the video
+   * @throws Error if the recording does not exist, the recorder failed or no video was written
+   */
+  async stop(recordingId: string): Promise<VideoRecordingResult> {
+    const finished = this.finished.get(recordingId);
+    if (finished) {
+      this.finished.delete(recordingId);
+      return finished.result;
+    }
+
+    const recording = this.recordings.get(recordingId);
+    if (!recording) {
+      throw new Error(`Recording not found: ${recordingId}`);
+    }
+    if (!recording.stopping) {
+      recording.stopping = this.interrupt(recordingId, recording);
+    }
+    return recording.stopping;
+  }
+
+  /**
+   * Stops the recordings of a session
+   * @param sessionId Session ID
+   * @returns Results of the recordings that produced a video
+   */
+  async stopSession(sessionId: string): Promise<VideoRecordingResult[]> {
+    return this.stopMatching(recordingSession => recordingSession === sessionId);
+  }
+
+  /**
+   * Stops every recording, e.g. when the server shuts down
+   * @returns Results of the recordings that produced a video
+   */
+  async stopAll(): Promise<VideoRecordingResult[]> {
+    return this.stopMatching(() => true);
+  }
+
+  private async stopMatching(matches: (sessionId: string) => boolean): Promise<VideoRecordingResult[]> {
+    // Recordings stopped at their maximum duration are in both maps until they exit
+    const recordingIds = new Set([
+      ...[...this.recordings].filter(([, recording]) => matches(recording.sessionId)).map(([id]) => id),
+      ...[...this.finished].filter(([, recording]) => matches(recording.sessionId)).map(([id]) => id)
+    ]);
+    const results = await Promise.allSettled([...recordingIds].map(recordingId => this.stop(recordingId)));
+    return results
+      .filter((result): result is PromiseFulfilledResult<VideoRecordingResult> => result.status === 'fulfilled')
+      .map(result => result.value);
+  }
+
+  /**
+   * Sends SIGINT to the recorder, killing it if it does not exit in time
+   */
+  private async interrupt(recordingId: string, recording: ActiveRecording): Promise<VideoRecordingResult> {
+    clearTimeout(recording.timer);
+    recording.child.kill('SIGINT');
+
+    let timeout: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'timeout'>(resolve => {
+      timeout = setTimeout(() => resolve('timeout'), this.stopTimeout);
+    });
+    const code = await Promise.race([recording.exited, timedOut]);
+    clearTimeout(timeout);
+
+    try {
+      if (code === 'timeout') {
+        recording.child.kill('SIGKILL');
+        await recording.exited;
+        throw new Error(`Recording ${recordingId} did not finish within ${this.stopTimeout} ms and was killed`);
+      }
+      return await this.collect(recordingId, recording, code);
+    } finally {
+      this.recordings.delete(recordingId);
+    }
+  }
+
+  /**
+   * Reads the result of a recording whose recorder has exited
+   */
+  private async collect(recordingId: string, recording: ActiveRecording, code: number | null): Promise<VideoRecordingResult> {
+    const duration = Date.now() - recording.startTime;
+    let size: number;
+    try {
+      size = (await fs.promises.stat(recording.outputPath)).size;
+    } catch {
+      const reason = recording.stderr.trim() || `recorder exited with code ${code}`;
+      throw new Error(`Recording ${recordingId} produced no video at ${recording.outputPath}: ${reason}`);
+    }
+    return { recordingId, outputPath: recording.outputPath, duration, size };
+  }
+}
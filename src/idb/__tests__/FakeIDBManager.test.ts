@@ -0,0 +1,110 @@
+import { FakeIDBManager } from '../FakeIDBManager.js';
+import { parseFakeFixture } from '../fakeFixture.js';
+
+const fixture = parseFakeFixture({
+  startTime: '2025-03-01T10:00:00.000Z',
+  simulators: [
+    {
+      udid: 'UDID-1',
+      name: 'iPhone 15',
+      os: 'iOS 17.5',
+      apps: [{ bundleId: 'com.example.app', name: 'Example' }],
+      crashLogs: [
+        { name: 'Example-1.ips', bundleId: 'com.example.app', date: '2025-02-01T00:00:00.000Z', content: 'EXC_BAD_ACCESS' },
+        { name: 'Other-1.ips', bundleId: 'com.example.other', date: '2025-02-15T00:00:00.000Z' }
+      ]
+    },
+    { udid: 'UDID-2', name: 'iPad Air', state: 'Booted' }
+  ],
+  screens: {
+    'com.example.app': [
+      { label: 'Email', type: 'TextField', frame: { x: 0, y: 100, width: 300, height: 40 } },
+      { label: 'Login', type: 'Button', frame: { x: 0, y: 200, width: 300, height: 40 } }
+    ]
+  }
+});
+
+describe('FakeIDBManager', () => {
+  let manager: FakeIDBManager;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    manager = new FakeIDBManager(fixture);
+    sessionId = await manager.createSimulatorSession({ deviceName: 'iPhone 15' });
+  });
+
+  it('should boot the simulator of new sessions', async () => {
+    expect(sessionId).toBe('fake-session-1');
+    expect(await manager.isSimulatorBooted(sessionId)).toBe(true);
+    expect((await manager.listBootedSimulators()).map(sim => sim.udid)).toEqual(['UDID-1', 'UDID-2']);
+
+    await manager.shutdownSimulator(sessionId);
+    await expect(manager.tap(sessionId, 10, 10)).rejects.toThrow('Simulator iPhone 15 (UDID-1) is not booted');
+    await expect(manager.createSimulatorSession({ deviceName: 'Pixel' }))
+      .rejects.toThrow('No simulator found with name Pixel');
+  });
+
+  it('should track installed apps and the foreground app', async () => {
+    const app = await manager.installApp(sessionId, '/builds/Shop.app');
+    expect(app.bundleId).toBe('com.example.Shop');
+    expect(await manager.isAppInstalled(sessionId, 'com.example.Shop')).toBe(true);
+
+    await manager.launchApp(sessionId, 'com.example.app');
+    expect(await manager.getForegroundApp(sessionId)).toBe('com.example.app');
+    await manager.pressButton(sessionId, 'HOME');
+    expect(await manager.getForegroundApp(sessionId)).toBeUndefined();
+
+    await manager.uninstallApp(sessionId, 'com.example.app');
+    await expect(manager.launchApp(sessionId, 'com.example.app')).rejects.toThrow('App not installed: com.example.app');
+  });
+
+  it('should show the accessibility tree of the foreground app and type into focused fields', async () => {
+    expect(await manager.describeAllElements(sessionId)).toEqual([]);
+    await manager.launchApp(sessionId, 'com.example.app');
+
+    await expect(manager.inputText(sessionId, 'hello')).rejects.toThrow('No text field is focused');
+    await manager.tap(sessionId, 150, 120);
+    await manager.inputText(sessionId, 'user@example.com');
+
+    expect((await manager.describePointElement(sessionId, 150, 120))?.value).toBe('user@example.com');
+    expect((await manager.describeAllElements(sessionId)).map(element => element.label)).toEqual(['Email', 'Login']);
+  });
+
+  it('should keep deterministic logs', async () => {
+    await manager.launchApp(sessionId, 'com.example.app');
+    await manager.tap(sessionId, 150, 220);
+    await manager.setLocation(sessionId, 40.4, -3.7);
+
+    expect(await manager.getAppLogs(sessionId, 'com.example.app')).toBe(
+      '2025-03-01T10:00:02.000Z com.example.app: App launched\n' +
+      '2025-03-01T10:00:03.000Z com.example.app: Tap at 150, 220 on "Login"'
+    );
+    expect(await manager.getSystemLogs(sessionId, { limit: 1 }))
+      .toBe('2025-03-01T10:00:04.000Z SpringBoard: Location set to 40.4, -3.7');
+    expect(await manager.getLocation(sessionId)).toEqual({ latitude: 40.4, longitude: -3.7 });
+  });
+
+  it('should filter, read and delete crash logs', async () => {
+    const crashes = await manager.listCrashLogs(sessionId, { since: new Date('2025-02-10T00:00:00.000Z') });
+    expect(crashes.map(crash => crash.name)).toEqual(['Other-1.ips']);
+    expect(await manager.getCrashLog(sessionId, 'Example-1.ips')).toBe('EXC_BAD_ACCESS');
+
+    await manager.deleteCrashLogs(sessionId, { bundleId: 'com.example.app' });
+    expect((await manager.listCrashLogs(sessionId)).map(crash => crash.name)).toEqual(['Other-1.ips']);
+  });
+
+  it('should return PNG screenshots of the screen size', async () => {
+    const image = await manager.takeScreenshot(sessionId) as Buffer;
+
+    expect(image.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect([image.readUInt32BE(16), image.readUInt32BE(20)]).toEqual([393, 852]);
+  });
+
+  it('should reject invalid fixtures', () => {
+    expect(() => parseFakeFixture({ simulators: [] })).toThrow('Invalid fake fixture: simulators');
+    expect(() => parseFakeFixture({ simulators: [{ udid: 'A', name: 'iPhone', state: 'Booting' }] }))
+      .toThrow('Invalid fake fixture: simulators[0].state');
+    expect(() => parseFakeFixture({ simulators: [{ udid: 'A', name: 'iPhone' }, { udid: 'A', name: 'iPad' }] }))
+      .toThrow('duplicate simulator A');
+  });
+});
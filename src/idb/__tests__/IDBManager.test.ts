@@ -0,0 +1,256 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IDBManager } from '../IDBManager.js';
+import { IProcessRunner, ProcessResult } from '../interfaces/IProcessRunner.js';
+import { loadCommandRecording, ReplayProcessRunner } from '../recording.js';
+import { VideoRecorder } from '../VideoRecorder.js';
+
+/**
+ * Runner that records the commands and answers them with canned results
+ */
+class FakeProcessRunner implements IProcessRunner {
+  commands: string[][] = [];
+
+  constructor(private readonly respond: (args: string[]) => Partial<ProcessResult> = () => ({})) {}
+
+  async run(file: string, args: string[]): Promise<ProcessResult> {
+    this.commands.push([file, ...args]);
+    return { stdout: '', stderr: '', exitCode: 0, ...this.respond(args) };
+  }
+}
+
+/**
+ * Recorder that records which recordings it was asked to stop
+ */
+class StubVideoRecorder extends VideoRecorder {
+  stopped: string[] = [];
+
+  async stopSession(sessionId: string) {
+    this.stopped.push(sessionId);
+    return [];
+  }
+
+  async stopAll() {
+    this.stopped.push('all');
+    return [];
+  }
+}
+
+describe('IDBManager', () => {
+  let manager: IDBManager;
+
+  beforeEach(() => {
+    manager = new IDBManager();
+  });
+
+  describe('runWithSignal', () => {
+    it('should kill the running process when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const startTime = Date.now();
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(
+        manager.runWithSignal(controller.signal, () => manager['executeCommand']('sleep', ['10']))
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(Date.now() - startTime).toBeLessThan(5000);
+    });
+
+    it('should not spawn processes once the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        manager.runWithSignal(controller.signal, () => manager['executeCommand']('echo', ['never']))
+      ).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('process arguments', () => {
+    let runner: FakeProcessRunner;
+
+    beforeEach(() => {
+      runner = new FakeProcessRunner(args => {
+        if (args[0] === 'list-apps') {
+          return { stdout: JSON.stringify([{ bundle_id: 'com.example.app', name: 'Example' }]) };
+        }
+        if (args[0] === 'simctl') {
+          return { stdout: JSON.stringify({ devices: { 'com.apple.CoreSimulator.SimRuntime.iOS-16-4': [{ udid: 'UDID-1', name: 'iPhone 14', state: 'Booted' }] } }) };
+        }
+        return {};
+      });
+      manager = new IDBManager(runner);
+      manager['sessions'].set('session-1', 'UDID-1');
+    });
+
+    it('should pass typed text literally', async () => {
+      await manager.inputText('session-1', 'say "hi" $(rm -rf ~) `id`');
+
+      expect(runner.commands).toEqual([
+        ['idb', 'ui', 'text', '--udid', 'UDID-1', '--', 'say "hi" $(rm -rf ~) `id`']
+      ]);
+    });
+
+    it('should pass paths with spaces as single arguments', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'My Apps '));
+      const appPath = path.join(directory, 'Example App.app');
+      fs.mkdirSync(appPath);
+      fs.writeFileSync(path.join(appPath, 'Info.plist'),
+        '<plist><dict><key>CFBundleIdentifier</key><string>com.example.app</string></dict></plist>');
+
+      try {
+        await manager.installApp('session-1', appPath);
+        await manager.addMedia('session-1', ['/tmp/photo 1.jpg', '/tmp/photo 2.jpg']);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+
+      expect(runner.commands.filter(command => command[0] === 'idb' && command[1] !== '--version')).toEqual([
+        ['idb', 'install', '--udid', 'UDID-1', '--', appPath],
+        ['idb', 'add-media', '--udid', 'UDID-1', '--', '/tmp/photo 1.jpg', '/tmp/photo 2.jpg']
+      ]);
+    });
+
+    it('should install apps under the bundle ID of their Info.plist', async () => {
+      const ipaPath = path.join(process.cwd(), 'src/idb/__tests__/fixtures/Shop.ipa');
+
+      expect(await manager.installApp('session-1', ipaPath)).toMatchObject({
+        bundleId: 'com.acme.shop',
+        name: 'Shop',
+        version: '2.3.0',
+        installedPath: ipaPath
+      });
+    });
+
+    it('should refuse apps requiring a newer iOS than the simulator runs', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bundle-'));
+      const appPath = path.join(directory, 'Future.app');
+      fs.mkdirSync(appPath);
+      fs.writeFileSync(path.join(appPath, 'Info.plist'),
+        '<plist><dict><key>CFBundleIdentifier</key><string>com.acme.future</string>' +
+        '<key>MinimumOSVersion</key><string>17.0</string></dict></plist>');
+
+      try {
+        await expect(manager.installApp('session-1', appPath))
+          .rejects.toThrow('Future (com.acme.future) requires iOS 17.0 or later, but the simulator runs iOS-16-4');
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+      expect(runner.commands.some(command => command[1] === 'install')).toBe(false);
+    });
+
+    it('should check installed apps by exact bundle id', async () => {
+      expect(await manager.isAppInstalled('session-1', 'com.example.app')).toBe(true);
+      expect(await manager.isAppInstalled('session-1', 'com.example')).toBe(false);
+    });
+
+    it('should report stderr when a command exits with an error', async () => {
+      manager = new IDBManager(new FakeProcessRunner(() => ({ stderr: 'App not found\n', exitCode: 1 })));
+      manager['sessions'].set('session-1', 'UDID-1');
+
+      await expect(manager.launchApp('session-1', 'com.example.app'))
+        .rejects.toThrow('App not found');
+    });
+  });
+
+  describe('gestures', () => {
+    let runner: FakeProcessRunner;
+
+    beforeEach(() => {
+      runner = new FakeProcessRunner(() => ({
+        stdout: JSON.stringify({ screen_dimensions: { width: 1179, height: 2556, density: 3, width_points: 393, height_points: 852 } })
+      }));
+      manager = new IDBManager(runner);
+      manager['sessions'].set('session-1', 'UDID-1');
+    });
+
+    it('should pass tap and swipe durations in seconds', async () => {
+      await manager.tap('session-1', 10, 20, 1500);
+      await manager.swipe('session-1', 10, 20, 30, 40, 250, 5);
+      await manager.swipe('session-1', 10, 20, 30, 40);
+
+      expect(runner.commands).toEqual([
+        ['idb', 'ui', 'tap', '--udid', 'UDID-1', '--duration', '1.5', '--', '10', '20'],
+        ['idb', 'ui', 'swipe', '--udid', 'UDID-1', '--duration', '0.25', '--delta', '5', '--', '10', '20', '30', '40'],
+        ['idb', 'ui', 'swipe', '--udid', 'UDID-1', '--', '10', '20', '30', '40']
+      ]);
+    });
+
+    it('should read the screen size in points', async () => {
+      expect(await manager.getScreenSize('session-1')).toEqual({ width: 393, height: 852 });
+      expect(runner.commands).toEqual([['idb', 'describe', '--udid', 'UDID-1', '--json']]);
+    });
+  });
+
+  describe('replayed output', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+      const recording = loadCommandRecording(path.join(process.cwd(), 'src/idb/__tests__/fixtures/idb-commands.json'));
+      manager = new IDBManager(new ReplayProcessRunner(recording));
+      sessionId = await manager.createSimulatorSession({ deviceName: 'iPhone 15' });
+    });
+
+    it('should parse simulators from simctl', async () => {
+      expect(await manager.listAvailableSimulators()).toEqual([
+        {
+          udid: '6C8A9F5E-3B2D-4C1A-9E7F-2D4B8A1C3E5F',
+          name: 'iPhone 15',
+          state: 'Booted',
+          os: 'iOS-17-5',
+          deviceType: 'com.apple.CoreSimulator.SimDeviceType.iPhone-15'
+        },
+        {
+          udid: 'B3E1D7A2-8F4C-4E6B-A9D1-5C7E2F8A0B4D',
+          name: 'iPad Air (5th generation)',
+          state: 'Shutdown',
+          os: 'iOS-17-5',
+          deviceType: 'com.apple.CoreSimulator.SimDeviceType.iPad-Air-5th-generation'
+        }
+      ]);
+    });
+
+    it('should parse installed apps printed one JSON object per line', async () => {
+      expect(await manager.listApps(sessionId)).toEqual([
+        { bundleId: 'com.apple.Preferences', name: 'Settings', installedPath: undefined },
+        { bundleId: 'com.example.shop', name: 'Shop', installedPath: undefined }
+      ]);
+      expect(await manager.isAppInstalled(sessionId, 'com.example.shop')).toBe(true);
+    });
+
+    it('should parse crash logs', async () => {
+      const [crash] = await manager.listCrashLogs(sessionId);
+
+      expect(crash).toEqual({
+        name: 'Shop-2025-02-28-101502.ips',
+        bundleId: 'com.example.shop',
+        date: new Date('2025-02-28T10:15:02Z'),
+        path: '/Users/dev/Library/Logs/DiagnosticReports/Shop-2025-02-28-101502.ips'
+      });
+    });
+
+    it('should parse the debug server status', async () => {
+      expect(await manager.getDebugServerStatus(sessionId)).toEqual({ running: false });
+      expect(await manager.getDebugServerStatus(sessionId))
+        .toEqual({ running: true, port: 10881, bundleId: 'com.example.shop' });
+    });
+
+    it('should report the recorded error output', async () => {
+      await expect(manager.launchApp(sessionId, 'com.example.missing'))
+        .rejects.toThrow('App com.example.missing is not installed');
+    });
+  });
+
+  describe('video recording', () => {
+    it('should stop the recordings of terminated sessions and on dispose', async () => {
+      const recorder = new StubVideoRecorder();
+      manager = new IDBManager(new FakeProcessRunner(), recorder);
+      manager['sessions'].set('session-1', 'UDID-1');
+
+      await manager.terminateSimulatorSession('session-1');
+      await manager.dispose();
+
+      expect(recorder.stopped).toEqual(['session-1', 'all']);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { ProcessRunner } from '../ProcessRunner.js';
+
+const node = process.execPath;
+
+describe('ProcessRunner', () => {
+  const runner = new ProcessRunner();
+
+  it('should capture stdout, stderr and the exit code separately', async () => {
+    const result = await runner.run(node, ['-e', 'console.log("out"); console.error("err"); process.exit(3)']);
+
+    expect(result).toEqual({ stdout: 'out\n', stderr: 'err\n', exitCode: 3 });
+  });
+
+  it('should pass arguments without shell interpretation', async () => {
+    const argument = '$(echo injected) `id` "quoted" ; | &';
+    const result = await runner.run(node, ['-e', 'process.stdout.write(process.argv[1])', argument]);
+
+    expect(result.stdout).toBe(argument);
+  });
+
+  it('should kill processes that exceed the timeout', async () => {
+    await expect(runner.run(node, ['-e', 'setTimeout(() => {}, 10000)'], { timeout: 100 }))
+      .rejects.toThrow('timed out after 100 ms');
+  });
+
+  it('should kill processes that exceed the output limit', async () => {
+    await expect(runner.run(node, ['-e', 'process.stdout.write("x".repeat(2048))'], { maxOutputSize: 1024 }))
+      .rejects.toThrow('stdout of');
+  });
+
+  it('should kill processes when the signal is aborted', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(runner.run(node, ['-e', 'setTimeout(() => {}, 10000)'], { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should reject when the executable does not exist', async () => {
+    await expect(runner.run('missing-executable-for-test', [])).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+});
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VideoRecorder } from '../VideoRecorder.js';
+
+// Recorders signal they are ready with a file and write the video when interrupted
+const RECORDER = `
+  const fs = require('fs');
+  process.on('SIGINT', () => { fs.writeFileSync(process.argv[1], 'video'); process.exit(0); });
+  fs.writeFileSync(process.argv[1] + '.ready', '');
+  setInterval(() => {}, 1000);
+`;
+const STUBBORN_RECORDER = `
+  process.on('SIGINT', () => {});
+  require('fs').writeFileSync(process.argv[1] + '.ready', '');
+  setInterval(() => {}, 1000);
+`;
+const FAILING_RECORDER = `
+  console.error('Simulator is not booted');
+  process.exit(1);
+`;
+
+const recorderCommand = (script: string) => (_udid: string, outputPath: string) => ({
+  file: process.execPath,
+  args: ['-e', script, outputPath]
+});
+
+const waitForFile = async (filePath: string) => {
+  for (let attempt = 0; attempt < 100 && !fs.existsSync(filePath); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+};
+
+describe('VideoRecorder', () => {
+  let directory: string;
+  let recorder: VideoRecorder | undefined;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'video-'));
+  });
+
+  afterEach(async () => {
+    await recorder?.stopAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const startRecording = async (sessionId: string, name: string) => {
+    const outputPath = path.join(directory, name);
+    const recordingId = await recorder!.start(sessionId, 'UDID-1', outputPath);
+    await waitForFile(`${outputPath}.ready`);
+    return { recordingId, outputPath };
+  };
+
+  it('should stop recordings with SIGINT and report the video', async () => {
+    recorder = new VideoRecorder({ command: recorderCommand(RECORDER) });
+    const { recordingId, outputPath } = await startRecording('session-1', 'video.mp4');
+
+    const result = await recorder.stop(recordingId);
+
+    expect(result).toMatchObject({ recordingId, outputPath, size: 5 });
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+    await expect(recorder.stop(recordingId)).rejects.toThrow(`Recording not found: ${recordingId}`);
+  });
+
+  it('should stop recordings at their maximum duration and keep their result', async () => {
+    recorder = new VideoRecorder({ command: recorderCommand(RECORDER), maxDuration: 300 });
+    const { recordingId, outputPath } = await startRecording('session-1', 'video.mp4');
+
+    await waitForFile(outputPath);
+
+    expect(await recorder.stop(recordingId)).toMatchObject({ outputPath, size: 5 });
+  });
+
+  it('should kill recorders that do not finish after SIGINT', async () => {
+    recorder = new VideoRecorder({ command: recorderCommand(STUBBORN_RECORDER), stopTimeout: 200 });
+    const { recordingId } = await startRecording('session-1', 'video.mp4');
+
+    await expect(recorder.stop(recordingId)).rejects.toThrow('did not finish within 200 ms and was killed');
+  });
+
+  it('should stop the recordings of a session', async () => {
+    recorder = new VideoRecorder({ command: recorderCommand(RECORDER) });
+    await startRecording('session-1', 'first.mp4');
+    const other = await startRecording('session-2', 'second.mp4');
+
+    const results = await recorder.stopSession('session-1');
+
+    expect(results.map(result => path.basename(result.outputPath))).toEqual(['first.mp4']);
+    expect(fs.existsSync(other.outputPath)).toBe(false);
+    expect((await recorder.stopAll()).map(result => path.basename(result.outputPath))).toEqual(['second.mp4']);
+  });
+
+  it('should report recorders that exit without writing a video', async () => {
+    recorder = new VideoRecorder({ command: recorderCommand(FAILING_RECORDER) });
+    const recordingId = await recorder.start('session-1', 'UDID-1', path.join(directory, 'video.mp4'));
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    await expect(recorder.stop(recordingId)).rejects.toThrow('produced no video at ' + path.join(directory, 'video.mp4') + ': Simulator is not booted');
+  });
+
+  it('should fail when the recorder cannot be started', async () => {
+    recorder = new VideoRecorder({ command: () => ({ file: 'missing-recorder-for-test', args: [] }) });
+
+    await expect(recorder.start('session-1', 'UDID-1', path.join(directory, 'video.mp4')))
+      .rejects.toMatchObject({ name: 'IDBCommandError' });
+  });
+});
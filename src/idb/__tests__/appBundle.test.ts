@@ -0,0 +1,165 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { deflateRawSync } from 'zlib';
+import { checkMinimumOS, compareVersions, readAppBundle } from '../appBundle.js';
+
+const INFO_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>CFBundleIdentifier</key>
+  <string>com.acme.notes</string>
+  <key>CFBundleName</key>
+  <string>Notes</string>
+  <key>CFBundleShortVersionString</key>
+  <string>1.0</string>
+  <key>CFBundleVersion</key>
+  <string>7</string>
+  <key>MinimumOSVersion</key>
+  <string>15.0</string>
+</dict>
+</plist>`;
+
+describe('readAppBundle', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bundle-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read the XML Info.plist of .app directories', () => {
+    const appPath = path.join(directory, 'Notes.app');
+    fs.mkdirSync(appPath);
+    fs.writeFileSync(path.join(appPath, 'Info.plist'), INFO_PLIST);
+
+    expect(readAppBundle(appPath)).toEqual({
+      bundleId: 'com.acme.notes',
+      name: 'Notes',
+      version: '1.0',
+      build: '7',
+      minimumOSVersion: '15.0',
+      deviceFamilies: undefined
+    });
+  });
+
+  it('should read the binary Info.plist of the app inside .ipa archives', () => {
+    // Zipped by Python, with the Info.plist of a framework before the one of the app
+    expect(readAppBundle(path.join(process.cwd(), 'src/idb/__tests__/fixtures/Shop.ipa'))).toEqual({
+      bundleId: 'com.acme.shop',
+      name: 'Shop',
+      version: '2.3.0',
+      build: '412',
+      minimumOSVersion: '16.0',
+      deviceFamilies: ['iphone', 'ipad']
+    });
+  });
+
+  it('should read archives too large to be loaded into memory', () => {
+    // Sparse file with the app after 2.5 GB of assets, more than readFileSync can read
+    const ipaPath = path.join(directory, 'Huge.ipa');
+    const offset = 2.5 * 1024 * 1024 * 1024;
+    const name = Buffer.from('Payload/Notes.app/Info.plist');
+    const data = Buffer.from(INFO_PLIST);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt32LE(data.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt32LE(data.length, 20);
+    centralHeader.writeUInt32LE(data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(1, 8);
+    end.writeUInt16LE(1, 10);
+    end.writeUInt32LE(centralHeader.length + name.length, 12);
+    end.writeUInt32LE(offset + localHeader.length + name.length + data.length, 16);
+
+    const fd = fs.openSync(ipaPath, 'w');
+    try {
+      fs.writeSync(fd, Buffer.concat([localHeader, name, data, centralHeader, name, end]), 0, undefined, offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    expect(readAppBundle(ipaPath).bundleId).toBe('com.acme.notes');
+  });
+
+  it('should refuse Info.plist entries larger than their declared or maximum size', () => {
+    // Zip with a single deflated entry declaring the given uncompressed size
+    const writeIpa = (ipaPath: string, content: Buffer, declaredSize: number) => {
+      const name = Buffer.from('Payload/Bomb.app/Info.plist');
+      const data = deflateRawSync(content);
+      const localHeader = Buffer.alloc(30);
+      localHeader.writeUInt32LE(0x04034b50, 0);
+      localHeader.writeUInt16LE(8, 8);
+      localHeader.writeUInt32LE(data.length, 18);
+      localHeader.writeUInt32LE(declaredSize, 22);
+      localHeader.writeUInt16LE(name.length, 26);
+      const centralHeader = Buffer.alloc(46);
+      centralHeader.writeUInt32LE(0x02014b50, 0);
+      centralHeader.writeUInt16LE(8, 10);
+      centralHeader.writeUInt32LE(data.length, 20);
+      centralHeader.writeUInt32LE(declaredSize, 24);
+      centralHeader.writeUInt16LE(name.length, 28);
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(1, 8);
+      end.writeUInt16LE(1, 10);
+      end.writeUInt32LE(centralHeader.length + name.length, 12);
+      end.writeUInt32LE(localHeader.length + name.length + data.length, 16);
+      fs.writeFileSync(ipaPath, Buffer.concat([localHeader, name, data, centralHeader, name, end]));
+    };
+
+    const validPath = path.join(directory, 'Notes.ipa');
+    writeIpa(validPath, Buffer.from(INFO_PLIST), INFO_PLIST.length);
+    expect(readAppBundle(validPath).bundleId).toBe('com.acme.notes');
+
+    // 64 MB of zeros deflate to a few KB
+    const bomb = Buffer.alloc(64 * 1024 * 1024);
+    const lyingPath = path.join(directory, 'Lying.ipa');
+    writeIpa(lyingPath, bomb, 1024);
+    expect(() => readAppBundle(lyingPath)).toThrow('inflates to more than its declared size of 1024 bytes');
+
+    const hugePath = path.join(directory, 'Huge.ipa');
+    writeIpa(hugePath, bomb, bomb.length);
+    expect(() => readAppBundle(hugePath)).toThrow(`Payload/Bomb.app/Info.plist is larger than ${4 * 1024 * 1024} bytes`);
+  });
+
+  it('should fail on bundles without a bundle ID or Info.plist', () => {
+    const appPath = path.join(directory, 'Broken.app');
+    fs.mkdirSync(appPath);
+    expect(() => readAppBundle(appPath)).toThrow(`Could not read the Info.plist of ${appPath}: the app has no Info.plist`);
+
+    fs.writeFileSync(path.join(appPath, 'Info.plist'), '<plist><dict></dict></plist>');
+    expect(() => readAppBundle(appPath)).toThrow('has no CFBundleIdentifier');
+
+    const ipaPath = path.join(directory, 'Broken.ipa');
+    fs.writeFileSync(ipaPath, 'not a zip');
+    expect(() => readAppBundle(ipaPath)).toThrow('not a zip archive');
+  });
+});
+
+describe('minimum OS', () => {
+  it('should compare dotted versions', () => {
+    expect(compareVersions('17.0', '16.4.1')).toBeGreaterThan(0);
+    expect(compareVersions('16.4', '16.4.0')).toBe(0);
+    expect(compareVersions('9.3', '10')).toBeLessThan(0);
+  });
+
+  it('should refuse apps requiring a newer runtime', () => {
+    const app = { bundleId: 'com.acme.shop', name: 'Shop', minimumOSVersion: '17.2' };
+
+    expect(() => checkMinimumOS(app, 'iOS-17-5')).not.toThrow();
+    expect(() => checkMinimumOS(app, 'iOS 17.0'))
+      .toThrow('Shop (com.acme.shop) requires iOS 17.2 or later, but the simulator runs iOS 17.0');
+  });
+});
@@ -0,0 +1,58 @@
+import { AccessibilityInfo } from '../interfaces/IIDBManager.js';
+import { elementCenter, findElements, resolveElement } from '../elements.js';
+
+const frame = (x: number, y: number) => ({ x, y, width: 100, height: 40 });
+
+const screen: AccessibilityInfo[] = [
+  {
+    label: 'Sign in',
+    type: 'Application',
+    frame: { x: 0, y: 0, width: 390, height: 844 },
+    children: [
+      { label: 'Email', identifier: 'email-field', type: 'TextField', frame: frame(20, 100) },
+      { label: 'Contraseña', identifier: 'password-field', type: 'SecureTextField', frame: frame(20, 160) },
+      { label: 'Sign in', type: 'Button', frame: frame(20, 220) },
+      { label: 'Sign in with Apple', type: 'Button', frame: frame(20, 280) },
+      { label: 'Remember me', type: 'Switch', value: '1', frame: frame(20, 340) }
+    ]
+  }
+];
+
+describe('elements', () => {
+  it('should match labels, identifiers and values ignoring case and accents', () => {
+    expect(findElements(screen, { element: 'EMAIL' }).map(element => element.identifier)).toEqual(['email-field']);
+    expect(findElements(screen, { element: 'password-field' })[0].label).toBe('Contraseña');
+    expect(findElements(screen, { element: 'contrasena' })[0].label).toBe('Contraseña');
+  });
+
+  it('should prefer exact matches over partial ones', () => {
+    expect(findElements(screen, { element: 'Sign in' })).toHaveLength(2);
+    expect(findElements(screen, { element: 'apple' })).toHaveLength(1);
+  });
+
+  it('should filter by element kind or accessibility type', () => {
+    expect(resolveElement(screen, { element: 'Sign in', elementType: 'button' }).type).toBe('Button');
+    expect(resolveElement(screen, { element: 'remember', elementType: 'Switch' }).value).toBe('1');
+    expect(findElements(screen, { element: 'password', elementType: 'field' })).toHaveLength(1);
+  });
+
+  it('should compute the centre of the element frame', () => {
+    expect(elementCenter({ frame: { x: 20, y: 220, width: 101, height: 40 } })).toEqual({ x: 71, y: 240 });
+  });
+
+  it('should list the candidates when several elements match', () => {
+    expect(() => resolveElement(screen, { element: 'Sign in' })).toThrow(
+      '2 elements match "Sign in": "Sign in" (Application) at 195, 422; "Sign in" (Button) at 70, 240. ' +
+      'Give the element type or a more specific label'
+    );
+  });
+
+  it('should list the elements of the requested kind when none matches', () => {
+    expect(() => resolveElement(screen, { element: 'Register', elementType: 'button' })).toThrow(
+      'No element matches "Register" button. Elements on screen: "Sign in" (Button) at 70, 240; ' +
+      '"Sign in with Apple" (Button) at 70, 300'
+    );
+    expect(() => resolveElement([], { element: 'Register' }))
+      .toThrow('No element matches "Register". The screen has no labeled elements');
+  });
+});
@@ -0,0 +1,24 @@
+import { scrollPath, screenCenter, swipePath } from '../gestures.js';
+
+const screen = { width: 400, height: 800 };
+
+describe('gestures', () => {
+  it('should centre swipes on the screen', () => {
+    expect(swipePath(screen, 'left')).toEqual({ startX: 300, startY: 400, endX: 100, endY: 400 });
+    expect(swipePath(screen, 'down', { distance: 0.25 })).toEqual({ startX: 200, startY: 300, endX: 200, endY: 500 });
+  });
+
+  it('should start edge swipes at the edge they move away from', () => {
+    expect(swipePath(screen, 'left', { fromEdge: true })).toEqual({ startX: 398, startY: 400, endX: 198, endY: 400 });
+    expect(swipePath(screen, 'up', { fromEdge: true, distance: 1 })).toEqual({ startX: 200, startY: 798, endX: 200, endY: 0 });
+  });
+
+  it('should move the finger against the scroll direction', () => {
+    expect(scrollPath(screen, 'down')).toEqual({ startX: 200, startY: 600, endX: 200, endY: 200 });
+    expect(scrollPath(screen, 'right')).toEqual(swipePath(screen, 'left'));
+  });
+
+  it('should compute the centre of the screen', () => {
+    expect(screenCenter({ width: 393, height: 852 })).toEqual({ x: 197, y: 426 });
+  });
+});
@@ -0,0 +1,67 @@
+import { parsePlist } from '../plist.js';
+
+// Written by Python's plistlib in binary format
+const BINARY_PLIST = 'YnBsaXN0MDDcAQIDBAUGBwgJCgsMDQ4PEBESExYpKisuU2JpZ1RibG9iVWNvdW50V2NyZWF0ZWRYZGlzYWJsZWRXZW5hYmxlZFhmYW1pbGllc1VpdGVtc1RuYW1lWG5lZ2F0aXZlVm5lc3RlZFVyYXRpbxMAAAEAAAAAAEMAAQIQKjNBxrmJEAAAAAgJohQVEAEQAq8QFBcUFRgZGhscHR4fICEiIyQlJicoEAAQAxAEEAUQBhAHEAgQCRAKEAsQDBANEA4QDxAQEBEQEhATZgBDAGEAZgDpACAmFRP/////////+dEsLVNrZXlVdmFsdWUjP+AAAAAAAAAIISUqMDhBSVJYXWZtc3yAgouMjZCSlKutr7Gztbe5u72/wcPFx8nLzc/c5ejs8gAAAAAAAAEBAAAAAAAAAC8AAAAAAAAAAAAAAAAAAAD7';
+
+describe('parsePlist', () => {
+  it('should parse binary plists', () => {
+    expect(parsePlist(Buffer.from(BINARY_PLIST, 'base64'))).toEqual({
+      name: 'Café ☕',
+      count: 42,
+      big: 2 ** 40,
+      negative: -7,
+      ratio: 0.5,
+      enabled: true,
+      disabled: false,
+      created: new Date('2025-03-01T10:00:00Z'),
+      blob: Buffer.from([0, 1, 2]),
+      families: [1, 2],
+      nested: { key: 'value' },
+      items: Array.from({ length: 20 }, (_, i) => i)
+    });
+  });
+
+  it('should parse XML plists', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <!-- Identity -->
+  <key>CFBundleIdentifier</key>
+  <string>com.acme.shop</string>
+  <key>CFBundleDisplayName</key>
+  <string>Shop &amp; Go</string>
+  <key>UIDeviceFamily</key>
+  <array>
+    <integer>1</integer>
+    <integer>2</integer>
+  </array>
+  <key>UIRequiresFullScreen</key>
+  <true/>
+  <key>Empty</key>
+  <string></string>
+  <key>Data</key>
+  <data>
+  AAEC
+  </data>
+  <key>Nested</key>
+  <dict/>
+</dict>
+</plist>`;
+
+    expect(parsePlist(Buffer.from(xml))).toEqual({
+      CFBundleIdentifier: 'com.acme.shop',
+      CFBundleDisplayName: 'Shop & Go',
+      UIDeviceFamily: [1, 2],
+      UIRequiresFullScreen: true,
+      Empty: '',
+      Data: Buffer.from([0, 1, 2]),
+      Nested: {}
+    });
+  });
+
+  it('should reject malformed plists', () => {
+    expect(() => parsePlist(Buffer.from('<plist><dict><key>a</key>'))).toThrow('Invalid plist');
+    expect(() => parsePlist(Buffer.from('<plist><color>red</color></plist>'))).toThrow('unknown element <color>');
+  });
+});
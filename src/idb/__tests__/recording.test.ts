@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IProcessRunner, ProcessResult } from '../interfaces/IProcessRunner.js';
+import { loadCommandRecording, RecordingProcessRunner, ReplayProcessRunner } from '../recording.js';
+
+class EchoRunner implements IProcessRunner {
+  async run(file: string, args: string[]): Promise<ProcessResult> {
+    return { stdout: args.join(' '), stderr: file === 'fail' ? 'failed' : '', exitCode: file === 'fail' ? 2 : 0 };
+  }
+}
+
+describe('command recordings', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'recording-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should record every command with its output and exit code to a file', async () => {
+    const filePath = path.join(directory, 'recording.json');
+    const runner = new RecordingProcessRunner(new EchoRunner(), filePath);
+
+    await runner.run('idb', ['list-apps', '--json']);
+    await runner.run('fail', ['now']);
+
+    expect(loadCommandRecording(filePath)).toEqual({
+      version: 1,
+      commands: [
+        { file: 'idb', args: ['list-apps', '--json'], stdout: 'list-apps --json', stderr: '', exitCode: 0 },
+        { file: 'fail', args: ['now'], stdout: 'now', stderr: 'failed', exitCode: 2 }
+      ]
+    });
+  });
+
+  it('should replay repeated commands in order and then repeat the last one', async () => {
+    const runner = new ReplayProcessRunner({
+      version: 1,
+      commands: [
+        { file: 'idb', args: ['status'], stdout: 'first', stderr: '', exitCode: 0 },
+        { file: 'idb', args: ['status'], stdout: 'second', stderr: '', exitCode: 0 }
+      ]
+    });
+
+    const outputs: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      outputs.push((await runner.run('idb', ['status'])).stdout);
+    }
+    expect(outputs).toEqual(['first', 'second', 'second']);
+    await expect(runner.run('idb', ['status', 'with space'])).rejects.toThrow('No recording for command: idb status "with space"');
+  });
+
+  it('should reject invalid recordings', () => {
+    const filePath = path.join(directory, 'invalid.json');
+    fs.writeFileSync(filePath, JSON.stringify({ version: 1, commands: [{ file: 'idb', args: [], stdout: '' }] }));
+
+    expect(() => loadCommandRecording(filePath)).toThrow(`Invalid command recording ${filePath}: commands[0].stderr Required`);
+  });
+});
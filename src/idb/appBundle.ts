@@ -0,0 +1,232 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { inflateRawSync } from 'zlib';
+import { AppInfo } from './interfaces/IIDBManager.js';
+import { parsePlist, PlistValue } from './plist.js';
+
+/**
+ * Device families of the UIDeviceFamily key
+ */
+const DEVICE_FAMILIES: Record<number, string> = {
+  1: 'iphone',
+  2: 'ipad',
+  3: 'tv',
+  4: 'watch',
+  6: 'mac',
+  7: 'vision'
+};
+
+/**
+ * Path of the Info.plist of the app inside an .ipa archive, e.g. Payload/Shop.app/Info.plist
+ */
+const IPA_INFO_PLIST = /^Payload\/[^/]+\.app\/Info\.plist$/;
+
+/**
+ * Maximum size of the Info.plist read from an .ipa archive, so that a malformed or
+ * malicious archive cannot make the server allocate or inflate gigabytes
+ */
+const MAX_INFO_PLIST_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Reads bytes at a position of a file
+ * @param fd File descriptor
+ * @param position Offset of the first byte
+ * @param length Number of bytes
+ * @returns Bytes read
+ * @throws Error if the file ends before
+ */
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  if (fs.readSync(fd, buffer, 0, length, position) < length) {
+    throw new Error('unexpected end of zip archive');
+  }
+  return buffer;
+}
+
+/**
+ * Reads the entry of a zip archive whose name matches a pattern. Only the end of
+ * central directory record, the central directory and the entry are read, so large
+ * archives are not loaded into memory
+ * @param archivePath Path of the archive
+ * @param pattern Pattern of the entry name
+ * @param maxSize Maximum size of the entry, compressed and uncompressed, in bytes
+ * @returns Uncompressed content, or null if no entry matches
+ * @throws Error if the archive is invalid or the entry is larger than the maximum size
+ */
+function readZipEntry(archivePath: string, pattern: RegExp, maxSize: number): Buffer | null {
+  const fd = fs.openSync(archivePath, 'r');
+  try {
+    // The end of central directory record is at the end, followed by a comment of up to 64 KB
+    const size = fs.fstatSync(fd).size;
+    const tail = readAt(fd, Math.max(0, size - 22 - 0xffff), Math.min(size, 22 + 0xffff));
+    let end = -1;
+    for (let offset = tail.length - 22; offset >= 0; offset--) {
+      if (tail.readUInt32LE(offset) === 0x06054b50) {
+        end = offset;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new Error('not a zip archive');
+    }
+
+    const entryCount = tail.readUInt16LE(end + 10);
+    const directorySize = tail.readUInt32LE(end + 12);
+    const directoryOffset = tail.readUInt32LE(end + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('zip64 archives are not supported');
+    }
+    const directory = readAt(fd, directoryOffset, directorySize);
+
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== 0x02014b50) {
+        throw new Error('invalid zip central directory');
+      }
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const uncompressedSize = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localHeaderOffset = directory.readUInt32LE(offset + 42);
+      const name = directory.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+      if (pattern.test(name)) {
+        if (compressedSize === 0xffffffff || localHeaderOffset === 0xffffffff) {
+          throw new Error('zip64 archives are not supported');
+        }
+        if (compressedSize > maxSize || uncompressedSize > maxSize) {
+          throw new Error(`${name} is larger than ${maxSize} bytes`);
+        }
+        // The local header repeats the name and has its own extra field
+        const localHeader = readAt(fd, localHeaderOffset, 30);
+        if (localHeader.readUInt32LE(0) !== 0x04034b50) {
+          throw new Error('invalid zip local header');
+        }
+        const dataStart = localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+        const data = readAt(fd, dataStart, compressedSize);
+        if (method === 0) {
+          return data;
+        }
+        if (method === 8) {
+          // The declared size bounds the output, whatever the compressed data expands to
+          try {
+            return inflateRawSync(data, { maxOutputLength: Math.max(1, uncompressedSize) });
+          } catch (error: any) {
+            if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+              throw new Error(`${name} inflates to more than its declared size of ${uncompressedSize} bytes`);
+            }
+            throw error;
+          }
+        }
+        throw new Error(`unsupported zip compression method ${method}`);
+      }
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return null;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Reads the Info.plist of an .app directory or .ipa archive
+ */
+function readInfoPlist(appPath: string): Buffer {
+  if (fs.statSync(appPath).isDirectory()) {
+    const plistPath = path.join(appPath, 'Info.plist');
+    if (!fs.existsSync(plistPath)) {
+      throw new Error('the app has no Info.plist');
+    }
+    return fs.readFileSync(plistPath);
+  }
+
+  const plist = readZipEntry(appPath, IPA_INFO_PLIST, MAX_INFO_PLIST_SIZE);
+  if (!plist) {
+    throw new Error('the archive has no Payload/<name>.app/Info.plist');
+  }
+  return plist;
+}
+
+/**
+ * Reads the bundle ID and metadata of an app from the Info.plist of its .app
+ * directory or .ipa archive. XML and binary plists are supported
+ * @param appPath Path of the .app directory or .ipa file
+ * @returns Application information
+ * @throws Error if the Info.plist cannot be read or has no CFBundleIdentifier
+ */
+export function readAppBundle(appPath: string): AppInfo {
+  let info: PlistValue;
+  try {
+    info = parsePlist(readInfoPlist(appPath));
+  } catch (error: any) {
+    throw new Error(`Could not read the Info.plist of ${appPath}: ${error.message}`);
+  }
+  if (!info || typeof info !== 'object' || Array.isArray(info) || info instanceof Buffer || info instanceof Date) {
+    throw new Error(`The Info.plist of ${appPath} is not a dictionary`);
+  }
+  const dict = info as { [key: string]: PlistValue };
+
+  const text = (key: string) => typeof dict[key] === 'string' && dict[key] ? dict[key] as string : undefined;
+  const bundleId = text('CFBundleIdentifier');
+  if (!bundleId) {
+    throw new Error(`The Info.plist of ${appPath} has no CFBundleIdentifier`);
+  }
+
+  const families = Array.isArray(dict.UIDeviceFamily) ? dict.UIDeviceFamily : [];
+  return {
+    bundleId,
+    name: text('CFBundleDisplayName') || text('CFBundleName') || path.basename(appPath, path.extname(appPath)),
+    version: text('CFBundleShortVersionString'),
+    build: text('CFBundleVersion'),
+    minimumOSVersion: text('MinimumOSVersion'),
+    deviceFamilies: families.length > 0
+      ? families.map(family => DEVICE_FAMILIES[Number(family)] || String(family))
+      : undefined
+  };
+}
+
+/**
+ * Extracts the version number of an OS name, e.g. "17.5" from "iOS-17-5" or "iOS 17.5"
+ * @param os OS name or version
+ * @returns Version, or undefined if the name has none
+ */
+export function extractOSVersion(os: string): string | undefined {
+  return os.match(/(\d+)(?:[.-](\d+))?(?:[.-](\d+))?/)?.slice(1).filter(Boolean).join('.');
+}
+
+/**
+ * Compares two dotted version numbers, e.g. "17.0" and "16.4.1"
+ * @returns Negative if a is older than b, 0 if equal, positive if newer
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Checks that an app can run on a simulator runtime
+ * @param app Application information
+ * @param os OS of the simulator, e.g. "iOS-17-5"
+ * @throws Error if the app requires a newer OS
+ */
+export function checkMinimumOS(app: AppInfo, os: string): void {
+  const runtime = extractOSVersion(os);
+  if (app.minimumOSVersion && runtime && compareVersions(app.minimumOSVersion, runtime) > 0) {
+    throw new Error(
+      `${app.name} (${app.bundleId}) requires iOS ${app.minimumOSVersion} or later, ` +
+      `but the simulator runs ${os}`
+    );
+  }
+}
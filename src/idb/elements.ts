@@ -0,0 +1,144 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccessibilityInfo } from './interfaces/IIDBManager.js';
+
+/**
+ * Accessibility types of each kind of element that instructions can name
+ */
+export const ELEMENT_TYPES: Record<string, string[]> = {
+  button: ['Button'],
+  field: ['TextField', 'SecureTextField', 'SearchField', 'TextView'],
+  switch: ['Switch', 'Toggle'],
+  link: ['Link'],
+  cell: ['Cell'],
+  tab: ['Tab'],
+  image: ['Image'],
+  icon: ['Icon'],
+  text: ['StaticText'],
+  slider: ['Slider']
+};
+
+/**
+ * Maximum number of candidates listed in resolution errors
+ */
+const MAX_LISTED_ELEMENTS = 20;
+
+/**
+ * Element named by an instruction, e.g. the "Login" button
+ */
+export interface ElementTarget {
+  /**
+   * Label, identifier or value of the element
+   */
+  element: string;
+  /**
+   * Kind of element (a key of ELEMENT_TYPES) or accessibility type, e.g. "SecureTextField"
+   */
+  elementType?: string;
+}
+
+/**
+ * Lowercases a text and removes its accents and repeated whitespace
+ */
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Lists the elements of an accessibility tree, parents before their children
+ * @param elements Accessibility elements
+ * @returns Every element of the tree
+ */
+export function flattenElements(elements: AccessibilityInfo[]): AccessibilityInfo[] {
+  return elements.flatMap(element => [element, ...flattenElements(element.children || [])]);
+}
+
+/**
+ * Checks whether an element is of the given kind or accessibility type
+ */
+function hasType(element: AccessibilityInfo, elementType?: string): boolean {
+  if (!elementType) {
+    return true;
+  }
+  const types = ELEMENT_TYPES[elementType.toLowerCase()] || [elementType];
+  return types.some(type => type.toLowerCase() === element.type?.toLowerCase());
+}
+
+/**
+ * Searches an accessibility tree for the elements an instruction names. Elements whose
+ * label, identifier or value equals the name win over those that only contain it
+ * @param elements Accessibility elements
+ * @param target Element to find
+ * @returns Matching elements
+ */
+export function findElements(elements: AccessibilityInfo[], target: ElementTarget): AccessibilityInfo[] {
+  const name = normalize(target.element);
+  const candidates = flattenElements(elements).filter(element => hasType(element, target.elementType));
+  const texts = (element: AccessibilityInfo) => [element.label, element.identifier, element.value]
+    .filter((text): text is string => Boolean(text))
+    .map(normalize);
+
+  const exact = candidates.filter(element => texts(element).includes(name));
+  return exact.length > 0 ? exact : candidates.filter(element => texts(element).some(text => text.includes(name)));
+}
+
+/**
+ * Gets the point at the centre of an element
+ * @param element Accessibility element
+ * @returns Coordinates in points
+ */
+export function elementCenter(element: AccessibilityInfo): { x: number; y: number } {
+  return {
+    x: Math.round(element.frame.x + element.frame.width / 2),
+    y: Math.round(element.frame.y + element.frame.height / 2)
+  };
+}
+
+/**
+ * Describes an element for error messages, e.g. `"Login" (Button) at 187, 420`
+ */
+function describeElement(element: AccessibilityInfo): string {
+  const name = element.label || element.identifier || element.value || 'unlabeled';
+  const { x, y } = elementCenter(element);
+  return `"${name}"${element.type ? ` (${element.type})` : ''} at ${x}, ${y}`;
+}
+
+/**
+ * Lists elements for error messages, up to MAX_LISTED_ELEMENTS
+ */
+function listElements(elements: AccessibilityInfo[]): string {
+  const listed = elements.slice(0, MAX_LISTED_ELEMENTS).map(describeElement).join('; ');
+  const remaining = elements.length - MAX_LISTED_ELEMENTS;
+  return remaining > 0 ? `${listed} and ${remaining} more` : listed;
+}
+
+/**
+ * Finds the only element an instruction names
+ * @param elements Accessibility elements
+ * @param target Element to find
+ * @returns Matching element
+ * @throws Error listing the candidates if no element or several elements match
+ */
+export function resolveElement(elements: AccessibilityInfo[], target: ElementTarget): AccessibilityInfo {
+  const matches = findElements(elements, target);
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  const description = `"${target.element}"${target.elementType ? ` ${target.elementType}` : ''}`;
+  if (matches.length > 1) {
+    throw new Error(
+      `${matches.length} elements match ${description}: ${listElements(matches)}. ` +
+      'Give the element type or a more specific label'
+    );
+  }
+
+  // List the elements of the requested type, or every named element if there are none
+  const named = flattenElements(elements).filter(element => element.label || element.identifier || element.value);
+  const sameType = named.filter(element => hasType(element, target.elementType));
+  const candidates = sameType.length > 0 ? sameType : named;
+  throw new Error(candidates.length > 0
+    ? `No element matches ${description}. Elements on screen: ${listElements(candidates)}`
+    : `No element matches ${description}. The screen has no labeled elements`);
+}
@@ -0,0 +1,64 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Output patterns of idb/simctl failures that usually go away when retried
+ */
+const TRANSIENT_ERROR_PATTERNS: RegExp[] = [
+  /companion.*not\s+connected/i,
+  /not\s+connected\s+to\s+(the\s+)?companion/i,
+  /failed\s+to\s+connect\s+to\s+companion/i,
+  /device\s+(is\s+)?busy/i,
+  /resource\s+busy/i,
+  /connection\s+(refused|reset)/i,
+  /ECONNREFUSED|ECONNRESET|EPIPE/,
+  /in\s+current\s+state:\s+Booting/i
+];
+
+/**
+ * Error raised when an idb or simctl command fails
+ */
+export class IDBCommandError extends Error {
+  /**
+   * Command line that failed
+   */
+  public readonly command: string;
+
+  /**
+   * Whether the failure is temporary and the command may succeed if retried
+   */
+  public readonly transient: boolean;
+
+  /**
+   * Constructor
+   * @param command Command line that failed
+   * @param output Error output of the command
+   */
+  constructor(command: string, output: string) {
+    super(`Error executing idb command: ${output}`);
+    this.name = 'IDBCommandError';
+    this.command = command;
+    this.transient = TRANSIENT_ERROR_PATTERNS.some(pattern => pattern.test(output));
+  }
+}
+
+/**
+ * Checks whether an error is an idb/simctl failure whose output matches a transient
+ * pattern. Timeouts and other errors are not transient, since the command may have
+ * had its effect (typed text, installed app) before failing
+ * @param error Error to check
+ * @returns true if retrying the operation may succeed
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof IDBCommandError && error.transient;
+}
+
+/**
+ * Creates the error thrown when an operation is aborted through its signal
+ * @returns Error named AbortError
+ */
+export function createAbortError(): Error {
+  const error = new Error('Operation cancelled');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,159 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import fs from 'fs';
+import { z } from 'zod';
+import { AccessibilityInfo } from './interfaces/IIDBManager.js';
+
+const dateSchema = z.string().refine(value => !isNaN(Date.parse(value)), 'must be an ISO date');
+
+const elementSchema: z.ZodType<AccessibilityInfo> = z.lazy(() => z.object({
+  identifier: z.string().optional(),
+  label: z.string().optional(),
+  frame: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number().nonnegative(),
+    height: z.number().nonnegative()
+  }).strict(),
+  type: z.string().optional(),
+  value: z.string().optional(),
+  children: z.array(elementSchema).optional()
+}).strict());
+
+const appSchema = z.object({
+  bundleId: z.string().min(1),
+  name: z.string().min(1),
+  installedPath: z.string().optional()
+}).strict();
+
+const logSchema = z.object({
+  message: z.string(),
+  bundleId: z.string().optional(),
+  date: dateSchema.optional()
+}).strict();
+
+const crashLogSchema = z.object({
+  name: z.string().min(1),
+  bundleId: z.string().optional(),
+  date: dateSchema,
+  content: z.string().default('')
+}).strict();
+
+const simulatorSchema = z.object({
+  udid: z.string().min(1),
+  name: z.string().min(1),
+  state: z.enum(['Booted', 'Shutdown']).default('Shutdown'),
+  os: z.string().default('iOS 17.0'),
+  deviceType: z.string().default('iPhone'),
+  screen: z.object({
+    width: z.number().positive(),
+    height: z.number().positive()
+  }).strict().default({ width: 393, height: 852 }),
+  apps: z.array(appSchema).default([]),
+  foregroundApp: z.string().optional(),
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180)
+  }).strict().optional(),
+  logs: z.array(logSchema).default([]),
+  crashLogs: z.array(crashLogSchema).default([])
+}).strict();
+
+const fakeFixtureSchema = z.object({
+  startTime: dateSchema.default('2025-01-01T00:00:00.000Z'),
+  simulators: z.array(simulatorSchema).min(1),
+  screens: z.record(z.array(elementSchema)).default({})
+}).strict();
+
+/**
+ * Simulator of a fake backend: its device, state, installed apps, logs and crash logs
+ */
+export type FakeSimulatorFixture = z.infer<typeof simulatorSchema>;
+
+/**
+ * Initial state of a fake backend. `screens` holds the accessibility tree shown while
+ * each app is in the foreground, by bundle ID, and under `home` when none is.
+ * `startTime` is the time of the clock of the backend, which advances one second
+ * per operation
+ */
+export type FakeFixture = z.infer<typeof fakeFixtureSchema>;
+
+/**
+ * Key of `FakeFixture.screens` holding the home screen
+ */
+export const HOME_SCREEN = 'home';
+
+/**
+ * Fixture used when none is given: an iPhone with a sample app and a login screen
+ */
+export const DEFAULT_FAKE_FIXTURE: FakeFixture = parseFakeFixture({
+  simulators: [
+    {
+      udid: '00000000-0000-0000-0000-000000000001',
+      name: 'iPhone 15',
+      os: 'iOS 17.5',
+      deviceType: 'com.apple.CoreSimulator.SimDeviceType.iPhone-15',
+      apps: [{ bundleId: 'com.example.app', name: 'Example' }]
+    },
+    {
+      udid: '00000000-0000-0000-0000-000000000002',
+      name: 'iPad Air',
+      os: 'iOS 17.5',
+      deviceType: 'com.apple.CoreSimulator.SimDeviceType.iPad-Air-5th-generation',
+      screen: { width: 820, height: 1180 }
+    }
+  ],
+  screens: {
+    home: [
+      { label: 'Example', type: 'Icon', frame: { x: 24, y: 80, width: 64, height: 64 } }
+    ],
+    'com.example.app': [
+      { label: 'Email', identifier: 'email', type: 'TextField', frame: { x: 24, y: 200, width: 345, height: 44 } },
+      { label: 'Password', identifier: 'password', type: 'SecureTextField', frame: { x: 24, y: 260, width: 345, height: 44 } },
+      { label: 'Login', identifier: 'login', type: 'Button', frame: { x: 24, y: 330, width: 345, height: 50 } }
+    ]
+  }
+});
+
+/**
+ * Validates a fake backend fixture
+ * @param input Parsed JSON fixture
+ * @param source Name of the fixture in error messages, e.g. its file path
+ * @returns Fixture with defaults applied
+ * @throws Error describing the first invalid entry
+ */
+export function parseFakeFixture(input: unknown, source: string = 'fake fixture'): FakeFixture {
+  const result = fakeFixtureSchema.safeParse(input);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const location = issue.path.reduce<string>((result, segment) =>
+      typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment, '');
+    throw new Error(`Invalid ${source}: ${location ? `${location} ` : ''}${issue.message}`);
+  }
+
+  const udids = new Set<string>();
+  for (const simulator of result.data.simulators) {
+    if (udids.has(simulator.udid)) {
+      throw new Error(`Invalid ${source}: duplicate simulator ${simulator.udid}`);
+    }
+    udids.add(simulator.udid);
+  }
+  return result.data;
+}
+
+/**
+ * Reads a fake backend fixture from a JSON file
+ * @param filePath Path of the file
+ * @returns Fixture
+ * @throws Error if the file cannot be read or is invalid
+ */
+export function loadFakeFixture(filePath: string): FakeFixture {
+  let input: unknown;
+  try {
+    input = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read fake fixture ${filePath}: ${error.message}`);
+  }
+  return parseFakeFixture(input, `fake fixture ${filePath}`);
+}
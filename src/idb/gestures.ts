@@ -0,0 +1,104 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { Direction, ScreenSize } from './interfaces/IIDBManager.js';
+
+/**
+ * Fraction of the screen covered by scrolls and swipes unless another is given
+ */
+export const DEFAULT_GESTURE_DISTANCE = 0.5;
+
+/**
+ * Default durations of the gestures, in milliseconds
+ */
+export const LONG_PRESS_DURATION = 1000;
+export const DRAG_DURATION = 1000;
+export const PULL_TO_REFRESH_DURATION = 1000;
+
+/**
+ * Distance in points from the border of the screen where edge swipes start
+ */
+const EDGE_INSET = 2;
+
+const VECTORS: Record<Direction, { x: number; y: number }> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 }
+};
+
+const OPPOSITE: Record<Direction, Direction> = {
+  up: 'down',
+  down: 'up',
+  left: 'right',
+  right: 'left'
+};
+
+/**
+ * Start and end points of a swipe
+ */
+export interface SwipePath {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+/**
+ * Gets the point at the centre of the screen
+ * @param screen Screen size
+ * @returns Coordinates in points
+ */
+export function screenCenter(screen: ScreenSize): { x: number; y: number } {
+  return { x: Math.round(screen.width / 2), y: Math.round(screen.height / 2) };
+}
+
+/**
+ * Computes a swipe moving the finger in a direction. The swipe is centred on the
+ * screen, or starts at the edge it moves away from ("swipe left from the right edge")
+ * @param screen Screen size
+ * @param direction Direction the finger moves in
+ * @param options Fraction of the screen to cover and whether to start at the edge
+ * @returns Swipe path
+ */
+export function swipePath(
+  screen: ScreenSize,
+  direction: Direction,
+  options: { distance?: number; fromEdge?: boolean } = {}
+): SwipePath {
+  const vector = VECTORS[direction];
+  const distance = options.distance ?? DEFAULT_GESTURE_DISTANCE;
+  const center = { x: screen.width / 2, y: screen.height / 2 };
+
+  const axis = (size: number, middle: number, step: number): [number, number] => {
+    if (step === 0) {
+      return [middle, middle];
+    }
+    const travel = size * distance;
+    const start = options.fromEdge
+      ? (step > 0 ? EDGE_INSET : size - EDGE_INSET)
+      : middle - step * travel / 2;
+    return [start, Math.min(Math.max(start + step * travel, 0), size)];
+  };
+
+  const [startX, endX] = axis(screen.width, center.x, vector.x);
+  const [startY, endY] = axis(screen.height, center.y, vector.y);
+  return {
+    startX: Math.round(startX),
+    startY: Math.round(startY),
+    endX: Math.round(endX),
+    endY: Math.round(endY)
+  };
+}
+
+/**
+ * Computes the swipe that scrolls the content in a direction: scrolling down
+ * moves the finger up
+ * @param screen Screen size
+ * @param direction Direction to scroll the content in
+ * @param distance Fraction of the screen to cover (optional)
+ * @returns Swipe path
+ */
+export function scrollPath(screen: ScreenSize, direction: Direction, distance?: number): SwipePath {
+  return swipePath(screen, OPPOSITE[direction], { distance });
+}
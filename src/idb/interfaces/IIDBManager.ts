@@ -20,6 +20,22 @@ export interface AppInfo {
   bundleId: string;
   name: string;
   installedPath?: string;
+  /**
+   * Marketing version (CFBundleShortVersionString)
+   */
+  version?: string;
+  /**
+   * Build number (CFBundleVersion)
+   */
+  build?: string;
+  /**
+   * Minimum OS version the app runs on (MinimumOSVersion)
+   */
+  minimumOSVersion?: string;
+  /**
+   * Supported device families, e.g. "iphone" and "ipad" (UIDeviceFamily)
+   */
+  deviceFamilies?: string[];
 }
 
 export interface SessionConfig {
@@ -29,8 +45,57 @@ export interface SessionConfig {
   autoboot?: boolean;
 }
 
+/**
+ * Progress of a long-running operation
+ */
+export interface ProgressUpdate {
+  /**
+   * Progress so far; increases with every update
+   */
+  progress: number;
+  /**
+   * Total progress to reach, if known
+   */
+  total?: number;
+  /**
+   * Human-readable description of the current step
+   */
+  message?: string;
+}
+
+/**
+ * Callback receiving progress updates of a long-running operation
+ */
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
 export type ButtonType = 'APPLE_PAY' | 'HOME' | 'LOCK' | 'SIDE_BUTTON' | 'SIRI';
 
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Size of the simulator screen in points, the unit of gesture coordinates
+ */
+export interface ScreenSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Video written by a recording
+ */
+export interface VideoRecordingResult {
+  recordingId: string;
+  outputPath: string;
+  /**
+   * Recording time in milliseconds
+   */
+  duration: number;
+  /**
+   * File size in bytes
+   */
+  size: number;
+}
+
 export interface CrashLogInfo {
   name: string;
   bundleId?: string;
@@ -53,14 +118,30 @@ export interface AccessibilityInfo {
 }
 
 export interface IIDBManager {
+  /**
+   * Runs an operation so that every process it spawns is killed, and every
+   * wait it performs is interrupted, when the signal is aborted
+   * @param signal Abort signal
+   * @param operation Operation calling methods of this manager
+   * @returns Result of the operation
+   */
+  runWithSignal?<T>(signal: AbortSignal, operation: () => Promise<T>): Promise<T>;
+
+  /**
+   * Releases the resources of the manager, such as running video recordings,
+   * when the server shuts down
+   */
+  dispose?(): Promise<void>;
+
   // === Simulator Management ===
   
   /**
    * Initializes a new simulator session
    * @param config Optional configuration for the session
+   * @param onProgress Progress callback (optional)
    * @returns Created session ID
    */
-  createSimulatorSession(config?: SessionConfig): Promise<string>;
+  createSimulatorSession(config?: SessionConfig, onProgress?: ProgressCallback): Promise<string>;
 
   /**
    * Terminates an existing simulator session
@@ -83,8 +164,9 @@ export interface IIDBManager {
   /**
    * Boots a simulator by its UDID
    * @param udid UDID of the simulator to boot
+   * @param onProgress Progress callback (optional)
    */
-  bootSimulatorByUDID(udid: string): Promise<void>;
+  bootSimulatorByUDID(udid: string, onProgress?: ProgressCallback): Promise<void>;
 
   /**
    * Shuts down a simulator by its UDID
@@ -104,6 +186,20 @@ export interface IIDBManager {
    */
   listSimulatorSessions(): Promise<string[]>;
 
+  /**
+   * Gets the simulator bound to a session
+   * @param sessionId Session ID
+   * @returns Simulator information or null if not found
+   */
+  getSessionSimulator?(sessionId: string): Promise<SimulatorInfo | null>;
+
+  /**
+   * Gets the screen size of the simulator of a session
+   * @param sessionId Session ID of the simulator
+   * @returns Screen size in points
+   */
+  getScreenSize?(sessionId: string): Promise<ScreenSize>;
+
   /**
    * Verifies if a simulator is booted
    * @param sessionId Session ID of the simulator
@@ -123,9 +219,11 @@ export interface IIDBManager {
    * Installs an application on the simulator
    * @param sessionId Session ID of the simulator
    * @param appPath Path to the .app or .ipa file to install
-   * @returns Information about the installed application
+   * @param onProgress Progress callback (optional)
+   * @returns Information about the installed application, read from its Info.plist
+   * @throws Error if the app requires a newer OS than the simulator runs
    */
-  installApp(sessionId: string, appPath: string): Promise<AppInfo>;
+  installApp(sessionId: string, appPath: string, onProgress?: ProgressCallback): Promise<AppInfo>;
 
   /**
    * Launches an application on the simulator
@@ -201,6 +299,25 @@ export interface IIDBManager {
     delta?: number
   ): Promise<void>;
 
+  /**
+   * Taps a point twice in quick succession, as a single double-tap gesture. Without it,
+   * double taps are run as two taps
+   * @param sessionId Session ID of the simulator
+   * @param x X coordinate
+   * @param y Y coordinate
+   */
+  doubleTap?(sessionId: string, x: number, y: number): Promise<void>;
+
+  /**
+   * Pinches two fingers together or spreads them apart around a point
+   * @param sessionId Session ID of the simulator
+   * @param x X coordinate of the centre of the gesture
+   * @param y Y coordinate of the centre of the gesture
+   * @param scale Zoom factor: below 1 pinches in, above 1 spreads out
+   * @param duration Gesture duration in milliseconds (optional)
+   */
+  pinch?(sessionId: string, x: number, y: number, scale: number, duration?: number): Promise<void>;
+
   /**
    * Presses a device button
    * @param sessionId Session ID of the simulator
@@ -283,11 +400,14 @@ export interface IIDBManager {
   startVideoRecording?(sessionId: string, outputPath: string): Promise<string>;
 
   /**
-   * Stops video recording of the simulator
+   * Stops video recording of the simulator and waits for the video to be written.
+   * Recordings reaching their maximum duration stop on their own, and stopping them
+   * afterwards returns their result
    * @param sessionId Session ID of the simulator
    * @param recordingId Recording ID to stop
+   * @returns Path, duration and size of the video
    */
-  stopVideoRecording?(sessionId: string, recordingId: string): Promise<void>;
+  stopVideoRecording?(sessionId: string, recordingId: string): Promise<VideoRecordingResult>;
 
   /**
    * Gets simulator system logs
@@ -0,0 +1,46 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * IProcessRunner - Interface for running external commands
+ *
+ * Commands are given as an executable and an argument list and run without a
+ * shell, so arguments built from user input are never interpreted.
+ */
+
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  /**
+   * Exit code, or null if the process was ended by a signal
+   */
+  exitCode: number | null;
+}
+
+export interface RunOptions {
+  /**
+   * Time in milliseconds after which the process is killed (0 for no limit)
+   */
+  timeout?: number;
+  /**
+   * Maximum size in bytes of stdout and of stderr. The process is killed when one exceeds it
+   */
+  maxOutputSize?: number;
+  /**
+   * Signal killing the process when aborted
+   */
+  signal?: AbortSignal;
+}
+
+export interface IProcessRunner {
+  /**
+   * Runs a command to completion
+   * @param file Executable name or path
+   * @param args Arguments, passed as they are
+   * @param options Timeout, output limit and abort signal (optional)
+   * @returns Output and exit code of the process, whatever the exit code
+   * @throws Error if the process cannot be started, times out, exceeds the output
+   *         limit or is aborted (AbortError)
+   */
+  run(file: string, args: string[], options?: RunOptions): Promise<ProcessResult>;
+}
@@ -0,0 +1,256 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Value of a property list
+ */
+export type PlistValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Date
+  | Buffer
+  | null
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+/**
+ * Reference date of binary plist dates (2001-01-01T00:00:00Z), in milliseconds
+ */
+const APPLE_EPOCH = Date.UTC(2001, 0, 1);
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Parses a property list in XML or binary format
+ * @param data Content of the plist file
+ * @returns Root value
+ * @throws Error if the content is not a valid plist
+ */
+export function parsePlist(data: Buffer): PlistValue {
+  if (data.subarray(0, 8).toString('ascii') === 'bplist00') {
+    return parseBinaryPlist(data);
+  }
+  return parseXmlPlist(data.toString('utf8'));
+}
+
+/**
+ * Decodes the entities of XML text
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10));
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Parses a property list in XML format
+ * @param xml XML document
+ * @returns Root value
+ */
+export function parseXmlPlist(xml: string): PlistValue {
+  // Tags and the text between them, without the prolog, doctype and comments
+  const tokens = [...xml
+    .replace(/<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!--[\s\S]*?-->/g, '')
+    .matchAll(/<(\/?)([\w-]+)[^>]*?(\/?)>|([^<]+)/g)];
+  let position = 0;
+
+  const next = () => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('Invalid plist: unexpected end of document');
+    }
+    return token;
+  };
+  const skipWhitespace = () => {
+    while (tokens[position]?.[4] !== undefined && !tokens[position][4].trim()) {
+      position++;
+    }
+  };
+  // Reads the text of an element up to its closing tag
+  const readText = (tag: string): string => {
+    let text = '';
+    for (let token = next(); token[1] !== '/' || token[2] !== tag; token = next()) {
+      if (token[4] === undefined) {
+        throw new Error(`Invalid plist: unexpected <${token[2]}> in <${tag}>`);
+      }
+      text += token[4];
+    }
+    return decodeEntities(text);
+  };
+
+  const parseValue = (): PlistValue => {
+    skipWhitespace();
+    const [, closing, tag, selfClosing] = next();
+    if (!tag || closing) {
+      throw new Error('Invalid plist: expected a value');
+    }
+    if (selfClosing) {
+      switch (tag) {
+        case 'true': return true;
+        case 'false': return false;
+        case 'dict': return {};
+        case 'array': return [];
+        case 'string': return '';
+        default: throw new Error(`Invalid plist: unexpected <${tag}/>`);
+      }
+    }
+
+    switch (tag) {
+      case 'plist': {
+        const value = parseValue();
+        skipWhitespace();
+        next();
+        return value;
+      }
+      case 'dict': {
+        const dict: { [key: string]: PlistValue } = {};
+        for (skipWhitespace(); tokens[position]?.[2] === 'key' && !tokens[position][1]; skipWhitespace()) {
+          next();
+          const key = readText('key');
+          dict[key] = parseValue();
+        }
+        next();
+        return dict;
+      }
+      case 'array': {
+        const array: PlistValue[] = [];
+        for (skipWhitespace(); !tokens[position]?.[1]; skipWhitespace()) {
+          array.push(parseValue());
+        }
+        next();
+        return array;
+      }
+      case 'string': return readText('string');
+      case 'integer': return parseInt(readText('integer').trim(), 10);
+      case 'real': return parseFloat(readText('real').trim());
+      case 'date': return new Date(readText('date').trim());
+      case 'data': return Buffer.from(readText('data').replace(/\s/g, ''), 'base64');
+      case 'true':
+      case 'false':
+        readText(tag);
+        return tag === 'true';
+      default:
+        throw new Error(`Invalid plist: unknown element <${tag}>`);
+    }
+  };
+
+  return parseValue();
+}
+
+/**
+ * Parses a property list in binary format (bplist00)
+ * @param data Content of the plist file
+ * @returns Root value
+ */
+export function parseBinaryPlist(data: Buffer): PlistValue {
+  if (data.length < 40) {
+    throw new Error('Invalid binary plist: too short');
+  }
+  // The trailer holds the sizes of offsets and references and where the objects are
+  const trailer = data.subarray(data.length - 32);
+  const offsetSize = trailer[6];
+  const refSize = trailer[7];
+  const objectCount = Number(trailer.readBigUInt64BE(8));
+  const topObject = Number(trailer.readBigUInt64BE(16));
+  const offsetTable = Number(trailer.readBigUInt64BE(24));
+
+  const readUInt = (offset: number, size: number): number => {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = value * 256 + data[offset + i];
+    }
+    return value;
+  };
+  const objectOffset = (ref: number): number => {
+    if (ref >= objectCount) {
+      throw new Error(`Invalid binary plist: object ${ref} out of range`);
+    }
+    return readUInt(offsetTable + ref * offsetSize, offsetSize);
+  };
+
+  const parseObject = (ref: number, parents: Set<number>): PlistValue => {
+    if (parents.has(ref)) {
+      throw new Error('Invalid binary plist: circular reference');
+    }
+    const offset = objectOffset(ref);
+    const marker = data[offset];
+    const type = marker >> 4;
+    const info = marker & 0x0f;
+
+    // Returns the length of a container and where its content starts
+    const length = (): [number, number] => {
+      if (info !== 0x0f) {
+        return [info, offset + 1];
+      }
+      const size = 1 << (data[offset + 1] & 0x0f);
+      return [readUInt(offset + 2, size), offset + 2 + size];
+    };
+    const children = (start: number, count: number) =>
+      Array.from({ length: count }, (_, i) => readUInt(start + i * refSize, refSize));
+    const nested = new Set(parents).add(ref);
+
+    switch (type) {
+      case 0x0:
+        if (marker === 0x08) return false;
+        if (marker === 0x09) return true;
+        return null;
+      case 0x1: {
+        const size = 1 << info;
+        if (size === 8) {
+          const value = data.readBigInt64BE(offset + 1);
+          return value >= Number.MIN_SAFE_INTEGER && value <= Number.MAX_SAFE_INTEGER ? Number(value) : value;
+        }
+        if (size === 16) {
+          return data.readBigInt64BE(offset + 9);
+        }
+        return readUInt(offset + 1, size);
+      }
+      case 0x2:
+        return info === 2 ? data.readFloatBE(offset + 1) : data.readDoubleBE(offset + 1);
+      case 0x3:
+        return new Date(APPLE_EPOCH + data.readDoubleBE(offset + 1) * 1000);
+      case 0x4: {
+        const [count, start] = length();
+        return Buffer.from(data.subarray(start, start + count));
+      }
+      case 0x5: {
+        const [count, start] = length();
+        return data.subarray(start, start + count).toString('latin1');
+      }
+      case 0x6: {
+        const [count, start] = length();
+        // UTF-16 big endian, swapped to the little endian Node decodes
+        return Buffer.from(data.subarray(start, start + count * 2)).swap16().toString('utf16le');
+      }
+      case 0x8:
+        return readUInt(offset + 1, info + 1);
+      case 0xa:
+      case 0xc: {
+        const [count, start] = length();
+        return children(start, count).map(child => parseObject(child, nested));
+      }
+      case 0xd: {
+        const [count, start] = length();
+        const keys = children(start, count);
+        const values = children(start + count * refSize, count);
+        const dict: { [key: string]: PlistValue } = {};
+        keys.forEach((key, i) => {
+          dict[String(parseObject(key, nested))] = parseObject(values[i], nested);
+        });
+        return dict;
+      }
+      default:
+        throw new Error(`Invalid binary plist: unknown object type 0x${marker.toString(16)}`);
+    }
+  };
+
+  return parseObject(topObject, new Set());
+}
@@ -0,0 +1,131 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import fs from 'fs';
+import { z } from 'zod';
+import { IProcessRunner, ProcessResult, RunOptions } from './interfaces/IProcessRunner.js';
+import { createAbortError } from './errors.js';
+
+/**
+ * Version of the recording file format
+ */
+export const RECORDING_VERSION = 1;
+
+const recordedCommandSchema = z.object({
+  file: z.string().min(1),
+  args: z.array(z.string()),
+  stdout: z.string(),
+  stderr: z.string(),
+  exitCode: z.number().int().nullable()
+}).strict();
+
+const commandRecordingSchema = z.object({
+  version: z.literal(RECORDING_VERSION),
+  commands: z.array(recordedCommandSchema)
+}).strict();
+
+/**
+ * Command line run by a process runner, with its output and exit code
+ */
+export type RecordedCommand = z.infer<typeof recordedCommandSchema>;
+
+/**
+ * Commands recorded in the order they were run, as stored in recording files
+ */
+export type CommandRecording = z.infer<typeof commandRecordingSchema>;
+
+/**
+ * Formats a command line for error messages
+ */
+function formatCommandLine(file: string, args: string[]): string {
+  return [file, ...args].map(arg => /\s/.test(arg) ? JSON.stringify(arg) : arg).join(' ');
+}
+
+/**
+ * Process runner recording every command it runs, with its stdout, stderr and exit
+ * code, so that the output of idb and simctl on a Mac can be replayed elsewhere.
+ * Commands that fail to run (timeouts, cancellations) are not recorded
+ */
+export class RecordingProcessRunner implements IProcessRunner {
+  private commands: RecordedCommand[] = [];
+
+  /**
+   * Constructor
+   * @param runner Runner executing the commands
+   * @param filePath File the recording is written to after every command (optional)
+   */
+  constructor(private readonly runner: IProcessRunner, private readonly filePath?: string) {}
+
+  async run(file: string, args: string[], options?: RunOptions): Promise<ProcessResult> {
+    const result = await this.runner.run(file, args, options);
+    this.commands.push({ file, args: [...args], ...result });
+    if (this.filePath) {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.getRecording(), null, 2));
+    }
+    return result;
+  }
+
+  /**
+   * Gets the commands recorded so far
+   * @returns Recording
+   */
+  getRecording(): CommandRecording {
+    return { version: RECORDING_VERSION, commands: this.commands.map(command => ({ ...command })) };
+  }
+}
+
+/**
+ * Process runner answering commands from a recording instead of running them.
+ * A command recorded several times is answered with its recordings in order, and
+ * then with the last one; commands that were not recorded fail
+ */
+export class ReplayProcessRunner implements IProcessRunner {
+  private pending: Map<string, RecordedCommand[]> = new Map();
+
+  /**
+   * Constructor
+   * @param recording Recorded commands
+   */
+  constructor(recording: CommandRecording) {
+    for (const command of recording.commands) {
+      const key = JSON.stringify([command.file, ...command.args]);
+      this.pending.set(key, [...(this.pending.get(key) || []), command]);
+    }
+  }
+
+  async run(file: string, args: string[], options?: RunOptions): Promise<ProcessResult> {
+    if (options?.signal?.aborted) {
+      throw createAbortError();
+    }
+    const recorded = this.pending.get(JSON.stringify([file, ...args]));
+    if (!recorded) {
+      throw new Error(`No recording for command: ${formatCommandLine(file, args)}`);
+    }
+    const command = recorded.length > 1 ? recorded.shift()! : recorded[0];
+    return { stdout: command.stdout, stderr: command.stderr, exitCode: command.exitCode };
+  }
+}
+
+/**
+ * Reads a command recording from a JSON file
+ * @param filePath Path of the file
+ * @returns Recording
+ * @throws Error if the file cannot be read or is invalid
+ */
+export function loadCommandRecording(filePath: string): CommandRecording {
+  let input: unknown;
+  try {
+    input = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read command recording ${filePath}: ${error.message}`);
+  }
+
+  const result = commandRecordingSchema.safeParse(input);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const location = issue.path.reduce<string>((path, segment) =>
+      typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment, '');
+    throw new Error(`Invalid command recording ${filePath}: ${location ? `${location} ` : ''}${issue.message}`);
+  }
+  return result.data;
+}
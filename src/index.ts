@@ -28,8 +28,10 @@ import mcpServer from './mcp/mcp-server.js';
  */
 
 // Export interfaces
-export { IIDBManager, SimulatorInfo, AppInfo, SessionConfig } from './idb/interfaces/IIDBManager.js';
-export { IParser, ParseResult, ValidationResult } from './parser/interfaces/IParser.js';
+export { IProcessRunner, ProcessResult, RunOptions } from './idb/interfaces/IProcessRunner.js';
+export { IIDBManager, SimulatorInfo, AppInfo, SessionConfig, ProgressUpdate, ProgressCallback, ScreenSize, VideoRecordingResult } from './idb/interfaces/IIDBManager.js';
+export { IParser, ParseResult, ParseOptions, ValidationResult, SupportedCommand, CommandSuggestion } from './parser/interfaces/IParser.js';
+export { LanguagePack, CommandPhrases, Direction } from './parser/interfaces/ILanguagePack.js';
 export { 
   IOrchestratorCommand,
   CommandType,
@@ -37,13 +39,51 @@ export {
   CommandContext,
   SequenceCommand,
   ConditionalCommand,
-  CommandFactory
+  RepeatCommand,
+  LoopCommand,
+  WaitUntilCommand,
+  ParallelCommand,
+  ParallelBranch,
+  ParallelBranchResult,
+  ParallelPolicy,
+  CommandFactory,
+  ExecutionOptions,
+  RetryPolicy,
+  OrchestratorOptions,
+  ConditionExpression,
+  ConditionFunction,
+  ElementQuery,
+  ComparisonOperator
 } from './orchestrator/interfaces/IOrchestratorCommand.js';
 
 // Export implementations
 export { IDBManager } from './idb/IDBManager.js';
-export { NLParser } from './parser/NLParser.js';
-export { MCPOrchestrator } from './orchestrator/MCPOrchestrator.js';
+export { IDBCommandError, isTransientError } from './idb/errors.js';
+export { ProcessRunner, DEFAULT_PROCESS_TIMEOUT, DEFAULT_MAX_OUTPUT_SIZE } from './idb/ProcessRunner.js';
+export { VideoRecorder, VideoRecorderOptions, DEFAULT_MAX_RECORDING_DURATION, DEFAULT_RECORDING_STOP_TIMEOUT, RECORDINGS_DIRECTORY } from './idb/VideoRecorder.js';
+export { readAppBundle, checkMinimumOS, compareVersions } from './idb/appBundle.js';
+export { PlistValue, parsePlist } from './idb/plist.js';
+export { FakeIDBManager } from './idb/FakeIDBManager.js';
+export { RecordedCommand, CommandRecording, RecordingProcessRunner, ReplayProcessRunner, loadCommandRecording } from './idb/recording.js';
+export { FakeFixture, FakeSimulatorFixture, DEFAULT_FAKE_FIXTURE, parseFakeFixture, loadFakeFixture } from './idb/fakeFixture.js';
+export { ELEMENT_TYPES, ElementTarget, findElements, resolveElement } from './idb/elements.js';
+export { SwipePath, scrollPath, swipePath } from './idb/gestures.js';
+export { NLParser, NLParserOptions } from './parser/NLParser.js';
+export {
+  CommandConfig,
+  AliasConfig,
+  MacroConfig,
+  MacroStep,
+  loadCommandConfig,
+  parseCommandConfig
+} from './parser/customCommands.js';
+export { DEFAULT_LANGUAGE_PACKS } from './parser/languages/index.js';
+export { UnrecognizedInstructionError } from './parser/errors.js';
+export { ParameterSpec, PARAMETER_SPECS, toZodSchema, toJsonSchema } from './parser/parameters.js';
+export { MCPOrchestrator, COMMAND_HISTORY_LIMIT } from './orchestrator/MCPOrchestrator.js';
+export { resolveTemplates } from './orchestrator/templating.js';
+export { ConditionEvaluator, validateCondition } from './orchestrator/conditions.js';
+export { parseFlow } from './orchestrator/flows.js';
 
 // Export adapters
 export { ParserToOrchestrator } from './adapters/ParserToOrchestrator.js';
@@ -81,14 +121,7 @@ async function start() {
   }
 }
 
-// Handle termination signals
-process.on('SIGINT', () => {
-  process.exit(0);
-});
-
-process.on('SIGTERM', () => {
-  process.exit(0);
-});
+// Termination signals are handled by the server, which stops video recordings before exiting
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
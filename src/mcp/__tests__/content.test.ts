@@ -0,0 +1,83 @@
+import { containsImages, describeImage, toToolContent } from '../content.js';
+
+/**
+ * Builds the first bytes of a PNG file with the given size
+ */
+function pngHeader(width: number, height: number): Buffer {
+  const buffer = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buffer, 0);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write('IHDR', 12, 'ascii');
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+describe('MCP content', () => {
+  describe('describeImage', () => {
+    it('should read the size of PNG images', () => {
+      expect(describeImage(pngHeader(1179, 2556))).toEqual({
+        mimeType: 'image/png',
+        width: 1179,
+        height: 2556
+      });
+    });
+
+    it('should detect JPEG images', () => {
+      expect(describeImage(Buffer.from([0xff, 0xd8, 0xff, 0xe0])).mimeType).toBe('image/jpeg');
+    });
+  });
+
+  describe('toToolContent', () => {
+    it('should serialize results without images as a single text block', () => {
+      const result = { success: true, data: { bundleId: 'com.example.app' }, timestamp: 1 };
+
+      expect(containsImages(result)).toBe(false);
+      expect(toToolContent(result)).toEqual([
+        { type: 'text', text: JSON.stringify(result) }
+      ]);
+    });
+
+    it('should return screenshots as base64 image blocks with metadata', () => {
+      const png = pngHeader(390, 844);
+      const result = { success: true, data: png, timestamp: 1 };
+
+      expect(containsImages(result)).toBe(true);
+      const content = toToolContent(result, {
+        sessionId: 'session_1',
+        device: { udid: 'ABC', name: 'iPhone 15', state: 'Booted', os: 'iOS-17-0', deviceType: 'iPhone' }
+      });
+
+      expect(content.length).toBe(2);
+      expect(content[1]).toEqual({
+        type: 'image',
+        data: png.toString('base64'),
+        mimeType: 'image/png'
+      });
+
+      const text = JSON.parse((content[0] as { text: string }).text);
+      expect(text.data).toEqual({ image: 0, mimeType: 'image/png', width: 390, height: 844, bytes: png.length });
+      expect(text.sessionId).toBe('session_1');
+      expect(text.device).toEqual({ udid: 'ABC', name: 'iPhone 15', os: 'iOS-17-0' });
+      expect((content[0] as { text: string }).text).not.toContain('"type":"Buffer"');
+    });
+
+    it('should extract images nested in sequence results', () => {
+      const result = {
+        success: true,
+        data: {
+          results: [
+            { success: true, data: { bundleId: 'com.example.app' }, timestamp: 1 },
+            { success: true, data: pngHeader(10, 20), timestamp: 2 }
+          ]
+        },
+        timestamp: 3
+      };
+
+      const content = toToolContent(result);
+      expect(content.filter(block => block.type === 'image').length).toBe(1);
+      const text = JSON.parse((content[0] as { text: string }).text);
+      expect(text.data.results[1].data.image).toBe(0);
+    });
+  });
+});
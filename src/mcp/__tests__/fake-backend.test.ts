@@ -0,0 +1,72 @@
+import { jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { MCPSimulatorServer } from '../mcp-server.js';
+import { FakeIDBManager } from '../../idb/FakeIDBManager.js';
+
+describe('MCP server with the fake backend', () => {
+  let fake: FakeIDBManager;
+  let client: Client;
+
+  const instruct = async (instruction: string) => {
+    const result = await client.callTool({ name: 'process-instruction', arguments: { instruction } });
+    const content = result.content as Array<{ type: string; text?: string }>;
+    return { isError: result.isError, text: content.map(item => item.text || item.type).join('\n') };
+  };
+
+  beforeEach(async () => {
+    fake = new FakeIDBManager();
+    const server = new MCPSimulatorServer(fake).createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should run instructions from the MCP client to the simulated devices', async () => {
+    expect((await instruct('create session with iPhone 15')).isError).toBeFalsy();
+    const [sessionId] = await fake.listSimulatorSessions();
+
+    const login = await instruct('launch app com.example.app then type user@example.com into the Email field then tap the Login button');
+    expect(login.isError).toBeFalsy();
+
+    const [email] = await fake.describeAllElements(sessionId);
+    expect(email.value).toBe('user@example.com');
+    expect(await fake.getAppLogs(sessionId, 'com.example.app')).toContain('Tap at 197, 355 on "Login"');
+  });
+
+  it('should report backend errors in the tool result', async () => {
+    await instruct('create session with iPhone 15');
+
+    const result = await instruct('launch app com.example.missing');
+    expect(result.text).toContain('App not installed: com.example.missing');
+  });
+});
+
+describe('MCP server shutdown', () => {
+  it('should dispose the backend before exiting on termination signals', async () => {
+    const fake = new FakeIDBManager();
+    const dispose = jest.spyOn(fake, 'dispose');
+    const exited = new Promise<void>(resolve => {
+      jest.spyOn(process, 'exit').mockImplementation((() => resolve()) as () => never);
+    });
+    const server = new MCPSimulatorServer(fake);
+    await server.start({ transport: 'http', http: { host: '127.0.0.1', port: 0 }, backend: 'idb' });
+
+    try {
+      process.emit('SIGTERM');
+      await exited;
+
+      expect(dispose).toHaveBeenCalled();
+      expect(process.exit).toHaveBeenCalledWith(0);
+      expect(process.listenerCount('SIGINT')).toBe(0);
+    } finally {
+      jest.restoreAllMocks();
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import http from 'http';
+import { jest } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { MCPSimulatorServer } from '../mcp-server.js';
+import { HttpTransportServer, HttpTransportOptions, DEFAULT_MAX_BODY_SIZE, isLoopbackHost } from '../http-transport.js';
+import { IIDBManager } from '../../idb/interfaces/IIDBManager.js';
+
+const mockIDBManager: jest.Mocked<IIDBManager> = {
+  createSimulatorSession: jest.fn(),
+  terminateSimulatorSession: jest.fn(),
+  listAvailableSimulators: jest.fn(),
+  listBootedSimulators: jest.fn(),
+  listSimulatorSessions: jest.fn(),
+  bootSimulatorByUDID: jest.fn(),
+  shutdownSimulatorByUDID: jest.fn(),
+  shutdownSimulator: jest.fn(),
+  isSimulatorBooted: jest.fn(),
+  installApp: jest.fn(),
+  launchApp: jest.fn(),
+  terminateApp: jest.fn(),
+  isAppInstalled: jest.fn(),
+  tap: jest.fn(),
+  swipe: jest.fn(),
+  takeScreenshot: jest.fn(),
+  getSystemLogs: jest.fn(),
+  getAppLogs: jest.fn()
+};
+
+const AUTH_TOKEN = 'test-token';
+
+describe('HttpTransportServer', () => {
+  let httpServer: HttpTransportServer;
+  let baseUrl: string;
+  let clients: Client[];
+
+  const connect = async (token: string = AUTH_TOKEN): Promise<Client> => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } }
+    }));
+    clients.push(client);
+    return client;
+  };
+
+  const startServer = async (options: Partial<HttpTransportOptions> = {}): Promise<void> => {
+    const simulatorServer = new MCPSimulatorServer(mockIDBManager);
+    httpServer = new HttpTransportServer(
+      { host: '127.0.0.1', port: 0, authToken: AUTH_TOKEN, ...options },
+      () => simulatorServer.createServer()
+    );
+    const { port } = await httpServer.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    clients = [];
+    await startServer();
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close();
+    }
+    await httpServer.close();
+  });
+
+  it('should answer the health check without authentication', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should reject requests without a valid bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+
+    await expect(connect('wrong')).rejects.toBeDefined();
+  });
+
+  it('should reject request bodies larger than the maximum size', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${AUTH_TOKEN}` },
+      body: 'x'.repeat(DEFAULT_MAX_BODY_SIZE + 1)
+    });
+    expect(response.status).toBe(413);
+
+    // Chunked bodies have no Content-Length and are counted while they are read
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const request = http.request(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${AUTH_TOKEN}` }
+      }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      });
+      request.on('error', reject);
+      for (let i = 0; i < 5; i++) {
+        request.write('x'.repeat(DEFAULT_MAX_BODY_SIZE / 4));
+      }
+      request.end();
+    });
+    expect(status).toBe(413);
+  });
+
+  it('should list tools and execute them through the shared IDB manager', async () => {
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    expect(tools.some(tool => tool.name === 'process-instruction')).toBe(true);
+    expect(tools.some(tool => tool.name === 'tap')).toBe(true);
+
+    mockIDBManager.tap.mockResolvedValue();
+    const result = await client.callTool({ name: 'tap', arguments: { x: 10, y: 20, sessionId: 'session_1' } });
+    expect(result.isError).toBeFalsy();
+    expect(mockIDBManager.tap).toHaveBeenCalledWith('session_1', 10, 20, undefined);
+  });
+
+  it('should keep separate state for every connection', async () => {
+    mockIDBManager.tap.mockResolvedValue();
+
+    const clientA = await connect();
+    const clientB = await connect();
+    expect(httpServer.getSessionCount()).toBe(2);
+
+    await clientA.callTool({ name: 'tap', arguments: { x: 1, y: 2 } });
+
+    const readHistory = async (client: Client) => {
+      const result = await client.readResource({ uri: 'simulator://history' });
+      return JSON.parse((result.contents[0] as { text: string }).text);
+    };
+    expect((await readHistory(clientA)).length).toBe(1);
+    expect((await readHistory(clientB)).length).toBe(0);
+  });
+
+  it('should close sessions without requests for longer than the idle timeout', async () => {
+    await httpServer.close();
+    await startServer({ sessionIdleTimeout: 500 });
+
+    // Every request restarts the countdown
+    const client = await connect();
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await client.listTools();
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(httpServer.getSessionCount()).toBe(1);
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(httpServer.getSessionCount()).toBe(0);
+    await expect(client.listTools()).rejects.toBeDefined();
+  });
+
+  it('should refuse to accept remote connections without an auth token', async () => {
+    expect(isLoopbackHost('127.0.0.1')).toBe(true);
+    expect(isLoopbackHost('localhost')).toBe(true);
+    expect(isLoopbackHost('[::1]')).toBe(true);
+    expect(isLoopbackHost('0.0.0.0')).toBe(false);
+    expect(isLoopbackHost('192.168.1.10')).toBe(false);
+
+    const unprotected = new HttpTransportServer({ host: '0.0.0.0', port: 0 }, () => new MCPSimulatorServer(mockIDBManager).createServer());
+    await expect(unprotected.start()).rejects.toThrow('Refusing to listen on 0.0.0.0 without an auth token');
+  });
+});
@@ -0,0 +1,146 @@
+import { jest } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SimulatorResources, RESOURCE_URIS, HISTORY_RESOURCE_LIMIT } from '../resources.js';
+import { MCPOrchestrator } from '../../orchestrator/MCPOrchestrator.js';
+import { IParser } from '../../parser/interfaces/IParser.js';
+import { IIDBManager } from '../../idb/interfaces/IIDBManager.js';
+import { CommandType } from '../../orchestrator/interfaces/IOrchestratorCommand.js';
+
+const mockParser: jest.Mocked<IParser> = {
+  parseInstruction: jest.fn(),
+  validateInstruction: jest.fn(),
+  normalizeParameters: jest.fn(),
+  getSupportedCommands: jest.fn(),
+  suggestCompletions: jest.fn()
+};
+
+const listApps = jest.fn<NonNullable<IIDBManager['listApps']>>();
+
+const mockIDBManager: jest.Mocked<IIDBManager> = {
+  createSimulatorSession: jest.fn(),
+  terminateSimulatorSession: jest.fn(),
+  listAvailableSimulators: jest.fn(),
+  listBootedSimulators: jest.fn(),
+  listSimulatorSessions: jest.fn(),
+  bootSimulatorByUDID: jest.fn(),
+  shutdownSimulatorByUDID: jest.fn(),
+  shutdownSimulator: jest.fn(),
+  isSimulatorBooted: jest.fn(),
+  installApp: jest.fn(),
+  launchApp: jest.fn(),
+  terminateApp: jest.fn(),
+  isAppInstalled: jest.fn(),
+  listApps,
+  tap: jest.fn(),
+  swipe: jest.fn(),
+  takeScreenshot: jest.fn(),
+  getSystemLogs: jest.fn(),
+  getAppLogs: jest.fn()
+};
+
+describe('SimulatorResources', () => {
+  let orchestrator: MCPOrchestrator;
+  let resources: SimulatorResources;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    orchestrator = new MCPOrchestrator(mockParser, mockIDBManager);
+    resources = new SimulatorResources(mockIDBManager, orchestrator);
+  });
+
+  it('should list static resources and one apps resource per session', async () => {
+    mockIDBManager.listSimulatorSessions.mockResolvedValue(['session_1', 'session_2']);
+
+    const list = await resources.listResources();
+    const uris = list.map(resource => resource.uri);
+
+    expect(uris).toEqual([
+      RESOURCE_URIS.devices,
+      RESOURCE_URIS.sessions,
+      RESOURCE_URIS.history,
+      'simulator://sessions/session_1/apps',
+      'simulator://sessions/session_2/apps'
+    ]);
+  });
+
+  it('should expose the session apps template', () => {
+    const templates = resources.listResourceTemplates();
+    expect(templates[0].uriTemplate).toBe('simulator://sessions/{id}/apps');
+  });
+
+  it('should read available simulators', async () => {
+    const simulators = [{
+      udid: 'ABC',
+      name: 'iPhone 15',
+      state: 'Booted' as const,
+      os: 'iOS-17-0',
+      deviceType: 'iPhone'
+    }];
+    mockIDBManager.listAvailableSimulators.mockResolvedValue(simulators);
+
+    const result = await resources.readResource(RESOURCE_URIS.devices);
+    expect(result.contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse((result.contents[0] as { text: string }).text)).toEqual(simulators);
+  });
+
+  it('should read the apps installed in a session', async () => {
+    const apps = [{ bundleId: 'com.example.app', name: 'Example' }];
+    listApps.mockResolvedValue(apps);
+
+    const result = await resources.readResource('simulator://sessions/session_1/apps');
+    expect(listApps).toHaveBeenCalledWith('session_1');
+    expect(JSON.parse((result.contents[0] as { text: string }).text)).toEqual(apps);
+  });
+
+  it('should read the command history', async () => {
+    mockIDBManager.launchApp.mockResolvedValue();
+    await orchestrator.executeCommand({
+      type: CommandType.LAUNCH_APP,
+      parameters: { bundleId: 'com.example.app' },
+      id: '123'
+    });
+
+    const result = await resources.readResource(RESOURCE_URIS.history);
+    const history = JSON.parse((result.contents[0] as { text: string }).text);
+    expect(history.length).toBe(1);
+    expect(history[0].command.id).toBe('123');
+  });
+
+  it('should summarize screenshots in the command history', async () => {
+    mockIDBManager.takeScreenshot.mockResolvedValue(Buffer.alloc(1024 * 1024));
+    await orchestrator.executeCommand({
+      type: CommandType.TAKE_SCREENSHOT,
+      parameters: {},
+      id: 'shot'
+    });
+
+    const result = await resources.readResource(RESOURCE_URIS.history);
+    const text = (result.contents[0] as { text: string }).text;
+    expect(text.length).toBeLessThan(10000);
+    expect(JSON.parse(text)[0].result.data).toEqual({
+      binary: true,
+      mimeType: 'application/octet-stream',
+      bytes: 1024 * 1024
+    });
+  });
+
+  it('should serve only the most recent commands', async () => {
+    mockIDBManager.launchApp.mockResolvedValue();
+    for (let i = 0; i < HISTORY_RESOURCE_LIMIT + 5; i++) {
+      await orchestrator.executeCommand({
+        type: CommandType.LAUNCH_APP,
+        parameters: { bundleId: 'com.example.app' },
+        id: `command_${i}`
+      });
+    }
+
+    const result = await resources.readResource(RESOURCE_URIS.history);
+    const history = JSON.parse((result.contents[0] as { text: string }).text);
+    expect(history).toHaveLength(HISTORY_RESOURCE_LIMIT);
+    expect(history[HISTORY_RESOURCE_LIMIT - 1].command.id).toBe(`command_${HISTORY_RESOURCE_LIMIT + 4}`);
+  });
+
+  it('should reject unknown resources', async () => {
+    await expect(resources.readResource('simulator://unknown')).rejects.toBeInstanceOf(McpError);
+  });
+});
@@ -0,0 +1,71 @@
+import { NLParser } from '../../parser/NLParser.js';
+import {
+  buildTools,
+  findCommandForTool,
+  toolNameForCommand,
+  PROCESS_INSTRUCTION_TOOL,
+  RUN_FLOW_TOOL
+} from '../tools.js';
+
+describe('MCP tools', () => {
+  let parser: NLParser;
+
+  beforeEach(() => {
+    parser = new NLParser();
+  });
+
+  describe('toolNameForCommand', () => {
+    it('should convert command names into tool names', () => {
+      expect(toolNameForCommand('tap')).toBe('tap');
+      expect(toolNameForCommand('install app')).toBe('install-app');
+      expect(toolNameForCommand('press device button')).toBe('press-device-button');
+    });
+  });
+
+  describe('buildTools', () => {
+    it('should expose the instruction tool and one tool per command', async () => {
+      const commands = await parser.getSupportedCommands();
+      const tools = buildTools(commands);
+
+      expect(tools[0].name).toBe(PROCESS_INSTRUCTION_TOOL);
+      expect(tools[1].name).toBe(RUN_FLOW_TOOL);
+      expect(tools.length).toBe(commands.length + 2);
+      expect(new Set(tools.map(tool => tool.name)).size).toBe(tools.length);
+      expect(tools.every(tool => /^[a-z0-9-]{1,64}$/.test(tool.name))).toBe(true);
+    });
+
+    it('should build typed input schemas from command parameters', async () => {
+      const tools = buildTools(await parser.getSupportedCommands());
+
+      const tap = tools.find(tool => tool.name === 'tap')!;
+      expect(tap.description).toBe('Performs a tap at the specified coordinates');
+      expect(tap.inputSchema.required).toEqual(['x', 'y']);
+      expect(tap.inputSchema.properties).toMatchObject({
+        x: { type: 'number' },
+        y: { type: 'number' },
+        sessionId: { type: 'string' }
+      });
+
+      const pressButton = tools.find(tool => tool.name === 'press-device-button')!;
+      expect((pressButton.inputSchema.properties as any).button.enum).toContain('HOME');
+
+      const approve = tools.find(tool => tool.name === 'approve-permissions')!;
+      expect((approve.inputSchema.properties as any).permissions).toMatchObject({
+        type: 'array',
+        items: { type: 'string' }
+      });
+
+      const setLocation = tools.find(tool => tool.name === 'set-location')!;
+      expect((setLocation.inputSchema.properties as any).latitude).toMatchObject({ minimum: -90, maximum: 90 });
+    });
+  });
+
+  describe('findCommandForTool', () => {
+    it('should resolve tool names back to parser commands', async () => {
+      const commands = await parser.getSupportedCommands();
+
+      expect(findCommandForTool('set-location', commands)?.command).toBe('set location');
+      expect(findCommandForTool('unknown-tool', commands)).toBeUndefined();
+    });
+  });
+});
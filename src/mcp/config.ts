@@ -0,0 +1,120 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Transport used to expose the MCP server
+ */
+export type TransportType = 'stdio' | 'http';
+
+/**
+ * Simulator backend: idb, or the in-memory fake for platforms without Xcode
+ */
+export type BackendType = 'idb' | 'fake';
+
+/**
+ * MCP server startup configuration
+ */
+export interface ServerConfig {
+  transport: TransportType;
+  http: {
+    host: string;
+    port: number;
+    /**
+     * Bearer token required on every MCP request (optional)
+     */
+    authToken?: string;
+  };
+  /**
+   * JSON file with user-defined command aliases and macros (optional)
+   */
+  commandsFile?: string;
+  backend: BackendType;
+  /**
+   * JSON fixture seeding the fake backend (optional)
+   */
+  fixtureFile?: string;
+  /**
+   * File recording the idb and simctl commands with their output (optional)
+   */
+  recordFile?: string;
+  /**
+   * Recording whose output is served instead of running idb and simctl (optional)
+   */
+  replayFile?: string;
+}
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Reads the value of a `--name value` or `--name=value` command line option
+ * @param argv Command line arguments
+ * @param name Option name without dashes
+ * @returns Option value or undefined if not present
+ */
+function readOption(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(`--${name}=`)) {
+      return argv[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Loads the server configuration from command line options and environment variables.
+ * Command line options take precedence over environment variables.
+ *
+ * | Option        | Environment variable | Default     |
+ * |---------------|----------------------|-------------|
+ * | `--transport` | `MCP_TRANSPORT`      | `stdio`     |
+ * | `--host`      | `MCP_HTTP_HOST`      | `127.0.0.1` |
+ * | `--port`      | `MCP_HTTP_PORT`      | `3000`      |
+ * | `--auth-token`| `MCP_AUTH_TOKEN`     | none        |
+ * | `--commands`  | `MCP_COMMANDS_FILE`  | none        |
+ * | `--backend`   | `MCP_BACKEND`        | `idb`       |
+ * | `--fixture`   | `MCP_FAKE_FIXTURE`   | none        |
+ * | `--record`    | `MCP_RECORD_FILE`    | none        |
+ * | `--replay`    | `MCP_REPLAY_FILE`    | none        |
+ *
+ * @param argv Command line arguments
+ * @param env Environment variables
+ * @returns Server configuration
+ */
+export function loadServerConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const transport = (readOption(argv, 'transport') || env.MCP_TRANSPORT || 'stdio').toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unsupported transport: ${transport}. Use "stdio" or "http"`);
+  }
+
+  const backend = (readOption(argv, 'backend') || env.MCP_BACKEND || 'idb').toLowerCase();
+  if (backend !== 'idb' && backend !== 'fake') {
+    throw new Error(`Unsupported backend: ${backend}. Use "idb" or "fake"`);
+  }
+
+  const portValue = readOption(argv, 'port') || env.MCP_HTTP_PORT;
+  const port = portValue !== undefined ? Number(portValue) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${portValue}`);
+  }
+
+  return {
+    transport,
+    http: {
+      host: readOption(argv, 'host') || env.MCP_HTTP_HOST || DEFAULT_HTTP_HOST,
+      port,
+      authToken: readOption(argv, 'auth-token') || env.MCP_AUTH_TOKEN || undefined
+    },
+    commandsFile: readOption(argv, 'commands') || env.MCP_COMMANDS_FILE || undefined,
+    backend,
+    fixtureFile: readOption(argv, 'fixture') || env.MCP_FAKE_FIXTURE || undefined,
+    recordFile: readOption(argv, 'record') || env.MCP_RECORD_FILE || undefined,
+    replayFile: readOption(argv, 'replay') || env.MCP_REPLAY_FILE || undefined
+  };
+}
@@ -0,0 +1,161 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { CommandResult } from '../orchestrator/interfaces/IOrchestratorCommand.js';
+import { SimulatorInfo } from '../idb/interfaces/IIDBManager.js';
+
+/**
+ * Context attached to the images returned by a command
+ */
+export interface ImageMetadata {
+  sessionId?: string;
+  device?: SimulatorInfo | null;
+}
+
+/**
+ * MCP content block returned by a tool
+ */
+export type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+interface ExtractedImage {
+  data: Buffer;
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Detects the MIME type and pixel size of an encoded image
+ * @param data Image bytes
+ * @returns MIME type and, for PNG images, width and height in pixels
+ */
+export function describeImage(data: Buffer): { mimeType: string; width?: number; height?: number } {
+  // PNG: signature followed by the IHDR chunk holding width and height
+  if (data.length >= 24 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return {
+      mimeType: 'image/png',
+      width: data.readUInt32BE(16),
+      height: data.readUInt32BE(20)
+    };
+  }
+
+  if (data.length >= 2 && data[0] === 0xff && data[1] === 0xd8) {
+    return { mimeType: 'image/jpeg' };
+  }
+
+  return { mimeType: 'application/octet-stream' };
+}
+
+/**
+ * Checks whether a command result carries binary image data
+ * @param value Command result or any nested value
+ * @returns true if a Buffer is found
+ */
+export function containsImages(value: unknown): boolean {
+  if (Buffer.isBuffer(value)) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(containsImages);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).some(containsImages);
+  }
+  return false;
+}
+
+/**
+ * Replaces every Buffer in a value by a reference to an extracted image
+ * @param value Value to walk
+ * @param images Collected images
+ * @returns Copy of the value safe to serialize as JSON
+ */
+function extractImages(value: unknown, images: ExtractedImage[]): unknown {
+  if (Buffer.isBuffer(value)) {
+    const image = { data: value, ...describeImage(value) };
+    images.push(image);
+    return {
+      image: images.length - 1,
+      mimeType: image.mimeType,
+      width: image.width,
+      height: image.height,
+      bytes: value.length
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => extractImages(item, images));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = extractImages(item, images);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Replaces every Buffer in a value by a summary of its size and type, for JSON
+ * output that does not carry the image itself
+ * @param value Value to walk
+ * @returns Copy of the value safe to serialize as JSON
+ */
+export function summarizeBinaryData(value: unknown): unknown {
+  if (Buffer.isBuffer(value)) {
+    const { mimeType, width, height } = describeImage(value);
+    return { binary: true, mimeType, width, height, bytes: value.length };
+  }
+  if (Array.isArray(value)) {
+    return value.map(summarizeBinaryData);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = summarizeBinaryData(item);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Converts a command result into MCP content blocks.
+ * Binary images are returned as base64 `image` blocks and referenced by index
+ * from the JSON text block, which also carries the session and device metadata.
+ * @param result Command result
+ * @param metadata Session and device the images were taken from
+ * @returns MCP content blocks
+ */
+export function toToolContent(result: CommandResult, metadata: ImageMetadata = {}): ToolContent[] {
+  const images: ExtractedImage[] = [];
+  const serializable = extractImages(result, images) as Record<string, unknown>;
+
+  if (images.length === 0) {
+    return [{ type: 'text', text: JSON.stringify(result) }];
+  }
+
+  const device = metadata.device
+    ? { udid: metadata.device.udid, name: metadata.device.name, os: metadata.device.os }
+    : undefined;
+
+  return [
+    {
+      type: 'text',
+      text: JSON.stringify({
+        ...serializable,
+        sessionId: metadata.sessionId,
+        device
+      })
+    },
+    ...images.map(image => ({
+      type: 'image' as const,
+      data: image.data.toString('base64'),
+      mimeType: image.mimeType
+    }))
+  ];
+}
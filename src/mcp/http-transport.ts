@@ -0,0 +1,367 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo, isIP } from 'net';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Path of the MCP endpoint
+ */
+export const MCP_ENDPOINT = '/mcp';
+
+/**
+ * Path of the unauthenticated health endpoint
+ */
+export const HEALTH_ENDPOINT = '/health';
+
+/**
+ * Default maximum size of request bodies, in bytes
+ */
+export const DEFAULT_MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Default time after which sessions without requests are closed, in milliseconds
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+const SESSION_HEADER = 'mcp-session-id';
+
+/**
+ * Returned instead of the body of requests larger than the maximum size
+ */
+const BODY_TOO_LARGE = Symbol('body too large');
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /**
+   * Bearer token required on every MCP request (optional)
+   */
+  authToken?: string;
+  /**
+   * Maximum size of request bodies in bytes (DEFAULT_MAX_BODY_SIZE by default)
+   */
+  maxBodySize?: number;
+  /**
+   * Time in milliseconds after which sessions without requests are closed
+   * (DEFAULT_SESSION_IDLE_TIMEOUT by default, 0 for no limit)
+   */
+  sessionIdleTimeout?: number;
+}
+
+/**
+ * Connection between one remote client and its own MCP server instance
+ */
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Checks whether a host name or address only accepts connections from this machine
+ * @param host Host the server binds to
+ * @returns true for localhost and loopback addresses
+ */
+export function isLoopbackHost(host: string): boolean {
+  const address = host.replace(/^\[|\]$/g, '').toLowerCase();
+  if (address === 'localhost' || address === '::1') {
+    return true;
+  }
+  const ipv4 = address.replace(/^::ffff:/, '');
+  return isIP(ipv4) === 4 && ipv4.startsWith('127.');
+}
+
+/**
+ * HTTP server exposing MCP over the Streamable HTTP transport (POST + SSE).
+ *
+ * Every client connection gets its own MCP server instance, created through
+ * the factory passed to the constructor, so per-connection state such as the
+ * active simulator session is not shared between clients.
+ */
+export class HttpTransportServer {
+  private options: HttpTransportOptions;
+  private createServer: () => Server;
+  private httpServer: http.Server | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+  private log: (message: string, level?: string) => void;
+
+  /**
+   * Constructor
+   * @param options Host, port and authentication options
+   * @param createServer Factory creating the MCP server of each connection
+   * @param log Logging function (optional)
+   */
+  constructor(
+    options: HttpTransportOptions,
+    createServer: () => Server,
+    log: (message: string, level?: string) => void = () => {}
+  ) {
+    this.options = options;
+    this.createServer = createServer;
+    this.log = log;
+  }
+
+  /**
+   * Starts listening for HTTP requests
+   * @returns Address the server is bound to
+   * @throws Error if the host accepts remote connections and no auth token is set
+   */
+  public async start(): Promise<{ host: string; port: number }> {
+    // Anyone reaching the port could drive the simulators
+    if (!this.options.authToken && !isLoopbackHost(this.options.host)) {
+      throw new Error(
+        `Refusing to listen on ${this.options.host} without an auth token: ` +
+        'set --auth-token (MCP_AUTH_TOKEN) or bind to 127.0.0.1'
+      );
+    }
+
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        this.log(`Error handling HTTP request: ${error}`, 'error');
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: 'Internal server error' });
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.httpServer.address() as AddressInfo;
+    this.log(`MCP HTTP transport listening on ${address.address}:${address.port}`);
+    return { host: address.address, port: address.port };
+  }
+
+  /**
+   * Closes every client connection and stops the HTTP server
+   */
+  public async close(): Promise<void> {
+    for (const [sessionId, session] of this.sessions) {
+      clearTimeout(session.idleTimer);
+      try {
+        await session.server.close();
+      } catch (error) {
+        this.log(`Error closing MCP session ${sessionId}: ${error}`, 'error');
+      }
+    }
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Gets the number of connected clients
+   * @returns Number of open MCP sessions
+   */
+  public getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Routes an HTTP request to the health check or to the MCP session it belongs to
+   * @param req HTTP request
+   * @param res HTTP response
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_ENDPOINT && req.method === 'GET') {
+      this.sendJson(res, 200, { status: 'ok', sessions: this.sessions.size });
+      return;
+    }
+
+    if (url.pathname !== MCP_ENDPOINT) {
+      this.sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      body = await this.readJsonBody(req);
+      if (body === BODY_TOO_LARGE) {
+        // The rest of the body is not read, so the connection cannot be reused
+        res.setHeader('Connection', 'close');
+        this.sendJson(res, 413, { error: 'Request body too large' });
+        return;
+      }
+      if (body === undefined) {
+        this.sendJson(res, 400, {
+          jsonrpc: '2.0',
+          error: { code: -32700, message: 'Parse error: invalid JSON body' },
+          id: null
+        });
+        return;
+      }
+    }
+
+    const sessionId = req.headers[SESSION_HEADER];
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendJson(res, 404, { error: `Unknown MCP session: ${sessionId}` });
+        return;
+      }
+      this.resetIdleTimer(sessionId, session);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      await this.openSession(req, res, body);
+      return;
+    }
+
+    this.sendJson(res, 400, { error: 'Missing MCP session ID' });
+  }
+
+  /**
+   * Creates the transport and MCP server of a new client connection
+   * @param req Initialize HTTP request
+   * @param res HTTP response
+   * @param body Parsed initialize request
+   */
+  private async openSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        const session: HttpSession = { transport, server };
+        this.sessions.set(sessionId, session);
+        this.resetIdleTimer(sessionId, session);
+        this.log(`MCP HTTP session opened: ${sessionId}`);
+      }
+    });
+
+    transport.onclose = () => {
+      const session = transport.sessionId ? this.sessions.get(transport.sessionId) : undefined;
+      if (session) {
+        clearTimeout(session.idleTimer);
+        this.sessions.delete(transport.sessionId!);
+        this.log(`MCP HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Restarts the countdown after which a session without requests is closed, so that
+   * clients disappearing without closing their session do not keep it forever
+   * @param sessionId MCP session ID
+   * @param session Session of the client
+   */
+  private resetIdleTimer(sessionId: string, session: HttpSession): void {
+    const idleTimeout = this.options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+    clearTimeout(session.idleTimer);
+    if (idleTimeout <= 0) {
+      return;
+    }
+    session.idleTimer = setTimeout(() => {
+      this.log(`MCP HTTP session expired after ${idleTimeout} ms without requests: ${sessionId}`);
+      this.sessions.delete(sessionId);
+      session.server.close().catch(error => {
+        this.log(`Error closing MCP session ${sessionId}: ${error}`, 'error');
+      });
+    }, idleTimeout);
+    session.idleTimer.unref();
+  }
+
+  /**
+   * Verifies the bearer token of a request
+   * @param req HTTP request
+   * @returns true if no token is configured or the request carries the right one
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+
+    const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.options.authToken);
+    const received = Buffer.from(match[1].trim());
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Reads and parses a JSON request body, up to the maximum body size
+   * @param req HTTP request
+   * @returns Parsed body, undefined if empty or not valid JSON, or BODY_TOO_LARGE
+   */
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const maxBodySize = this.options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    if (Number(req.headers['content-length']) > maxBodySize) {
+      return BODY_TOO_LARGE;
+    }
+
+    const raw = await new Promise<string | typeof BODY_TOO_LARGE>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBodySize) {
+          // Discard the rest of the body without buffering it
+          req.off('data', onData);
+          req.resume();
+          resolve(BODY_TOO_LARGE);
+          return;
+        }
+        chunks.push(chunk);
+      };
+      req.on('data', onData);
+      req.once('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.once('error', reject);
+    });
+
+    if (raw === BODY_TOO_LARGE) {
+      return raw;
+    }
+    if (!raw) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Sends a JSON response
+   * @param res HTTP response
+   * @param status HTTP status code
+   * @param body Response body
+   */
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -6,7 +6,13 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
   McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
+  ServerNotification,
 } from '@modelcontextprotocol/sdk/types.js';
 import fs from 'fs';
 import path from 'path';
@@ -14,8 +20,20 @@ import { fileURLToPath } from 'url';
 
 // Export implementations
 import { IDBManager } from '../idb/IDBManager.js';
-import { NLParser } from '../parser/NLParser.js';
+import { FakeIDBManager } from '../idb/FakeIDBManager.js';
+import { loadFakeFixture } from '../idb/fakeFixture.js';
+import { ProcessRunner } from '../idb/ProcessRunner.js';
+import { loadCommandRecording, RecordingProcessRunner, ReplayProcessRunner } from '../idb/recording.js';
+import { NLParser, NLParserOptions } from '../parser/NLParser.js';
+import { loadCommandConfig } from '../parser/customCommands.js';
 import { MCPOrchestrator } from '../orchestrator/MCPOrchestrator.js';
+import { CommandResult } from '../orchestrator/interfaces/IOrchestratorCommand.js';
+import { IIDBManager, ProgressCallback, SimulatorInfo } from '../idb/interfaces/IIDBManager.js';
+import { buildTools, findCommandForTool, PROCESS_INSTRUCTION_TOOL, RUN_FLOW_TOOL } from './tools.js';
+import { SimulatorResources } from './resources.js';
+import { containsImages, toToolContent } from './content.js';
+import { loadServerConfig, ServerConfig } from './config.js';
+import { HttpTransportServer } from './http-transport.js';
 
 // Log configuration
 // Get the directory name using ESM approach
@@ -40,12 +58,13 @@ const logToFile = (message: string, level: string = 'info') => {
 
 /**
  * Create a complete MCP Server instance
+ * @param idbManager IDB manager to use (a new IDBManager by default)
+ * @param parserOptions Parser options, such as user-defined commands
  * @returns Object with all necessary instances
  */
-export function createMCPServer() {
+export function createMCPServer(idbManager: IIDBManager = new IDBManager(), parserOptions: NLParserOptions = {}) {
   // Create instances
-  const idbManager = new IDBManager();
-  const parser = new NLParser();
+  const parser = new NLParser(parserOptions);
   const orchestrator = new MCPOrchestrator(parser, idbManager);
   
   return {
@@ -55,20 +74,38 @@ export function createMCPServer() {
   };
 }
 
+type MCPComponents = ReturnType<typeof createMCPServer>;
+
 /**
  * MCP Server implementation for iOS simulator
+ *
+ * The simulators (IDB manager) are shared by every client, while each MCP
+ * connection gets its own parser and orchestrator, and therefore its own
+ * active session and command history.
  */
-class MCPSimulatorServer {
-  private server: Server;
-  private orchestrator: ReturnType<typeof createMCPServer>['orchestrator'];
+export class MCPSimulatorServer {
+  private idbManager: IIDBManager;
+  private stdioServer: Server | null = null;
+  private httpTransport: HttpTransportServer | null = null;
+  private signalHandler: (() => Promise<void>) | null = null;
+  private parserOptions: NLParserOptions = {};
 
-  constructor() {
-    // Create component instances
-    const { orchestrator } = createMCPServer();
-    this.orchestrator = orchestrator;
+  /**
+   * Constructor
+   * @param idbManager IDB manager shared by all connections (a new IDBManager by default)
+   */
+  constructor(idbManager: IIDBManager = new IDBManager()) {
+    this.idbManager = idbManager;
+  }
 
-    // Create MCP server
-    this.server = new Server(
+  /**
+   * Creates the MCP server of one client connection
+   * @returns MCP server with tools and resources registered
+   */
+  public createServer(): Server {
+    const components = createMCPServer(this.idbManager, this.parserOptions);
+
+    const server = new Server(
       {
         name: 'iOS Simulator MCP Server',
         version: '1.0.1',
@@ -81,33 +118,40 @@ class MCPSimulatorServer {
       }
     );
 
-    // Register tools
-    this.registerTools();
+    // Register tools and resources
+    this.registerTools(server, components);
+    this.registerResources(server, new SimulatorResources(components.idbManager, components.orchestrator));
 
     // Handle errors
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       logToFile(`MCP server error: ${error}`, 'error');
     };
 
-    // Handle termination signals
-    process.on('SIGINT', async () => {
-      await this.close();
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', async () => {
-      await this.close();
-      process.exit(0);
-    });
+    return server;
   }
 
   /**
    * Register MCP server tools
    */
-  private registerTools() {
-    // Main tool for processing natural language instructions
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      if (request.params.name === 'process-instruction') {
+  private registerTools(server: Server, components: MCPComponents) {
+    const { parser, orchestrator } = components;
+
+    // One tool for natural language instructions plus one per parser command
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const commands = await parser.getSupportedCommands();
+      return {
+        tools: buildTools(commands),
+      };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const options = {
+        onProgress: this.createProgressCallback(request.params._meta?.progressToken, extra.sendNotification),
+        // Cancelled requests abort the running idb processes
+        signal: extra.signal
+      };
+
+      if (request.params.name === PROCESS_INSTRUCTION_TOOL) {
         const instruction = request.params.arguments?.instruction;
         
         if (!instruction || typeof instruction !== 'string') {
@@ -117,31 +161,65 @@ class MCPSimulatorServer {
           );
         }
 
+        const language = request.params.arguments?.language;
+        if (language !== undefined && typeof language !== 'string') {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            'Language must be a language code such as "en"'
+          );
+        }
+
         logToFile(`Processing instruction: ${instruction}`);
         
         try {
-          const result = await this.orchestrator.processInstruction(instruction);
-          
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result),
-              },
-            ],
-          };
+          const result = await orchestrator.processInstruction(instruction, { ...options, language });
+          return await this.toToolResult(components, result);
         } catch (error) {
           logToFile(`Error processing instruction: ${error}`, 'error');
-          
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            ],
-            isError: true,
-          };
+          return this.toToolError(error);
+        }
+      }
+
+      if (request.params.name === RUN_FLOW_TOOL) {
+        const flow = request.params.arguments?.flow;
+
+        if (!flow || typeof flow !== 'object') {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            'Flow command object is required'
+          );
+        }
+
+        logToFile(`Running flow: ${JSON.stringify(flow)}`);
+
+        try {
+          const result = await orchestrator.executeFlow(flow, options);
+          return await this.toToolResult(components, result);
+        } catch (error) {
+          logToFile(`Error running flow: ${error}`, 'error');
+          return this.toToolError(error);
+        }
+      }
+
+      // Structured command tools skip the natural language parser
+      const commands = await parser.getSupportedCommands();
+      const command = findCommandForTool(request.params.name, commands);
+      if (command) {
+        const parameters = request.params.arguments || {};
+
+        logToFile(`Executing tool ${request.params.name}: ${JSON.stringify(parameters)}`);
+
+        try {
+          const result = await orchestrator.executeParsedCommand({
+            command: command.command,
+            parameters,
+            confidence: 1,
+            originalText: `${command.command} ${JSON.stringify(parameters)}`
+          }, options);
+          return await this.toToolResult(components, result, parameters.sessionId as string | undefined);
+        } catch (error) {
+          logToFile(`Error executing tool ${request.params.name}: ${error}`, 'error');
+          return this.toToolError(error);
         }
       }
 
@@ -153,14 +231,154 @@ class MCPSimulatorServer {
   }
 
   /**
-   * Start the MCP server with stdio transport
+   * Register MCP server resources
    */
-  async start() {
-    logToFile('Starting MCP server with stdio transport');
+  private registerResources(server: Server, resources: SimulatorResources) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: await resources.listResources(),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: resources.listResourceTemplates(),
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      logToFile(`Reading resource: ${request.params.uri}`);
+      return resources.readResource(request.params.uri);
+    });
+  }
+
+  /**
+   * Creates a progress callback forwarding updates as `notifications/progress`
+   * @param progressToken Progress token sent by the client, if any
+   * @param sendNotification Function sending notifications related to the request
+   * @returns Progress callback or undefined if the client did not ask for progress
+   */
+  private createProgressCallback(
+    progressToken: ProgressToken | undefined,
+    sendNotification: (notification: ServerNotification) => Promise<void>
+  ): ProgressCallback | undefined {
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    return (update) => {
+      sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: update.progress,
+          total: update.total,
+          message: update.message,
+        },
+      }).catch((error) => {
+        logToFile(`Error sending progress notification: ${error}`, 'warn');
+      });
+    };
+  }
+
+  /**
+   * Converts a command result into an MCP tool result
+   * @param components Components of the connection that executed the command
+   * @param result Command result
+   * @param sessionId Session the command was executed on (defaults to the active session)
+   * @returns MCP tool result
+   */
+  private async toToolResult(components: MCPComponents, result: CommandResult, sessionId?: string) {
+    if (!containsImages(result)) {
+      return {
+        content: toToolContent(result),
+      };
+    }
+
+    // Images are described with the session and device they were taken from
+    const imageSessionId = sessionId || components.orchestrator.getActiveSessionId() || undefined;
+    let device: SimulatorInfo | null = null;
+    if (imageSessionId && components.idbManager.getSessionSimulator) {
+      try {
+        device = await components.idbManager.getSessionSimulator(imageSessionId);
+      } catch (error) {
+        logToFile(`Error getting simulator of session ${imageSessionId}: ${error}`, 'warn');
+      }
+    }
+
+    return {
+      content: toToolContent(result, { sessionId: imageSessionId, device }),
+    };
+  }
+
+  /**
+   * Converts an unexpected error into an MCP tool error result
+   * @param error Error thrown while executing the tool
+   * @returns MCP tool result flagged as error
+   */
+  private toToolError(error: unknown) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * Start the MCP server with the configured transport
+   * @param config Server configuration (read from command line and environment by default)
+   */
+  async start(config: ServerConfig = loadServerConfig()) {
+    logToFile(`Starting MCP server with ${config.transport} transport`);
     
     try {
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      if (config.backend === 'fake') {
+        this.idbManager = new FakeIDBManager(config.fixtureFile ? loadFakeFixture(config.fixtureFile) : undefined);
+        logToFile(`Using the fake simulator backend${config.fixtureFile ? ` seeded from ${config.fixtureFile}` : ''}`);
+      } else if (config.fixtureFile) {
+        throw new Error('--fixture requires the fake backend (--backend fake)');
+      }
+
+      if ((config.recordFile || config.replayFile) && config.backend !== 'idb') {
+        throw new Error('--record and --replay require the idb backend');
+      }
+      if (config.recordFile && config.replayFile) {
+        throw new Error('--record and --replay cannot be used together');
+      }
+      if (config.recordFile) {
+        this.idbManager = new IDBManager(new RecordingProcessRunner(new ProcessRunner(), config.recordFile));
+        logToFile(`Recording idb commands to ${config.recordFile}`);
+      } else if (config.replayFile) {
+        this.idbManager = new IDBManager(new ReplayProcessRunner(loadCommandRecording(config.replayFile)));
+        logToFile(`Replaying idb commands from ${config.replayFile}`);
+      }
+
+      if (config.commandsFile) {
+        this.parserOptions = { commands: loadCommandConfig(config.commandsFile) };
+        // Report invalid aliases and macros at startup instead of on the first connection
+        new NLParser(this.parserOptions);
+        logToFile(`Loaded user-defined commands from ${config.commandsFile}`);
+      }
+
+      if (config.transport === 'http') {
+        this.httpTransport = new HttpTransportServer(config.http, () => this.createServer(), logToFile);
+        await this.httpTransport.start();
+      } else {
+        this.stdioServer = this.createServer();
+        await this.stdioServer.connect(new StdioServerTransport());
+      }
+
+      // Handle termination signals, stopping video recordings before exiting
+      this.signalHandler = async () => {
+        await this.close();
+        process.exit(0);
+      };
+      process.once('SIGINT', this.signalHandler);
+      process.once('SIGTERM', this.signalHandler);
       
       logToFile('MCP server started successfully');
     } catch (error) {
@@ -175,8 +393,23 @@ class MCPSimulatorServer {
   async close() {
     logToFile('Closing MCP server');
     
+    if (this.signalHandler) {
+      process.off('SIGINT', this.signalHandler);
+      process.off('SIGTERM', this.signalHandler);
+      this.signalHandler = null;
+    }
+
     try {
-      await this.server.close();
+      if (this.stdioServer) {
+        await this.stdioServer.close();
+        this.stdioServer = null;
+      }
+      if (this.httpTransport) {
+        await this.httpTransport.close();
+        this.httpTransport = null;
+      }
+      // Stop video recordings so that their files are finalized
+      await this.idbManager.dispose?.();
       logToFile('MCP server closed successfully');
     } catch (error) {
       logToFile(`Error closing MCP server: ${error}`, 'error');
@@ -0,0 +1,155 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  ErrorCode,
+  McpError,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { IIDBManager } from '../idb/interfaces/IIDBManager.js';
+import { COMMAND_HISTORY_LIMIT, MCPOrchestrator } from '../orchestrator/MCPOrchestrator.js';
+import { summarizeBinaryData } from './content.js';
+
+/**
+ * URIs of the static resources exposed by the server
+ */
+export const RESOURCE_URIS = {
+  devices: 'simulator://devices',
+  sessions: 'simulator://sessions',
+  history: 'simulator://history'
+};
+
+/**
+ * URI template of the installed apps of a session
+ */
+export const SESSION_APPS_TEMPLATE = 'simulator://sessions/{id}/apps';
+
+const SESSION_APPS_PATTERN = /^simulator:\/\/sessions\/([^/]+)\/apps$/;
+
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Number of most recent commands served by the history resource
+ */
+export const HISTORY_RESOURCE_LIMIT = COMMAND_HISTORY_LIMIT;
+
+/**
+ * Read-only MCP resources describing the current simulator state
+ */
+export class SimulatorResources {
+  private idbManager: IIDBManager;
+  private orchestrator: MCPOrchestrator;
+
+  /**
+   * Constructor
+   * @param idbManager IDB manager used to query simulators and apps
+   * @param orchestrator Orchestrator holding the command history
+   */
+  constructor(idbManager: IIDBManager, orchestrator: MCPOrchestrator) {
+    this.idbManager = idbManager;
+    this.orchestrator = orchestrator;
+  }
+
+  /**
+   * Lists the concrete resources currently available
+   * @returns Static resources plus the apps resource of every active session
+   */
+  public async listResources(): Promise<Resource[]> {
+    const resources: Resource[] = [
+      {
+        uri: RESOURCE_URIS.devices,
+        name: 'Available simulators',
+        description: 'Simulators known to simctl with their state, OS and device type',
+        mimeType: JSON_MIME_TYPE
+      },
+      {
+        uri: RESOURCE_URIS.sessions,
+        name: 'Simulator sessions',
+        description: 'Active simulator session IDs',
+        mimeType: JSON_MIME_TYPE
+      },
+      {
+        uri: RESOURCE_URIS.history,
+        name: 'Command history',
+        description: `Last ${HISTORY_RESOURCE_LIMIT} commands executed by the orchestrator and their results, with screenshots summarized by size`,
+        mimeType: JSON_MIME_TYPE
+      }
+    ];
+
+    if (this.idbManager.listApps) {
+      const sessionIds = await this.idbManager.listSimulatorSessions();
+      for (const sessionId of sessionIds) {
+        resources.push({
+          uri: this.sessionAppsUri(sessionId),
+          name: `Apps installed in session ${sessionId}`,
+          mimeType: JSON_MIME_TYPE
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Lists the parameterized resources
+   * @returns Resource templates
+   */
+  public listResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: SESSION_APPS_TEMPLATE,
+        name: 'Installed apps',
+        description: 'Applications installed in the simulator of a session',
+        mimeType: JSON_MIME_TYPE
+      }
+    ];
+  }
+
+  /**
+   * Reads a resource by URI
+   * @param uri Resource URI
+   * @returns Resource contents serialized as JSON
+   */
+  public async readResource(uri: string): Promise<ReadResourceResult> {
+    let data: unknown;
+
+    if (uri === RESOURCE_URIS.devices) {
+      data = await this.idbManager.listAvailableSimulators();
+    } else if (uri === RESOURCE_URIS.sessions) {
+      data = await this.idbManager.listSimulatorSessions();
+    } else if (uri === RESOURCE_URIS.history) {
+      // Screenshots would be serialized as arrays of numbers
+      data = summarizeBinaryData(this.orchestrator.getCommandHistory(HISTORY_RESOURCE_LIMIT));
+    } else {
+      const match = uri.match(SESSION_APPS_PATTERN);
+      if (!match) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      if (!this.idbManager.listApps) {
+        throw new McpError(ErrorCode.InvalidRequest, 'Listing apps is not supported by this simulator backend');
+      }
+      data = await this.idbManager.listApps(decodeURIComponent(match[1]));
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: JSON_MIME_TYPE,
+          text: JSON.stringify(data, null, 2)
+        }
+      ]
+    };
+  }
+
+  /**
+   * Builds the apps resource URI of a session
+   * @param sessionId Session ID
+   * @returns Resource URI
+   */
+  private sessionAppsUri(sessionId: string): string {
+    return SESSION_APPS_TEMPLATE.replace('{id}', encodeURIComponent(sessionId));
+  }
+}
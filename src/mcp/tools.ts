@@ -0,0 +1,111 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { SupportedCommand } from '../parser/interfaces/IParser.js';
+import { PARAMETER_SPECS, toJsonSchema } from '../parser/parameters.js';
+
+/**
+ * Name of the tool that accepts free-form natural language instructions
+ */
+export const PROCESS_INSTRUCTION_TOOL = 'process-instruction';
+
+/**
+ * Name of the tool that executes JSON command trees (sequences and conditionals)
+ */
+export const RUN_FLOW_TOOL = 'run-flow';
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Converts a parser command name into an MCP tool name
+ * @param command Parser command name, e.g. "install app"
+ * @returns Tool name, e.g. "install-app"
+ */
+export function toolNameForCommand(command: string): string {
+  return command.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+/**
+ * Builds the MCP tool definition of a parser command
+ * @param command Supported command description
+ * @returns MCP tool definition
+ */
+export function buildCommandTool(command: SupportedCommand): Tool {
+  const properties: Record<string, JsonSchema> = {};
+  for (const param of [...command.requiredParameters, ...command.optionalParameters]) {
+    const spec = command.parameterSpecs?.[param] || PARAMETER_SPECS[param];
+    properties[param] = spec ? toJsonSchema(spec) : { type: 'string' };
+  }
+
+  return {
+    name: toolNameForCommand(command.command),
+    description: command.description,
+    inputSchema: {
+      type: 'object',
+      properties,
+      required: [...command.requiredParameters]
+    }
+  };
+}
+
+/**
+ * Builds the full list of MCP tools exposed by the server
+ * @param commands Commands supported by the parser
+ * @returns MCP tool definitions
+ */
+export function buildTools(commands: SupportedCommand[]): Tool[] {
+  return [
+    {
+      name: PROCESS_INSTRUCTION_TOOL,
+      description: 'Executes a natural language instruction on the iOS simulator, e.g. "launch app com.example.app". ' +
+        'Several steps can be chained with "then", newlines or semicolons, e.g. "launch app com.example.app then take a screenshot"',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instruction: { type: 'string', description: 'Natural language instruction' },
+          language: {
+            type: 'string',
+            description: 'Language code of the instruction, e.g. "en" or "es". Detected automatically when omitted'
+          }
+        },
+        required: ['instruction']
+      }
+    },
+    {
+      name: RUN_FLOW_TOOL,
+      description: 'Executes a JSON command tree. Sequences run steps in order and can pass results between ' +
+        'steps with ${steps.<name>.data...} and ${vars.<name>} references; conditionals branch on ' +
+        'conditions such as {"appInstalled": "com.example.app"}, {"elementExists": {"label": "Login"}}, ' +
+        '{"simulatorBooted": true} or {"compare": {"left": "${vars.x}", "operator": "gt", "right": 0}}, ' +
+        'combined with "and", "or" and "not". "repeat" runs a command N times, "while"/"until" loop on a ' +
+        'condition (maxIterations, default 10) and "waitUntil" polls a condition (interval, timeout). ' +
+        '"parallel" runs {sessionId, command} branches concurrently, one per session (maxConcurrency, ' +
+        'policy "failFast" or "collectAll")',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          flow: {
+            type: 'object',
+            description: 'Command with "type" (e.g. "sequence", "conditional", "launchApp"), "parameters" and optional "name" and "outputs"'
+          }
+        },
+        required: ['flow']
+      }
+    },
+    ...commands.map(buildCommandTool)
+  ];
+}
+
+/**
+ * Finds the parser command exposed under a tool name
+ * @param toolName MCP tool name
+ * @param commands Commands supported by the parser
+ * @returns Matching command or undefined if none
+ */
+export function findCommandForTool(
+  toolName: string,
+  commands: SupportedCommand[]
+): SupportedCommand | undefined {
+  return commands.find(command => toolNameForCommand(command.command) === toolName);
+}
@@ -9,11 +9,88 @@ import {
   CommandResult, 
   CommandContext,
   SequenceCommand,
-  ConditionalCommand
+  ConditionalCommand,
+  ConditionExpression,
+  ConditionFunction,
+  RepeatCommand,
+  LoopCommand,
+  WaitUntilCommand,
+  ParallelCommand,
+  ParallelBranchResult,
+  ExecutionOptions,
+  OrchestratorOptions,
+  RetryPolicy
 } from './interfaces/IOrchestratorCommand.js';
 import { ParserToOrchestrator } from '../adapters/ParserToOrchestrator.js';
 import { OrchestratorToIDB } from '../adapters/OrchestratorToIDB.js';
-import { IIDBManager } from '../idb/interfaces/IIDBManager.js';
+import { IIDBManager, ProgressCallback } from '../idb/interfaces/IIDBManager.js';
+import { hasTemplates, resolveTemplates, storeOutputs } from './templating.js';
+import { ConditionEvaluator } from './conditions.js';
+import {
+  checkParameterValues,
+  parseFlow,
+  COMMAND_TIMEOUTS,
+  DEFAULT_COMMAND_RETRIES,
+  DEFAULT_COMMAND_TIMEOUT
+} from './flows.js';
+import { formatSuggestions } from '../parser/errors.js';
+import { summarizeBinaryData } from '../mcp/content.js';
+
+/**
+ * Hard limit of iterations of REPEAT, WHILE and UNTIL commands
+ */
+export const MAX_LOOP_ITERATIONS = 100;
+
+/**
+ * Default maximum iterations of WHILE and UNTIL commands
+ */
+const DEFAULT_MAX_ITERATIONS = 10;
+
+/**
+ * Default polling interval and timeout of WAIT_UNTIL commands, and their limits
+ */
+const DEFAULT_WAIT_INTERVAL = 1000;
+const DEFAULT_WAIT_TIMEOUT = 30000;
+const MIN_WAIT_INTERVAL = 100;
+const MAX_WAIT_TIMEOUT = 600000;
+
+/**
+ * Number of most recent commands kept in the command history
+ */
+export const COMMAND_HISTORY_LIMIT = 50;
+
+/**
+ * Default backoff between retries
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  initialDelay: 500,
+  factor: 2,
+  maxDelay: 5000
+};
+
+/**
+ * Waits for a number of milliseconds
+ * @param ms Milliseconds to wait
+ * @param signal Signal that interrupts the wait (optional)
+ * @returns true if the wait completed, false if it was interrupted
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
 /**
  * Implementation of the command factory
@@ -32,8 +109,8 @@ class CommandFactoryImpl {
       parameters,
       id: uuidv4(),
       description,
-      timeout: 30000, // 30 seconds by default
-      retries: 1      // 1 retry by default
+      timeout: COMMAND_TIMEOUTS[type] ?? DEFAULT_COMMAND_TIMEOUT,
+      retries: DEFAULT_COMMAND_RETRIES
     };
   }
 
@@ -57,13 +134,13 @@ class CommandFactoryImpl {
 
   /**
    * Creates a conditional command
-   * @param condition Condition function
+   * @param condition Condition expression or function
    * @param ifTrue Command to execute if condition is true
    * @param ifFalse Command to execute if condition is false
    * @returns Conditional command
    */
   createConditional(
-    condition: (context: CommandContext) => Promise<boolean>,
+    condition: ConditionExpression | ConditionFunction,
     ifTrue: IOrchestratorCommand,
     ifFalse?: IOrchestratorCommand
   ): ConditionalCommand {
@@ -99,36 +176,86 @@ export class MCPOrchestrator {
     timestamp: number;
   }> = [];
   private eventListeners: Record<string, Array<(data: any) => void>> = {};
+  private retryPolicy: RetryPolicy;
+  private conditionEvaluator: ConditionEvaluator;
 
   /**
    * Constructor
    * @param parser Natural language parser instance
    * @param idbManager IDB manager instance
+   * @param options Orchestrator configuration (optional)
    */
-  constructor(parser: IParser, idbManager: IIDBManager) {
+  constructor(parser: IParser, idbManager: IIDBManager, options: OrchestratorOptions = {}) {
     this.parser = parser;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
     this.idbManager = idbManager;
     this.commandFactory = new CommandFactoryImpl();
     this.parserToOrchestrator = new ParserToOrchestrator(this.commandFactory);
     this.orchestratorToIDB = new OrchestratorToIDB(idbManager);
+    this.conditionEvaluator = new ConditionEvaluator(idbManager);
   }
 
   /**
    * Processes a natural language instruction
    * @param instruction Natural language instruction
+   * @param options Execution options (optional)
    * @returns Execution result
    */
-  public async processInstruction(instruction: string): Promise<CommandResult> {
+  public async processInstruction(instruction: string, options: ExecutionOptions = {}): Promise<CommandResult> {
     try {
-      // Parse the instruction
-      const parseResult = await this.parser.parseInstruction(instruction);
+      // Parse the instruction, detecting its language unless one is given
+      const parseResult = options.language
+        ? await this.parser.parseInstruction(instruction, { language: options.language })
+        : await this.parser.parseInstruction(instruction);
       
+      return this.executeParsedCommand(parseResult, options);
+    } catch (error: any) {
+      console.error('Error processing instruction:', error);
+      return {
+        success: false,
+        error: error.message || 'Unknown error',
+        ...(error.suggestions?.length ? { data: { suggestions: error.suggestions } } : {}),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  /**
+   * Validates, normalizes and executes an already parsed command.
+   * Used directly by structured callers (e.g. MCP tools) to bypass the text parser.
+   * @param parseResult Parsed command with its parameters
+   * @param options Execution options (optional)
+   * @returns Execution result
+   */
+  public async executeParsedCommand(parseResult: ParseResult, options: ExecutionOptions = {}): Promise<CommandResult> {
+    try {
+      // Ask for clarification instead of guessing between equally likely commands
+      const ambiguousResult = [parseResult, ...(parseResult.steps || [])].find(result => result.ambiguous);
+      if (ambiguousResult) {
+        const candidates = [ambiguousResult, ...(ambiguousResult.alternatives || [])];
+        return {
+          success: false,
+          error: `Ambiguous instruction "${ambiguousResult.originalText}": it could mean ` +
+            `${candidates.map(candidate => `"${candidate.command}"`).join(' or ')}. Please rephrase it`,
+          data: {
+            candidates: candidates.map(candidate => ({
+              command: candidate.command,
+              parameters: candidate.parameters,
+              confidence: candidate.confidence
+            }))
+          },
+          timestamp: Date.now()
+        };
+      }
+
       // Validate the instruction
       const validationResult = await this.parser.validateInstruction(parseResult);
       if (!validationResult.isValid) {
+        const suggestions = validationResult.suggestions || [];
         return {
           success: false,
-          error: validationResult.errorMessage || 'Invalid instruction',
+          error: (validationResult.errorMessage || 'Invalid instruction') + formatSuggestions(suggestions),
+          ...(suggestions.length > 0 ? { data: { suggestions } } : {}),
           timestamp: Date.now()
         };
       }
@@ -139,10 +266,26 @@ export class MCPOrchestrator {
       // Convert to orchestrator command
       const command = this.parserToOrchestrator.convertToCommand(normalizedResult);
       
-      // Execute the command
-      return this.executeCommand(command);
+      // Execute the command. Text of instructions is never a template
+      const result = await this.executeCommand(command, { ...options, literal: true });
+
+      // Report how each step of a compound instruction was interpreted
+      if (normalizedResult.steps) {
+        return {
+          ...result,
+          data: {
+            ...result.data,
+            interpretation: normalizedResult.steps.map(step => ({
+              text: step.originalText,
+              command: step.command,
+              parameters: step.parameters
+            }))
+          }
+        };
+      }
+      return result;
     } catch (error: any) {
-      console.error('Error processing instruction:', error);
+      console.error('Error executing parsed command:', error);
       return {
         success: false,
         error: error.message || 'Unknown error',
@@ -151,26 +294,71 @@ export class MCPOrchestrator {
     }
   }
 
+  /**
+   * Executes a JSON command tree, such as a flow received from an MCP client or
+   * read from a file. Conditions must be serializable condition expressions
+   * @param flow JSON command
+   * @param options Execution options (optional)
+   * @returns Execution result
+   */
+  public async executeFlow(flow: unknown, options: ExecutionOptions = {}): Promise<CommandResult> {
+    let command: IOrchestratorCommand;
+    try {
+      command = parseFlow(flow);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Invalid flow: ${error.message}`,
+        timestamp: Date.now()
+      };
+    }
+    return this.executeCommand(command, options);
+  }
+
   /**
    * Executes an orchestrator command
    * @param command Command to execute
+   * @param options Execution options (optional)
    * @returns Execution result
    */
-  public async executeCommand(command: IOrchestratorCommand): Promise<CommandResult> {
+  public async executeCommand(command: IOrchestratorCommand, options: ExecutionOptions = {}): Promise<CommandResult> {
     try {
       let result: CommandResult;
       
       // Execute command based on its type
       if (command.type === CommandType.SEQUENCE) {
-        result = await this.executeSequenceCommand(command as SequenceCommand);
+        result = await this.executeSequenceCommand(command as SequenceCommand, options);
       } else if (command.type === CommandType.CONDITIONAL) {
-        result = await this.executeConditionalCommand(command as ConditionalCommand);
+        result = await this.executeConditionalCommand(command as ConditionalCommand, options);
+      } else if (command.type === CommandType.REPEAT) {
+        result = await this.executeRepeatCommand(command as RepeatCommand, options);
+      } else if (command.type === CommandType.WHILE || command.type === CommandType.UNTIL) {
+        result = await this.executeLoopCommand(command as LoopCommand, options);
+      } else if (command.type === CommandType.WAIT_UNTIL) {
+        result = await this.executeWaitUntilCommand(command as WaitUntilCommand, options);
+      } else if (command.type === CommandType.PARALLEL) {
+        result = await this.executeParallelCommand(command as ParallelCommand, options);
       } else {
+        const context: CommandContext = {
+          ...options.context,
+          sessionId: this.getSessionId(options)
+        };
+
+        // Resolve references to previous steps and variables of the enclosing sequence,
+        // checking the values they resolve to
+        if (!options.literal && hasTemplates(command.parameters)) {
+          const templated = Object.keys(command.parameters).filter(name => hasTemplates(command.parameters[name]));
+          const resolved = resolveTemplates(command.parameters, context);
+          const checked = checkParameterValues(
+            Object.fromEntries(templated.map(name => [name, resolved[name]])),
+            `${command.name || command.type}.parameters`
+          );
+          command = { ...command, parameters: { ...resolved, ...checked } };
+        }
+
         // Validate parameters if validation function exists
         if (command.validate) {
-          const isValid = await command.validate({ 
-            sessionId: this.activeSessionId || undefined 
-          });
+          const isValid = await command.validate(context);
           if (!isValid) {
             return {
               success: false,
@@ -182,34 +370,37 @@ export class MCPOrchestrator {
         
         // Transform parameters if transformation function exists
         if (command.transformParameters) {
-          command.parameters = await command.transformParameters({ 
-            sessionId: this.activeSessionId || undefined 
-          });
+          command.parameters = await command.transformParameters(context);
         }
         
         // Execute the command
-        result = await this.orchestratorToIDB.executeCommand(command, this.activeSessionId || undefined);
+        result = await this.executeWithRetries(command, options);
         
-        // If it's a session creation command and successful, save the session ID
-        if (command.type === CommandType.CREATE_SIMULATOR_SESSION && result.success && result.data) {
+        // If it's a session creation command and successful, save the session ID.
+        // Parallel branches are bound to their own session and do not change the active one
+        if (command.type === CommandType.CREATE_SIMULATOR_SESSION && result.success && result.data && !options.sessionId) {
           this.activeSessionId = result.data;
           this.emit('sessionCreated', { sessionId: this.activeSessionId });
         }
         
         // If it's a session termination command and successful, clear the session ID
-        if (command.type === CommandType.TERMINATE_SIMULATOR_SESSION && result.success) {
+        if (command.type === CommandType.TERMINATE_SIMULATOR_SESSION && result.success &&
+            (!options.sessionId || options.sessionId === this.activeSessionId)) {
           const oldSessionId = this.activeSessionId;
           this.activeSessionId = null;
           this.emit('sessionTerminated', { sessionId: oldSessionId });
         }
       }
       
-      // Save to history
+      // Save to history, without screenshots and other binary data kept in memory
       this.commandHistory.push({
         command,
-        result,
+        result: summarizeBinaryData(result) as CommandResult,
         timestamp: Date.now()
       });
+      if (this.commandHistory.length > COMMAND_HISTORY_LIMIT) {
+        this.commandHistory.splice(0, this.commandHistory.length - COMMAND_HISTORY_LIMIT);
+      }
       
       // Emit command executed event
       this.emit('commandExecuted', {
@@ -231,24 +422,57 @@ export class MCPOrchestrator {
   /**
    * Executes a sequence command
    * @param sequenceCommand Sequence command
+   * @param options Execution options
    * @returns Execution result
    */
-  private async executeSequenceCommand(sequenceCommand: SequenceCommand): Promise<CommandResult> {
+  private async executeSequenceCommand(
+    sequenceCommand: SequenceCommand,
+    options: ExecutionOptions
+  ): Promise<CommandResult> {
     const results: CommandResult[] = [];
-    const context: CommandContext = {
-      sessionId: this.activeSessionId || undefined,
-      previousResults: {},
-      variables: {}
+    // Nested sequences share the context of the enclosing one
+    const context: CommandContext = options.context || {
+      sessionId: this.getSessionId(options)
     };
+    context.previousResults = context.previousResults || {};
+    context.variables = { ...context.variables, ...sequenceCommand.parameters.variables };
     
     try {
+      const commands = sequenceCommand.parameters.commands;
+
       // Execute each command in sequence
-      for (const command of sequenceCommand.parameters.commands) {
-        const result = await this.executeCommand(command);
+      for (const [index, command] of commands.entries()) {
+        // Do not start further steps once the sequence has been cancelled
+        if (options.signal?.aborted) {
+          return this.cancelledSequenceResult(results, commands.length);
+        }
+
+        options.onProgress?.({
+          progress: index,
+          total: commands.length,
+          message: `Step ${index + 1}/${commands.length}: ${command.description || command.type}`
+        });
+
+        const result = await this.executeCommand(command, {
+          ...options,
+          context,
+          onProgress: this.scaleProgress(options.onProgress, index, commands.length)
+        });
         results.push(result);
         
-        // Save result in context
-        context.previousResults![command.id] = result;
+        // Save result in context, by ID and by step name
+        context.previousResults[command.id] = result;
+        if (command.name) {
+          context.previousResults[command.name] = result;
+        }
+        context.sessionId = this.getSessionId(options);
+        if (result.success && command.outputs) {
+          storeOutputs(command.outputs, result, context);
+        }
+        
+        if (result.cancelled) {
+          return this.cancelledSequenceResult(results, commands.length);
+        }
         
         // If there's an error and stopOnError is true, stop execution
         if (!result.success && sequenceCommand.parameters.stopOnError) {
@@ -257,7 +481,8 @@ export class MCPOrchestrator {
             data: {
               results,
               completedCommands: sequenceCommand.parameters.commands.indexOf(command) + 1,
-              totalCommands: sequenceCommand.parameters.commands.length
+              totalCommands: sequenceCommand.parameters.commands.length,
+              variables: context.variables
             },
             error: `Error in command ${command.id}: ${result.error}`,
             timestamp: Date.now()
@@ -266,12 +491,18 @@ export class MCPOrchestrator {
       }
       
       // All commands executed successfully
+      options.onProgress?.({
+        progress: commands.length,
+        total: commands.length,
+        message: `Completed ${commands.length} commands`
+      });
       return {
         success: true,
         data: {
           results,
           completedCommands: sequenceCommand.parameters.commands.length,
-          totalCommands: sequenceCommand.parameters.commands.length
+          totalCommands: sequenceCommand.parameters.commands.length,
+          variables: context.variables
         },
         timestamp: Date.now()
       };
@@ -290,27 +521,46 @@ export class MCPOrchestrator {
     }
   }
 
+  /**
+   * Builds the result of a cancelled sequence
+   * @param results Results of the steps executed so far
+   * @param totalCommands Number of steps of the sequence
+   * @returns Cancelled result
+   */
+  private cancelledSequenceResult(results: CommandResult[], totalCommands: number): CommandResult {
+    return {
+      success: false,
+      cancelled: true,
+      data: {
+        results,
+        completedCommands: results.length,
+        totalCommands
+      },
+      error: 'Sequence cancelled',
+      timestamp: Date.now()
+    };
+  }
+
   /**
    * Executes a conditional command
    * @param conditionalCommand Conditional command
+   * @param options Execution options
    * @returns Execution result
    */
-  private async executeConditionalCommand(conditionalCommand: ConditionalCommand): Promise<CommandResult> {
+  private async executeConditionalCommand(
+    conditionalCommand: ConditionalCommand,
+    options: ExecutionOptions
+  ): Promise<CommandResult> {
     try {
       // Evaluate condition
-      const context: CommandContext = {
-        sessionId: this.activeSessionId || undefined,
-        previousResults: {},
-        variables: {}
-      };
-      
-      const conditionResult = await conditionalCommand.parameters.condition(context);
+      const context = this.getContext(options);
+      const conditionResult = await this.evaluateCondition(conditionalCommand.parameters.condition, context, options);
       
       // Execute corresponding command based on condition result
       if (conditionResult) {
-        return this.executeCommand(conditionalCommand.parameters.ifTrue);
+        return this.executeCommand(conditionalCommand.parameters.ifTrue, { ...options, context });
       } else if (conditionalCommand.parameters.ifFalse) {
-        return this.executeCommand(conditionalCommand.parameters.ifFalse);
+        return this.executeCommand(conditionalCommand.parameters.ifFalse, { ...options, context });
       } else {
         // No command for false case
         return {
@@ -333,7 +583,466 @@ export class MCPOrchestrator {
   }
 
   /**
-   * Gets command history
+   * Executes a command a fixed number of times
+   * @param repeatCommand Repeat command
+   * @param options Execution options
+   * @returns Execution result with the result of every iteration
+   */
+  private async executeRepeatCommand(
+    repeatCommand: RepeatCommand,
+    options: ExecutionOptions
+  ): Promise<CommandResult> {
+    const { command, times, stopOnError = true } = repeatCommand.parameters;
+    if (!Number.isInteger(times) || times < 1 || times > MAX_LOOP_ITERATIONS) {
+      return {
+        success: false,
+        error: `Repeat times must be an integer between 1 and ${MAX_LOOP_ITERATIONS}`,
+        timestamp: Date.now()
+      };
+    }
+    return this.runIterations(command, times, stopOnError, options);
+  }
+
+  /**
+   * Executes a command while (WHILE) or until (UNTIL) a condition holds
+   * @param loopCommand Loop command
+   * @param options Execution options
+   * @returns Execution result with the result of every iteration
+   */
+  private async executeLoopCommand(
+    loopCommand: LoopCommand,
+    options: ExecutionOptions
+  ): Promise<CommandResult> {
+    const { condition, command, maxIterations = DEFAULT_MAX_ITERATIONS, stopOnError = true } = loopCommand.parameters;
+    if (!Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > MAX_LOOP_ITERATIONS) {
+      return {
+        success: false,
+        error: `Loop maxIterations must be an integer between 1 and ${MAX_LOOP_ITERATIONS}`,
+        timestamp: Date.now()
+      };
+    }
+
+    const expected = loopCommand.type === CommandType.WHILE;
+    return this.runIterations(command, maxIterations, stopOnError, options, async (context) =>
+      (await this.evaluateCondition(condition, context, options)) === expected
+    );
+  }
+
+  /**
+   * Runs the iterations of a REPEAT, WHILE or UNTIL command. The current
+   * iteration (starting at 0) is available to the command as `${vars.iteration}`
+   * @param command Command to execute on every iteration
+   * @param maxIterations Number of iterations, or limit when shouldContinue is given
+   * @param stopOnError Whether to stop at the first failed iteration
+   * @param options Execution options
+   * @param shouldContinue Checked before every iteration (optional)
+   * @returns Execution result with the result of every iteration
+   */
+  private async runIterations(
+    command: IOrchestratorCommand,
+    maxIterations: number,
+    stopOnError: boolean,
+    options: ExecutionOptions,
+    shouldContinue?: (context: CommandContext) => Promise<boolean>
+  ): Promise<CommandResult> {
+    const context = this.getContext(options);
+    const results: CommandResult[] = [];
+    const iterationsResult = (success: boolean, error?: string, cancelled?: boolean): CommandResult => ({
+      success,
+      cancelled,
+      data: { results, iterations: results.length },
+      error,
+      timestamp: Date.now()
+    });
+
+    try {
+      for (let iteration = 0; iteration < maxIterations; iteration++) {
+        if (options.signal?.aborted) {
+          return iterationsResult(false, 'Loop cancelled', true);
+        }
+        if (shouldContinue && !(await shouldContinue(context))) {
+          return iterationsResult(true);
+        }
+
+        options.onProgress?.({
+          progress: iteration,
+          total: maxIterations,
+          message: `Iteration ${iteration + 1}/${maxIterations}: ${command.description || command.type}`
+        });
+
+        context.variables = { ...context.variables, iteration };
+        const result = await this.executeCommand(command, {
+          ...options,
+          context,
+          onProgress: this.scaleProgress(options.onProgress, iteration, maxIterations)
+        });
+        results.push(result);
+
+        if (result.cancelled) {
+          return iterationsResult(false, 'Loop cancelled', true);
+        }
+        if (!result.success && stopOnError) {
+          return iterationsResult(false, `Error in iteration ${iteration + 1}: ${result.error}`);
+        }
+      }
+
+      // Never run more than maxIterations, even if the condition asks for more
+      if (shouldContinue && await shouldContinue(context)) {
+        return iterationsResult(false, `Loop condition still not satisfied after ${maxIterations} iterations`);
+      }
+      return iterationsResult(true);
+    } catch (error: any) {
+      console.error('Error executing loop:', error);
+      return iterationsResult(false, error.message || 'Unknown error');
+    }
+  }
+
+  /**
+   * Polls a condition until it holds or the timeout expires
+   * @param waitCommand Wait-until command
+   * @param options Execution options
+   * @returns Execution result with the result of every evaluation
+   */
+  private async executeWaitUntilCommand(
+    waitCommand: WaitUntilCommand,
+    options: ExecutionOptions
+  ): Promise<CommandResult> {
+    const { condition } = waitCommand.parameters;
+    const requestedInterval = waitCommand.parameters.interval ?? DEFAULT_WAIT_INTERVAL;
+    const requestedTimeout = waitCommand.parameters.timeout ?? DEFAULT_WAIT_TIMEOUT;
+    // NaN would get past the limits below and poll without delay or timeout
+    if (!Number.isFinite(requestedInterval) || requestedInterval <= 0 ||
+        !Number.isFinite(requestedTimeout) || requestedTimeout <= 0) {
+      return {
+        success: false,
+        error: 'Wait interval and timeout must be positive numbers of milliseconds',
+        timestamp: Date.now()
+      };
+    }
+    const interval = Math.max(requestedInterval, MIN_WAIT_INTERVAL);
+    const timeout = Math.min(requestedTimeout, MAX_WAIT_TIMEOUT);
+    const context = this.getContext(options);
+    const startTime = Date.now();
+    const results: Array<{ conditionResult: boolean; timestamp: number }> = [];
+    const waitResult = (success: boolean, error?: string, cancelled?: boolean): CommandResult => ({
+      success,
+      cancelled,
+      data: { results, iterations: results.length, elapsed: Date.now() - startTime },
+      error,
+      timestamp: Date.now()
+    });
+
+    try {
+      while (true) {
+        const conditionResult = await this.evaluateCondition(condition, context, options);
+        results.push({ conditionResult, timestamp: Date.now() });
+        if (conditionResult) {
+          return waitResult(true);
+        }
+
+        const elapsed = Date.now() - startTime;
+        if (elapsed >= timeout) {
+          return waitResult(false, `Condition not met after ${timeout}ms`);
+        }
+
+        options.onProgress?.({
+          progress: elapsed,
+          total: timeout,
+          message: `Waiting for condition (${results.length} checks)`
+        });
+
+        if (!(await wait(Math.min(interval, timeout - elapsed), options.signal))) {
+          return waitResult(false, 'Wait cancelled', true);
+        }
+      }
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        return waitResult(false, 'Wait cancelled', true);
+      }
+      console.error('Error waiting for condition:', error);
+      return waitResult(false, error.message || 'Unknown error');
+    }
+  }
+
+  /**
+   * Executes the branches of a parallel command concurrently, each bound to its own
+   * session. Branches start with a copy of the enclosing context, so their steps and
+   * variables do not leak into each other
+   * @param parallelCommand Parallel command
+   * @param options Execution options
+   * @returns Execution result with the outcome of every branch
+   */
+  private async executeParallelCommand(
+    parallelCommand: ParallelCommand,
+    options: ExecutionOptions
+  ): Promise<CommandResult> {
+    const { branches, policy = 'collectAll' } = parallelCommand.parameters;
+    const invalid = (error: string): CommandResult => ({ success: false, error, timestamp: Date.now() });
+
+    if (!Array.isArray(branches) || branches.length === 0) {
+      return invalid('Parallel branches must be a non-empty array');
+    }
+    const maxConcurrency = parallelCommand.parameters.maxConcurrency ?? branches.length;
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      return invalid('Parallel maxConcurrency must be a positive integer');
+    }
+    if (policy !== 'failFast' && policy !== 'collectAll') {
+      return invalid('Parallel policy must be failFast or collectAll');
+    }
+
+    const parentContext = this.getContext(options);
+    let sessionIds: string[];
+    try {
+      sessionIds = branches.map(branch => resolveTemplates(branch.sessionId, parentContext));
+    } catch (error: any) {
+      return invalid(error.message || 'Unknown error');
+    }
+    const missing = sessionIds.findIndex(sessionId => typeof sessionId !== 'string' || !sessionId);
+    if (missing !== -1) {
+      return invalid(`Parallel branch ${missing + 1} has no session ID`);
+    }
+    // Two branches driving the same simulator would interfere with each other
+    if (new Set(sessionIds).size !== sessionIds.length) {
+      return invalid('Parallel branches must run on different sessions');
+    }
+
+    // Cancels the running branches when the caller aborts or a branch fails (failFast)
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+
+    const outcomes: ParallelBranchResult[] = branches.map((branch, index) => ({
+      sessionId: sessionIds[index],
+      name: branch.name,
+      skipped: true
+    }));
+    const label = (outcome: ParallelBranchResult) => outcome.name || outcome.sessionId;
+    let nextBranch = 0;
+    let finishedBranches = 0;
+
+    const runBranch = async (index: number) => {
+      const result = await this.executeCommand(branches[index].command, {
+        signal: controller.signal,
+        sessionId: sessionIds[index],
+        context: {
+          sessionId: sessionIds[index],
+          previousResults: { ...parentContext.previousResults },
+          variables: { ...parentContext.variables }
+        }
+      });
+      outcomes[index] = { ...outcomes[index], skipped: false, result };
+
+      finishedBranches++;
+      options.onProgress?.({
+        progress: finishedBranches,
+        total: branches.length,
+        message: `Branch ${label(outcomes[index])} ${result.success ? 'completed' : 'failed'}`
+      });
+
+      if (!result.success && policy === 'failFast') {
+        controller.abort();
+      }
+    };
+
+    // Each worker takes the next pending branch until none is left
+    const worker = async () => {
+      while (nextBranch < branches.length && !controller.signal.aborted) {
+        await runBranch(nextBranch++);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(maxConcurrency, branches.length) }, worker));
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const failures = outcomes.filter(outcome => outcome.result && !outcome.result.success && !outcome.result.cancelled);
+    const data = {
+      branches: outcomes,
+      succeeded: outcomes.filter(outcome => outcome.result?.success).length,
+      failed: failures.length,
+      cancelled: outcomes.filter(outcome => outcome.result?.cancelled).length,
+      skipped: outcomes.filter(outcome => outcome.skipped).length,
+      total: branches.length
+    };
+
+    if (options.signal?.aborted) {
+      return { success: false, cancelled: true, data, error: 'Parallel execution cancelled', timestamp: Date.now() };
+    }
+    if (failures.length > 0) {
+      return {
+        success: false,
+        data,
+        error: `${failures.length} of ${branches.length} branches failed: ` +
+          failures.map(outcome => `${label(outcome)}: ${outcome.result?.error}`).join('; '),
+        timestamp: Date.now()
+      };
+    }
+    return { success: true, data, timestamp: Date.now() };
+  }
+
+  /**
+   * Gets the session a command runs on: the one bound by a parallel branch or the active one
+   * @param options Execution options
+   * @returns Session ID or undefined if there is none
+   */
+  private getSessionId(options: ExecutionOptions): string | undefined {
+    return options.sessionId || this.activeSessionId || undefined;
+  }
+
+  /**
+   * Gets the context of the enclosing sequence or creates a new one
+   * @param options Execution options
+   * @returns Command context
+   */
+  private getContext(options: ExecutionOptions): CommandContext {
+    return options.context || {
+      sessionId: this.getSessionId(options),
+      previousResults: {},
+      variables: {}
+    };
+  }
+
+  /**
+   * Evaluates a condition expression or function, binding idb processes to the abort signal
+   * @param condition Condition to evaluate
+   * @param context Command context
+   * @param options Execution options
+   * @returns Condition result
+   */
+  private async evaluateCondition(
+    condition: ConditionExpression | ConditionFunction,
+    context: CommandContext,
+    options: ExecutionOptions
+  ): Promise<boolean> {
+    const evaluate = () => typeof condition === 'function'
+      ? condition(context)
+      : this.conditionEvaluator.evaluate(condition, context);
+    return options.signal && this.idbManager.runWithSignal
+      ? this.idbManager.runWithSignal(options.signal, evaluate)
+      : evaluate();
+  }
+
+  /**
+   * Executes a simple command enforcing its timeout and retrying transient failures
+   * with exponential backoff
+   * @param command Command to execute
+   * @param options Execution options
+   * @returns Result of the last attempt
+   */
+  private async executeWithRetries(command: IOrchestratorCommand, options: ExecutionOptions): Promise<CommandResult> {
+    const maxAttempts = 1 + Math.max(0, command.retries ?? 0);
+    let result: CommandResult;
+    let attempt = 0;
+
+    while (true) {
+      attempt++;
+      result = await this.executeAttempt(command, options);
+
+      if (result.success || !result.transient || result.cancelled || attempt >= maxAttempts) {
+        break;
+      }
+
+      const backoff = Math.min(
+        this.retryPolicy.initialDelay * Math.pow(this.retryPolicy.factor, attempt - 1),
+        this.retryPolicy.maxDelay
+      );
+      console.error(`Command ${command.type} failed (attempt ${attempt}/${maxAttempts}), retrying in ${backoff}ms: ${result.error}`);
+
+      if (!(await wait(backoff, options.signal))) {
+        result = {
+          success: false,
+          error: `Command ${command.type} cancelled`,
+          cancelled: true,
+          timestamp: Date.now()
+        };
+        break;
+      }
+    }
+
+    return { ...result, attempts: attempt };
+  }
+
+  /**
+   * Executes a single attempt of a simple command. When the command has a timeout,
+   * the attempt is aborted at the deadline, which kills the underlying process.
+   * Timeouts are not retried, since the command may already have had its effect
+   * @param command Command to execute
+   * @param options Execution options
+   * @returns Attempt result
+   */
+  private async executeAttempt(command: IOrchestratorCommand, options: ExecutionOptions): Promise<CommandResult> {
+    const sessionId = this.getSessionId(options);
+    if (!command.timeout || command.timeout <= 0) {
+      return this.orchestratorToIDB.executeCommand(command, sessionId, options);
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, command.timeout);
+
+    try {
+      const result = await this.orchestratorToIDB.executeCommand(command, sessionId, {
+        ...options,
+        signal: controller.signal
+      });
+
+      if (timedOut && !options.signal?.aborted && !result.success) {
+        return {
+          success: false,
+          error: `Command ${command.type} timed out after ${command.timeout}ms`,
+          timestamp: Date.now()
+        };
+      }
+      return result;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Maps the progress of a sequence step into the [step, step + 1) range of the
+   * sequence, so nested updates keep increasing from the client's point of view
+   * @param onProgress Progress callback of the sequence
+   * @param step Index of the step
+   * @param total Number of steps of the sequence
+   * @returns Progress callback for the step or undefined if none
+   */
+  private scaleProgress(
+    onProgress: ProgressCallback | undefined,
+    step: number,
+    total: number
+  ): ProgressCallback | undefined {
+    if (!onProgress) {
+      return undefined;
+    }
+    return (update) => {
+      const fraction = update.total ? Math.min(update.progress / update.total, 1) : 0;
+      onProgress({
+        progress: step + fraction * 0.99,
+        total,
+        message: update.message
+      });
+    };
+  }
+
+  /**
+   * Gets command history: the last COMMAND_HISTORY_LIMIT commands, with Buffers in
+   * their results replaced by summaries of their size and type
    * @param limit Command limit to return (optional)
    * @returns Command history
    */
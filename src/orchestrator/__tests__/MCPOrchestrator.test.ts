@@ -1,7 +1,9 @@
 import { jest } from '@jest/globals';
-import { MCPOrchestrator } from '../MCPOrchestrator.js';
+import { MCPOrchestrator, COMMAND_HISTORY_LIMIT } from '../MCPOrchestrator.js';
+import { parseFlow } from '../flows.js';
 import { IParser, ParseResult, ValidationResult } from '../../parser/interfaces/IParser.js';
 import { IIDBManager } from '../../idb/interfaces/IIDBManager.js';
+import { IDBCommandError } from '../../idb/errors.js';
 import { CommandType, CommandResult, IOrchestratorCommand } from '../interfaces/IOrchestratorCommand.js';
 
 // Mock implementations
@@ -54,7 +56,7 @@ describe('MCPOrchestrator', () => {
     it('should process a valid instruction successfully', async () => {
       const instruction = 'lanzar app com.example.app';
       const parseResult: ParseResult = {
-        command: 'lanzar app',
+        command: 'launch app',
         parameters: { bundleId: 'com.example.app' },
         confidence: 1.0,
         originalText: instruction
@@ -95,6 +97,67 @@ describe('MCPOrchestrator', () => {
       expect(result.success).toBe(false);
       expect(result.error).toBe('Invalid command');
     });
+
+    it('should include suggestions in the error', async () => {
+      const parseResult: ParseResult = {
+        command: 'launch app',
+        parameters: {},
+        confidence: 0.9,
+        originalText: 'launch app'
+      };
+
+      mockParser.parseInstruction.mockResolvedValue(parseResult);
+      mockParser.validateInstruction.mockResolvedValue({
+        isValid: false,
+        errorMessage: 'Missing required parameters: bundleId',
+        suggestions: ['launch app com.example.app']
+      });
+
+      const result = await orchestrator.processInstruction('launch app');
+      expect(result.error).toBe('Missing required parameters: bundleId. Did you mean: "launch app com.example.app"?');
+      expect(result.data.suggestions).toEqual(['launch app com.example.app']);
+    });
+  });
+
+  describe('executeParsedCommand', () => {
+    it('should execute a structured command without parsing text', async () => {
+      const parseResult: ParseResult = {
+        command: 'tap',
+        parameters: { x: 100, y: 200 },
+        confidence: 1.0,
+        originalText: 'tap {"x":100,"y":200}'
+      };
+
+      mockParser.validateInstruction.mockResolvedValue({ isValid: true });
+      mockParser.normalizeParameters.mockResolvedValue(parseResult);
+      mockIDBManager.tap.mockResolvedValue();
+
+      const result = await orchestrator.executeParsedCommand(parseResult);
+      expect(result.success).toBe(true);
+      expect(mockParser.parseInstruction).not.toHaveBeenCalled();
+      expect(mockIDBManager.tap).toHaveBeenCalledWith('', 100, 200, undefined);
+    });
+
+    it('should refuse ambiguous instructions and report the candidates', async () => {
+      const result = await orchestrator.executeParsedCommand({
+        command: 'create session',
+        parameters: { deviceName: 'iPhone' },
+        confidence: 0.8,
+        originalText: 'start simulator iPhone',
+        ambiguous: true,
+        alternatives: [
+          { command: 'boot simulator', parameters: { udid: 'iPhone' }, confidence: 0.78, originalText: 'start simulator iPhone' }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        'Ambiguous instruction "start simulator iPhone": it could mean "create session" or "boot simulator". Please rephrase it'
+      );
+      expect(result.data.candidates.map((candidate: any) => candidate.command)).toEqual(['create session', 'boot simulator']);
+      expect(mockParser.validateInstruction).not.toHaveBeenCalled();
+      expect(mockIDBManager.createSimulatorSession).not.toHaveBeenCalled();
+    });
   });
 
   describe('executeCommand', () => {
@@ -146,6 +209,656 @@ describe('MCPOrchestrator', () => {
     });
   });
 
+  describe('element commands', () => {
+    const elements = [
+      { label: 'Email', type: 'TextField', frame: { x: 20, y: 100, width: 200, height: 40 } },
+      { label: 'Login', type: 'Button', frame: { x: 20, y: 200, width: 100, height: 50 } }
+    ];
+    let idbManager: jest.Mocked<IIDBManager>;
+
+    beforeEach(() => {
+      idbManager = {
+        ...mockIDBManager,
+        describeAllElements: jest.fn<NonNullable<IIDBManager['describeAllElements']>>().mockResolvedValue(elements),
+        inputText: jest.fn<NonNullable<IIDBManager['inputText']>>().mockResolvedValue()
+      };
+      orchestrator = new MCPOrchestrator(mockParser, idbManager);
+    });
+
+    it('should tap the centre of the element', async () => {
+      const result = await orchestrator.executeCommand({
+        id: 'tap-login',
+        type: CommandType.TAP_ELEMENT,
+        parameters: { element: 'login', elementType: 'button', sessionId: 'session-1' }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ element: { label: 'Login' }, x: 70, y: 225 });
+      expect(idbManager.tap).toHaveBeenCalledWith('session-1', 70, 225);
+    });
+
+    it('should focus the element before typing into it', async () => {
+      const result = await orchestrator.executeCommand({
+        id: 'type-email',
+        type: CommandType.INPUT_TEXT_INTO_ELEMENT,
+        parameters: { element: 'Email', text: 'me@example.com', sessionId: 'session-1' }
+      });
+
+      expect(result.success).toBe(true);
+      expect(idbManager.tap).toHaveBeenCalledWith('session-1', 120, 120);
+      expect(idbManager.inputText).toHaveBeenCalledWith('session-1', 'me@example.com');
+    });
+
+    it('should fail listing the elements on screen when none matches', async () => {
+      const result = await orchestrator.executeCommand({
+        id: 'tap-register',
+        type: CommandType.TAP_ELEMENT,
+        parameters: { element: 'Register', sessionId: 'session-1' }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        'No element matches "Register". Elements on screen: "Email" (TextField) at 120, 120; "Login" (Button) at 70, 225'
+      );
+      expect(idbManager.tap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('gestures', () => {
+    it('should compute scrolls from the screen size', async () => {
+      const idbManager: jest.Mocked<IIDBManager> = {
+        ...mockIDBManager,
+        getScreenSize: jest.fn<NonNullable<IIDBManager['getScreenSize']>>().mockResolvedValue({ width: 400, height: 800 })
+      };
+      orchestrator = new MCPOrchestrator(mockParser, idbManager);
+
+      const result = await orchestrator.executeCommand({
+        id: 'scroll',
+        type: CommandType.SCROLL,
+        parameters: { direction: 'down', sessionId: 'session-1' }
+      });
+
+      expect(result.success).toBe(true);
+      expect(idbManager.swipe).toHaveBeenCalledWith('session-1', 200, 600, 200, 200, undefined);
+    });
+
+    it('should hold long presses for a second by default', async () => {
+      await orchestrator.executeCommand({
+        id: 'long-press',
+        type: CommandType.LONG_PRESS,
+        parameters: { x: 10, y: 20, sessionId: 'session-1' }
+      });
+
+      expect(mockIDBManager.tap).toHaveBeenCalledWith('session-1', 10, 20, 1000);
+    });
+
+    it('should report pinches the IDB manager cannot perform', async () => {
+      const result = await orchestrator.executeCommand({
+        id: 'zoom',
+        type: CommandType.PINCH,
+        parameters: { scale: 2, sessionId: 'session-1' }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Operation pinch is not supported by the IDB manager');
+    });
+  });
+
+  describe('sequence variables', () => {
+    it('should pass results of previous steps to later steps', async () => {
+      mockIDBManager.installApp.mockResolvedValue({ bundleId: 'com.example.installed', name: 'Installed' });
+      mockIDBManager.launchApp.mockResolvedValue();
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.SEQUENCE,
+        parameters: {
+          commands: [
+            {
+              type: CommandType.INSTALL_APP,
+              parameters: { appPath: '${vars.appPath}' },
+              id: '1',
+              name: 'install',
+              outputs: { installedBundleId: 'data.bundleId' }
+            },
+            {
+              type: CommandType.LAUNCH_APP,
+              parameters: { bundleId: '${steps.install.data.bundleId}' },
+              id: '2'
+            },
+            {
+              type: CommandType.TERMINATE_APP,
+              parameters: { bundleId: '${vars.installedBundleId}' },
+              id: '3'
+            }
+          ],
+          stopOnError: true,
+          variables: { appPath: '/path/to/app.ipa' }
+        },
+        id: '789'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockIDBManager.installApp).toHaveBeenCalledWith('', '/path/to/app.ipa', undefined);
+      expect(mockIDBManager.launchApp).toHaveBeenCalledWith('', 'com.example.installed');
+      expect(mockIDBManager.terminateApp).toHaveBeenCalledWith('', 'com.example.installed');
+      expect(result.data.variables).toEqual({
+        appPath: '/path/to/app.ipa',
+        installedBundleId: 'com.example.installed'
+      });
+    });
+
+    it('should fail the step when a reference cannot be resolved', async () => {
+      const result = await orchestrator.executeCommand({
+        type: CommandType.SEQUENCE,
+        parameters: {
+          commands: [
+            {
+              type: CommandType.LAUNCH_APP,
+              parameters: { bundleId: '${steps.install.data.bundleId}' },
+              id: '1'
+            }
+          ],
+          stopOnError: true
+        },
+        id: '789'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Unresolved reference "${steps.install.data.bundleId}"');
+      expect(mockIDBManager.launchApp).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('executeFlow', () => {
+    it('should run serializable conditional flows', async () => {
+      orchestrator.setActiveSessionId('session_1');
+      mockIDBManager.isAppInstalled.mockResolvedValue(false);
+      mockIDBManager.installApp.mockResolvedValue({ bundleId: 'com.example.app', name: 'Example' });
+
+      const flow = {
+        type: 'conditional',
+        parameters: {
+          condition: { not: { appInstalled: 'com.example.app' } },
+          ifTrue: { type: 'installApp', parameters: { appPath: '/path/to/app.ipa' } }
+        }
+      };
+      const result = await orchestrator.executeFlow(JSON.parse(JSON.stringify(flow)));
+
+      expect(result.success).toBe(true);
+      expect(mockIDBManager.isAppInstalled).toHaveBeenCalledWith('session_1', 'com.example.app');
+      expect(mockIDBManager.installApp).toHaveBeenCalledWith('session_1', '/path/to/app.ipa', undefined);
+    });
+
+    it('should reject invalid flows without executing them', async () => {
+      const result = await orchestrator.executeFlow({
+        type: 'sequence',
+        parameters: { commands: [{ type: 'tap', parameters: { x: 1, y: 2 } }, { type: 'explode' }] }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^Invalid flow: flow\.parameters\.commands\[1\]\.type must be one of/);
+      expect(mockIDBManager.tap).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [{ type: 'waitUntil', parameters: { condition: { appInstalled: 'com.foo' }, interval: 'abc' } },
+        'flow.parameters.interval must be a positive number'],
+      [{ type: 'waitUntil', parameters: { condition: { appInstalled: 'com.foo' }, timeout: -1 } },
+        'flow.parameters.timeout must be a positive number'],
+      [{ type: 'repeat', parameters: { command: { type: 'pressButton', parameters: { button: 'HOME' } }, times: 'abc' } },
+        'flow.parameters.times must be a positive integer'],
+      [{ type: 'while', parameters: { condition: { appInstalled: 'com.foo' }, command: { type: 'pressButton', parameters: { button: 'HOME' } }, maxIterations: 1.5 } },
+        'flow.parameters.maxIterations must be a positive integer']
+    ])('should reject invalid limits of composite commands: %j', async (flow, error) => {
+      const result = await orchestrator.executeFlow(flow);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(`Invalid flow: ${error}`);
+    });
+
+    it.each([
+      [{ type: 'tap' }, 'flow.parameters.x is required'],
+      [{ type: 'tap', parameters: { x: 'abc', y: 2 } }, 'flow.parameters.x must be a number'],
+      [{ type: 'sequence', parameters: { commands: [{ type: 'pressButton', parameters: { button: 'POWER' } }] } },
+        'flow.parameters.commands[0].parameters.button must be one of: APPLE_PAY, HOME, LOCK, SIDE_BUTTON, SIRI'],
+      [{ type: 'tap', parameters: { x: 1, y: 2 }, timeout: 0 }, 'flow.timeout must be a positive number']
+    ])('should check the parameters of simple commands: %j', async (flow, error) => {
+      const result = await orchestrator.executeFlow(flow);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(`Invalid flow: ${error}`);
+      expect(mockIDBManager.tap).not.toHaveBeenCalled();
+    });
+
+    it('should give simple commands the default timeout and retries', () => {
+      const flow = parseFlow({ type: 'sequence', parameters: { commands: [{ type: 'tap', parameters: { x: '10', y: 20 } }] } });
+      const [tap] = flow.parameters.commands;
+
+      expect(tap).toMatchObject({ parameters: { x: 10, y: 20 }, timeout: 30000, retries: 1 });
+      expect(parseFlow({ type: 'installApp', parameters: { appPath: '/path/to/app.ipa' } }).timeout).toBe(300000);
+      expect(flow.timeout).toBeUndefined();
+    });
+
+    it('should resolve references of flow commands, keeping escaped ones as text', async () => {
+      orchestrator.setActiveSessionId('session_1');
+      mockIDBManager.takeScreenshot.mockResolvedValue('/tmp/session_1.png');
+
+      const result = await orchestrator.executeFlow({
+        type: 'takeScreenshot',
+        parameters: { outputPath: '/tmp/$${name}/${sessionId}.png' }
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockIDBManager.takeScreenshot).toHaveBeenCalledWith('session_1', '/tmp/${name}/session_1.png');
+    });
+
+    it('should check values of references once resolved', async () => {
+      const result = await orchestrator.executeFlow({
+        type: 'sequence',
+        parameters: {
+          commands: [{ type: 'tap', parameters: { x: '${vars.x}', y: 2 } }],
+          stopOnError: true,
+          variables: { x: 'abc' }
+        }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('tap.parameters.x must be a number');
+      expect(mockIDBManager.tap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loops', () => {
+    const swipeUp: IOrchestratorCommand = {
+      type: CommandType.SWIPE,
+      parameters: { startX: 200, startY: 600, endX: 200, endY: 200 },
+      id: 'swipe'
+    };
+
+    it('should repeat a command and expose the iteration', async () => {
+      mockIDBManager.tap.mockResolvedValue();
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.REPEAT,
+        parameters: {
+          command: { type: CommandType.TAP, parameters: { x: '${vars.iteration}', y: 10 }, id: 'tap' },
+          times: 3
+        },
+        id: 'repeat'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.iterations).toBe(3);
+      expect(result.data.results).toHaveLength(3);
+      expect(mockIDBManager.tap.mock.calls.map(call => call[1])).toEqual([0, 1, 2]);
+    });
+
+    it('should run until the condition holds', async () => {
+      mockIDBManager.swipe.mockResolvedValue();
+      const condition = jest.fn(async () => mockIDBManager.swipe.mock.calls.length >= 2);
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.UNTIL,
+        parameters: { condition, command: swipeUp, maxIterations: 10 },
+        id: 'until'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.iterations).toBe(2);
+      expect(mockIDBManager.swipe).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail once the maximum number of iterations is reached', async () => {
+      mockIDBManager.swipe.mockResolvedValue();
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.WHILE,
+        parameters: { condition: async () => true, command: swipeUp, maxIterations: 3 },
+        id: 'while'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Loop condition still not satisfied after 3 iterations');
+      expect(mockIDBManager.swipe).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject iteration counts above the limit', async () => {
+      const result = await orchestrator.executeCommand({
+        type: CommandType.REPEAT,
+        parameters: { command: swipeUp, times: 1000 },
+        id: 'repeat'
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockIDBManager.swipe).not.toHaveBeenCalled();
+    });
+
+    it('should poll a condition until it holds', async () => {
+      let checks = 0;
+      const result = await orchestrator.executeCommand({
+        type: CommandType.WAIT_UNTIL,
+        parameters: { condition: async () => ++checks === 3, interval: 100, timeout: 5000 },
+        id: 'wait'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data.results.map((check: any) => check.conditionResult)).toEqual([false, false, true]);
+    });
+
+    it('should stop waiting at the timeout', async () => {
+      const result = await orchestrator.executeCommand({
+        type: CommandType.WAIT_UNTIL,
+        parameters: { condition: async () => false, interval: 100, timeout: 150 },
+        id: 'wait'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Condition not met after 150ms');
+      expect(result.data.iterations).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should reject intervals and timeouts that are not numbers', async () => {
+      const condition = jest.fn(async () => false);
+      const result = await orchestrator.executeCommand({
+        type: CommandType.WAIT_UNTIL,
+        parameters: { condition, interval: 'abc', timeout: 'abc' },
+        id: 'wait'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Wait interval and timeout must be positive numbers of milliseconds');
+      expect(condition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parallel', () => {
+    const tapBranch = (sessionId: string, name?: string) => ({
+      sessionId,
+      name,
+      command: { type: CommandType.TAP, parameters: { x: 10, y: 20 }, id: `tap_${sessionId}` }
+    });
+
+    it('should run every branch concurrently on its own session', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      mockIDBManager.tap.mockImplementation(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+      });
+      orchestrator.setActiveSessionId('session_active');
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.PARALLEL,
+        parameters: { branches: [tapBranch('iphone_se', 'iPhone SE'), tapBranch('ipad')] },
+        id: 'parallel'
+      });
+
+      expect(result.success).toBe(true);
+      expect(maxRunning).toBe(2);
+      expect(mockIDBManager.tap.mock.calls.map(call => call[0]).sort()).toEqual(['ipad', 'iphone_se']);
+      expect(result.data).toMatchObject({ succeeded: 2, failed: 0, skipped: 0, total: 2 });
+      expect(result.data.branches.map((branch: any) => branch.name)).toEqual(['iPhone SE', undefined]);
+      expect(orchestrator.getActiveSessionId()).toBe('session_active');
+    });
+
+    it('should limit the number of branches running at once', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      mockIDBManager.tap.mockImplementation(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+      });
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.PARALLEL,
+        parameters: { branches: [tapBranch('a'), tapBranch('b'), tapBranch('c')], maxConcurrency: 2 },
+        id: 'parallel'
+      });
+
+      expect(result.success).toBe(true);
+      expect(maxRunning).toBe(2);
+      expect(mockIDBManager.tap).toHaveBeenCalledTimes(3);
+    });
+
+    it('should collect the outcome of every branch by default', async () => {
+      mockIDBManager.tap.mockImplementation(async (sessionId) => {
+        if (sessionId === 'ipad') {
+          throw new Error('App crashed');
+        }
+      });
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.PARALLEL,
+        parameters: { branches: [tapBranch('ipad', 'iPad'), tapBranch('iphone_se')] },
+        id: 'parallel'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('1 of 2 branches failed: iPad: App crashed');
+      expect(result.data).toMatchObject({ succeeded: 1, failed: 1, skipped: 0 });
+    });
+
+    it('should skip the remaining branches on failure with failFast', async () => {
+      mockIDBManager.tap.mockRejectedValue(new Error('App crashed'));
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.PARALLEL,
+        parameters: { branches: [tapBranch('a'), tapBranch('b')], maxConcurrency: 1, policy: 'failFast' },
+        id: 'parallel'
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockIDBManager.tap).toHaveBeenCalledTimes(1);
+      expect(result.data).toMatchObject({ failed: 1, skipped: 1 });
+    });
+
+    it('should reject branches sharing a session', async () => {
+      const result = await orchestrator.executeCommand({
+        type: CommandType.PARALLEL,
+        parameters: { branches: [tapBranch('a'), tapBranch('a')] },
+        id: 'parallel'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Parallel branches must run on different sessions');
+      expect(mockIDBManager.tap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('progress reporting', () => {
+    it('should forward progress of long-running commands', async () => {
+      const command: IOrchestratorCommand = {
+        type: CommandType.BOOT_SIMULATOR,
+        parameters: { udid: 'ABC' },
+        id: '123',
+        description: 'Boot simulator'
+      };
+      const onProgress = jest.fn();
+
+      mockIDBManager.bootSimulatorByUDID.mockImplementation(async (udid, progress) => {
+        progress?.({ progress: 1, total: 30, message: `Waiting for ${udid}` });
+      });
+
+      const result = await orchestrator.executeCommand(command, { onProgress });
+      expect(result.success).toBe(true);
+      expect(onProgress).toHaveBeenCalledWith({ progress: 1, total: 30, message: 'Waiting for ABC' });
+    });
+
+    it('should report sequence steps with increasing progress', async () => {
+      const command: IOrchestratorCommand = {
+        type: CommandType.SEQUENCE,
+        parameters: {
+          commands: [
+            {
+              type: CommandType.BOOT_SIMULATOR,
+              parameters: { udid: 'ABC' },
+              id: '123',
+              description: 'Boot simulator'
+            },
+            {
+              type: CommandType.TAP,
+              parameters: { x: 100, y: 200 },
+              id: '456',
+              description: 'Tap screen'
+            }
+          ],
+          stopOnError: true
+        },
+        id: '789'
+      };
+      const updates: Array<{ progress: number; total?: number; message?: string }> = [];
+
+      mockIDBManager.bootSimulatorByUDID.mockImplementation(async (_udid, progress) => {
+        progress?.({ progress: 15, total: 30, message: 'Booting' });
+      });
+      mockIDBManager.tap.mockResolvedValue();
+
+      await orchestrator.executeCommand(command, { onProgress: update => updates.push(update) });
+
+      expect(updates.map(update => update.message)).toEqual([
+        'Step 1/2: Boot simulator',
+        'Booting',
+        'Step 2/2: Tap screen',
+        'Completed 2 commands'
+      ]);
+      expect(updates.every(update => update.total === 2)).toBe(true);
+      for (let i = 1; i < updates.length; i++) {
+        expect(updates[i].progress).toBeGreaterThan(updates[i - 1].progress);
+      }
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should stop a sequence with a cancelled result when aborted', async () => {
+      const controller = new AbortController();
+      const command: IOrchestratorCommand = {
+        type: CommandType.SEQUENCE,
+        parameters: {
+          commands: [
+            {
+              type: CommandType.LAUNCH_APP,
+              parameters: { bundleId: 'com.example.app' },
+              id: '123'
+            },
+            {
+              type: CommandType.TAP,
+              parameters: { x: 100, y: 200 },
+              id: '456'
+            }
+          ],
+          stopOnError: false
+        },
+        id: '789'
+      };
+
+      mockIDBManager.launchApp.mockImplementation(async () => {
+        controller.abort();
+      });
+
+      const result = await orchestrator.executeCommand(command, { signal: controller.signal });
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.data.completedCommands).toBe(1);
+      expect(mockIDBManager.tap).not.toHaveBeenCalled();
+    });
+
+    it('should not execute commands whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await orchestrator.executeCommand({
+        type: CommandType.TAP,
+        parameters: { x: 100, y: 200 },
+        id: '123'
+      }, { signal: controller.signal });
+
+      expect(result.cancelled).toBe(true);
+      expect(mockIDBManager.tap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeouts and retries', () => {
+    const tapCommand = (overrides: Partial<IOrchestratorCommand> = {}): IOrchestratorCommand => ({
+      type: CommandType.TAP,
+      parameters: { x: 100, y: 200 },
+      id: '123',
+      ...overrides
+    });
+
+    beforeEach(() => {
+      orchestrator = new MCPOrchestrator(mockParser, mockIDBManager, {
+        retryPolicy: { initialDelay: 1, factor: 2, maxDelay: 5 }
+      });
+    });
+
+    it('should retry transient errors and record the attempts', async () => {
+      mockIDBManager.tap
+        .mockRejectedValueOnce(new IDBCommandError('idb ui tap 100 200', 'Companion not connected'))
+        .mockResolvedValueOnce();
+
+      const result = await orchestrator.executeCommand(tapCommand({ retries: 2 }));
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(2);
+      expect(mockIDBManager.tap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      mockIDBManager.tap.mockRejectedValue(new IDBCommandError('idb ui tap 100 200', 'Invalid coordinates'));
+
+      const result = await orchestrator.executeCommand(tapCommand({ retries: 2 }));
+      expect(result.success).toBe(false);
+      expect(result.transient).toBe(false);
+      expect(result.attempts).toBe(1);
+      expect(mockIDBManager.tap).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying after the configured number of retries', async () => {
+      mockIDBManager.tap.mockRejectedValue(new IDBCommandError('idb ui tap 100 200', 'Device busy'));
+
+      const result = await orchestrator.executeCommand(tapCommand({ retries: 1 }));
+      expect(result.success).toBe(false);
+      expect(result.attempts).toBe(2);
+      expect(mockIDBManager.tap).toHaveBeenCalledTimes(2);
+    });
+
+    it('should abort the command at its deadline', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      const runWithSignal = jest.fn(async (signal: AbortSignal, operation: () => Promise<any>) => {
+        receivedSignal = signal;
+        return operation();
+      });
+      orchestrator = new MCPOrchestrator(mockParser, { ...mockIDBManager, runWithSignal } as IIDBManager);
+      mockIDBManager.tap.mockImplementationOnce(() => new Promise(() => {}));
+
+      const result = await orchestrator.executeCommand(tapCommand({ timeout: 20 }));
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBeFalsy();
+      expect(result.error).toBe('Command tap timed out after 20ms');
+      expect(result.attempts).toBe(1);
+      expect(receivedSignal?.aborted).toBe(true);
+    });
+
+    it('should not retry commands that timed out', async () => {
+      mockIDBManager.tap.mockImplementation(() => new Promise(() => {}));
+
+      const result = await orchestrator.executeCommand(tapCommand({ timeout: 20, retries: 2 }));
+      expect(result.error).toBe('Command tap timed out after 20ms');
+      expect(result.transient).toBeFalsy();
+      expect(result.attempts).toBe(1);
+      expect(mockIDBManager.tap).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry errors that are not idb failures', async () => {
+      mockIDBManager.tap.mockRejectedValue(Object.assign(new Error('Device busy'), { transient: true }));
+
+      const result = await orchestrator.executeCommand(tapCommand({ retries: 2 }));
+      expect(result.attempts).toBe(1);
+      expect(mockIDBManager.tap).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('session management', () => {
     it('should manage session ID correctly', () => {
       const sessionId = 'test-session-123';
@@ -215,6 +928,22 @@ describe('MCPOrchestrator', () => {
       expect(limitedHistory.length).toBe(1);
       expect(limitedHistory[0].command).toEqual(command2);
     });
+
+    it('should keep only the most recent commands, without binary data', async () => {
+      const screenshot = Buffer.alloc(1024);
+      mockIDBManager.takeScreenshot.mockResolvedValue(screenshot);
+
+      for (let i = 0; i < COMMAND_HISTORY_LIMIT + 5; i++) {
+        await orchestrator.executeCommand({ type: CommandType.TAKE_SCREENSHOT, parameters: {}, id: String(i) });
+      }
+      const history = orchestrator.getCommandHistory();
+
+      expect(history.length).toBe(COMMAND_HISTORY_LIMIT);
+      expect(history[0].command.id).toBe('5');
+      expect(history[0].result.data).toMatchObject({ binary: true, bytes: 1024 });
+      expect((await orchestrator.executeCommand({ type: CommandType.TAKE_SCREENSHOT, parameters: {}, id: 'last' })).data)
+        .toBe(screenshot);
+    });
   });
 
   describe('event handling', () => {
@@ -0,0 +1,68 @@
+import { jest } from '@jest/globals';
+import { ConditionEvaluator, validateCondition } from '../conditions.js';
+import { IIDBManager } from '../../idb/interfaces/IIDBManager.js';
+import { CommandContext } from '../interfaces/IOrchestratorCommand.js';
+
+describe('ConditionEvaluator', () => {
+  const isAppInstalled = jest.fn<IIDBManager['isAppInstalled']>();
+  const isSimulatorBooted = jest.fn<IIDBManager['isSimulatorBooted']>();
+  const describeAllElements = jest.fn<NonNullable<IIDBManager['describeAllElements']>>();
+  const idbManager = { isAppInstalled, isSimulatorBooted, describeAllElements } as unknown as IIDBManager;
+  const evaluator = new ConditionEvaluator(idbManager);
+  const context: CommandContext = {
+    sessionId: 'session_1',
+    previousResults: {
+      list: { success: true, data: ['com.a', 'com.b'], timestamp: 0 }
+    },
+    variables: { count: 3, bundleId: 'com.example.app' }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should query the simulator state', async () => {
+    isAppInstalled.mockResolvedValue(true);
+    isSimulatorBooted.mockResolvedValue(false);
+
+    expect(await evaluator.evaluate({ appInstalled: '${vars.bundleId}' }, context)).toBe(true);
+    expect(isAppInstalled).toHaveBeenCalledWith('session_1', 'com.example.app');
+    expect(await evaluator.evaluate({ simulatorBooted: true }, context)).toBe(false);
+    expect(await evaluator.evaluate({ simulatorBooted: false }, context)).toBe(true);
+  });
+
+  it('should find nested accessibility elements', async () => {
+    describeAllElements.mockResolvedValue([
+      {
+        label: 'Main',
+        frame: { x: 0, y: 0, width: 100, height: 100 },
+        children: [{ label: 'Login', type: 'Button', frame: { x: 10, y: 10, width: 50, height: 20 } }]
+      }
+    ]);
+
+    expect(await evaluator.evaluate({ elementExists: { label: 'login', type: 'Button' } }, context)).toBe(true);
+    expect(await evaluator.evaluate({ elementExists: { label: 'Logout' } }, context)).toBe(false);
+  });
+
+  it('should combine conditions and compare prior results', async () => {
+    isAppInstalled.mockResolvedValue(false);
+
+    expect(await evaluator.evaluate({
+      and: [
+        { not: { appInstalled: 'com.example.app' } },
+        { compare: { left: '${vars.count}', operator: 'gte', right: 3 } },
+        { or: [
+          { compare: { left: '${steps.list.data}', operator: 'contains', right: 'com.b' } },
+          { simulatorBooted: true }
+        ] }
+      ]
+    }, context)).toBe(true);
+    expect(isSimulatorBooted).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed conditions', async () => {
+    expect(() => validateCondition({ appInstalled: 'com.x', simulatorBooted: true })).toThrow(/exactly one/);
+    expect(() => validateCondition({ and: [{ unknown: 1 }] })).toThrow(/condition\.and\[0\]/);
+    await expect(evaluator.evaluate({ simulatorBooted: true }, {})).rejects.toThrow('No active simulator session');
+  });
+});
@@ -0,0 +1,46 @@
+import { resolveTemplates, storeOutputs, hasTemplates } from '../templating.js';
+import { CommandContext, CommandType } from '../interfaces/IOrchestratorCommand.js';
+
+describe('templating', () => {
+  const context: CommandContext = {
+    sessionId: 'session_1',
+    previousResults: {
+      install: { success: true, data: { bundleId: 'com.example.app', name: 'Example' }, timestamp: 0 },
+      list: { success: true, data: [{ udid: 'ABC' }, { udid: 'DEF' }], timestamp: 0 }
+    },
+    variables: { x: 100, label: 'Login' }
+  };
+
+  it('should keep the type of values referenced by a whole string', () => {
+    expect(resolveTemplates({ x: '${vars.x}', y: 200 }, context)).toEqual({ x: 100, y: 200 });
+    expect(resolveTemplates('${steps.install.data}', context)).toEqual({ bundleId: 'com.example.app', name: 'Example' });
+  });
+
+  it('should interpolate references embedded in strings', () => {
+    expect(resolveTemplates({ text: 'Open ${steps.install.data.name} on ${sessionId}' }, context))
+      .toEqual({ text: 'Open Example on session_1' });
+    expect(resolveTemplates(['${steps.list.data.1.udid}'], context)).toEqual(['DEF']);
+  });
+
+  it('should keep escaped references as literal text', () => {
+    expect(resolveTemplates({ text: 'echo $${HOME} for ${vars.label}' }, context)).toEqual({ text: 'echo ${HOME} for Login' });
+    expect(resolveTemplates('$${vars.x}', context)).toBe('${vars.x}');
+  });
+
+  it('should fail on unresolved or unknown references', () => {
+    expect(() => resolveTemplates('${steps.missing.data}', context)).toThrow('Unresolved reference "${steps.missing.data}"');
+    expect(() => resolveTemplates('${env.HOME}', context)).toThrow(/Unknown reference/);
+  });
+
+  it('should leave nested commands for later resolution', () => {
+    const nested = { type: CommandType.TAP, id: '1', parameters: { x: '${vars.later}' } };
+    expect(resolveTemplates({ ifTrue: nested }, context)).toEqual({ ifTrue: nested });
+    expect(hasTemplates(nested)).toBe(true);
+  });
+
+  it('should store named outputs into variables', () => {
+    const target: CommandContext = { variables: {} };
+    storeOutputs({ bundleId: 'data.bundleId' }, context.previousResults!.install, target);
+    expect(target.variables).toEqual({ bundleId: 'com.example.app' });
+  });
+});
@@ -0,0 +1,198 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { IIDBManager, AccessibilityInfo } from '../idb/interfaces/IIDBManager.js';
+import {
+  CommandContext,
+  ComparisonOperator,
+  ConditionExpression,
+  ElementQuery
+} from './interfaces/IOrchestratorCommand.js';
+import { resolveTemplates } from './templating.js';
+
+const CONDITION_KEYS = ['appInstalled', 'elementExists', 'simulatorBooted', 'compare', 'and', 'or', 'not'];
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'matches'];
+
+/**
+ * Checks that a value is a well-formed condition expression
+ * @param condition Value to check
+ * @param path Location of the value, used in error messages
+ * @throws Error describing the first problem found
+ */
+export function validateCondition(condition: unknown, path: string = 'condition'): asserts condition is ConditionExpression {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    throw new Error(`${path} must be an object with one of: ${CONDITION_KEYS.join(', ')}`);
+  }
+
+  const keys = Object.keys(condition);
+  if (keys.length !== 1 || !CONDITION_KEYS.includes(keys[0])) {
+    throw new Error(`${path} must have exactly one of: ${CONDITION_KEYS.join(', ')}`);
+  }
+
+  const expression = condition as Record<string, any>;
+  switch (keys[0]) {
+    case 'appInstalled':
+      if (typeof expression.appInstalled !== 'string') {
+        throw new Error(`${path}.appInstalled must be a bundle ID`);
+      }
+      break;
+    case 'simulatorBooted':
+      if (typeof expression.simulatorBooted !== 'boolean') {
+        throw new Error(`${path}.simulatorBooted must be a boolean`);
+      }
+      break;
+    case 'elementExists':
+      if (!expression.elementExists || typeof expression.elementExists !== 'object' ||
+          Object.keys(expression.elementExists).length === 0) {
+        throw new Error(`${path}.elementExists must have label, identifier, type or value`);
+      }
+      break;
+    case 'compare':
+      if (!expression.compare || !COMPARISON_OPERATORS.includes(expression.compare.operator)) {
+        throw new Error(`${path}.compare.operator must be one of: ${COMPARISON_OPERATORS.join(', ')}`);
+      }
+      break;
+    case 'and':
+    case 'or':
+      if (!Array.isArray(expression[keys[0]])) {
+        throw new Error(`${path}.${keys[0]} must be an array of conditions`);
+      }
+      expression[keys[0]].forEach((child: unknown, index: number) =>
+        validateCondition(child, `${path}.${keys[0]}[${index}]`)
+      );
+      break;
+    case 'not':
+      validateCondition(expression.not, `${path}.not`);
+      break;
+  }
+}
+
+/**
+ * Evaluates serializable conditions through IDBManager calls
+ */
+export class ConditionEvaluator {
+  private idbManager: IIDBManager;
+
+  /**
+   * Constructor
+   * @param idbManager IDBManager used to query the simulator state
+   */
+  constructor(idbManager: IIDBManager) {
+    this.idbManager = idbManager;
+  }
+
+  /**
+   * Evaluates a condition
+   * @param condition Condition expression
+   * @param context Sequence context, used for the session and `${...}` references
+   * @returns Condition result
+   */
+  public async evaluate(condition: ConditionExpression, context: CommandContext): Promise<boolean> {
+    validateCondition(condition);
+
+    if ('and' in condition) {
+      for (const child of condition.and) {
+        if (!(await this.evaluate(child, context))) {
+          return false;
+        }
+      }
+      return true;
+    }
+
+    if ('or' in condition) {
+      for (const child of condition.or) {
+        if (await this.evaluate(child, context)) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    if ('not' in condition) {
+      return !(await this.evaluate(condition.not, context));
+    }
+
+    if ('compare' in condition) {
+      const { left, operator, right } = resolveTemplates(condition.compare, context);
+      return this.compare(left, operator, right);
+    }
+
+    const sessionId = this.requireSession(context);
+
+    if ('appInstalled' in condition) {
+      return this.idbManager.isAppInstalled(sessionId, resolveTemplates(condition.appInstalled, context));
+    }
+
+    if ('simulatorBooted' in condition) {
+      return (await this.idbManager.isSimulatorBooted(sessionId)) === condition.simulatorBooted;
+    }
+
+    if (!this.idbManager.describeAllElements) {
+      throw new Error('Operation describeAllElements is not supported by the IDB manager');
+    }
+    const query: ElementQuery = resolveTemplates(condition.elementExists, context);
+    const elements = await this.idbManager.describeAllElements(sessionId);
+    return this.findElement(elements, query);
+  }
+
+  /**
+   * Gets the session a condition applies to
+   * @param context Sequence context
+   * @returns Session ID
+   */
+  private requireSession(context: CommandContext): string {
+    if (!context.sessionId) {
+      throw new Error('No active simulator session to evaluate the condition');
+    }
+    return context.sessionId;
+  }
+
+  /**
+   * Searches an accessibility tree for an element matching every field of a query
+   * @param elements Accessibility elements
+   * @param query Element query
+   * @returns true if an element matches
+   */
+  private findElement(elements: AccessibilityInfo[], query: ElementQuery): boolean {
+    const matches = (element: AccessibilityInfo) =>
+      (query.label === undefined || element.label?.toLowerCase() === query.label.toLowerCase()) &&
+      (query.identifier === undefined || element.identifier === query.identifier) &&
+      (query.type === undefined || element.type?.toLowerCase() === query.type.toLowerCase()) &&
+      (query.value === undefined || element.value === query.value);
+
+    return elements.some(element =>
+      matches(element) || (element.children ? this.findElement(element.children, query) : false)
+    );
+  }
+
+  /**
+   * Compares two values
+   * @param left Left operand
+   * @param operator Comparison operator
+   * @param right Right operand
+   * @returns Comparison result
+   */
+  private compare(left: any, operator: ComparisonOperator, right: any): boolean {
+    switch (operator) {
+      case 'eq':
+        return JSON.stringify(left) === JSON.stringify(right);
+      case 'ne':
+        return JSON.stringify(left) !== JSON.stringify(right);
+      case 'gt':
+        return Number(left) > Number(right);
+      case 'gte':
+        return Number(left) >= Number(right);
+      case 'lt':
+        return Number(left) < Number(right);
+      case 'lte':
+        return Number(left) <= Number(right);
+      case 'contains':
+        return Array.isArray(left)
+          ? left.some(item => JSON.stringify(item) === JSON.stringify(right))
+          : String(left).includes(String(right));
+      case 'matches':
+        return new RegExp(String(right)).test(String(left));
+    }
+  }
+}
@@ -0,0 +1,227 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { v4 as uuidv4 } from 'uuid';
+import { CommandType, IOrchestratorCommand } from './interfaces/IOrchestratorCommand.js';
+import { validateCondition } from './conditions.js';
+import { hasTemplates } from './templating.js';
+import { checkParameter } from '../parser/parameters.js';
+
+const COMMAND_TYPES = Object.values(CommandType) as string[];
+
+/**
+ * Default timeout of commands in milliseconds
+ */
+export const DEFAULT_COMMAND_TIMEOUT = 30000;
+
+/**
+ * Timeouts of commands that usually take longer than the default
+ */
+export const COMMAND_TIMEOUTS: Partial<Record<CommandType, number>> = {
+  [CommandType.CREATE_SIMULATOR_SESSION]: 120000,
+  [CommandType.BOOT_SIMULATOR]: 120000,
+  [CommandType.INSTALL_APP]: 300000
+};
+
+/**
+ * Default number of retries of commands, only for transient errors
+ */
+export const DEFAULT_COMMAND_RETRIES = 1;
+
+/**
+ * Parameters without which a command cannot run, as required by the parser command definitions
+ */
+const REQUIRED_PARAMETERS: Partial<Record<CommandType, string[]>> = {
+  [CommandType.BOOT_SIMULATOR]: ['udid'],
+  [CommandType.INSTALL_APP]: ['appPath'],
+  [CommandType.LAUNCH_APP]: ['bundleId'],
+  [CommandType.TERMINATE_APP]: ['bundleId'],
+  [CommandType.UNINSTALL_APP]: ['bundleId'],
+  [CommandType.IS_APP_INSTALLED]: ['bundleId'],
+  [CommandType.TAP]: ['x', 'y'],
+  [CommandType.SWIPE]: ['startX', 'startY', 'endX', 'endY'],
+  [CommandType.PRESS_BUTTON]: ['button'],
+  [CommandType.INPUT_TEXT]: ['text'],
+  [CommandType.PRESS_KEY]: ['keyCode'],
+  [CommandType.PRESS_KEY_SEQUENCE]: ['keyCodes'],
+  [CommandType.TAP_ELEMENT]: ['element'],
+  [CommandType.INPUT_TEXT_INTO_ELEMENT]: ['text', 'element'],
+  [CommandType.SCROLL]: ['direction'],
+  [CommandType.DIRECTIONAL_SWIPE]: ['direction'],
+  [CommandType.LONG_PRESS]: ['x', 'y'],
+  [CommandType.DOUBLE_TAP]: ['x', 'y'],
+  [CommandType.DRAG]: ['startX', 'startY', 'endX', 'endY'],
+  [CommandType.PINCH]: ['scale'],
+  [CommandType.DESCRIBE_POINT]: ['x', 'y'],
+  [CommandType.GET_APP_LOGS]: ['bundleId'],
+  [CommandType.START_DEBUG_SERVER]: ['bundleId'],
+  [CommandType.GET_CRASH_LOG]: ['crashName'],
+  [CommandType.INSTALL_DYLIB]: ['dylibPath'],
+  [CommandType.OPEN_URL]: ['url'],
+  [CommandType.SET_LOCATION]: ['latitude', 'longitude'],
+  [CommandType.ADD_MEDIA]: ['mediaPaths'],
+  [CommandType.APPROVE_PERMISSIONS]: ['bundleId', 'permissions'],
+  [CommandType.UPDATE_CONTACTS]: ['dbPath']
+};
+
+/**
+ * Composite commands, whose parameters are other commands
+ */
+const COMPOSITE_TYPES: string[] = [
+  CommandType.SEQUENCE,
+  CommandType.CONDITIONAL,
+  CommandType.REPEAT,
+  CommandType.WHILE,
+  CommandType.UNTIL,
+  CommandType.WAIT_UNTIL,
+  CommandType.PARALLEL
+];
+
+/**
+ * Checks parameter values against the parameter specs the parser uses, so that
+ * commands built from JSON are held to the same rules as instructions. Values with
+ * `${...}` references are left as they are, to be checked once resolved
+ * @param parameters Command parameters
+ * @param path Location of the parameters, used in error messages
+ * @returns Parameters with normalized values, e.g. numbers for numeric strings
+ * @throws Error describing the first invalid value
+ */
+export function checkParameterValues(parameters: Record<string, any>, path: string): Record<string, any> {
+  const checked: Record<string, any> = {};
+  for (const [name, value] of Object.entries(parameters)) {
+    if (value === undefined || hasTemplates(value)) {
+      checked[name] = value;
+      continue;
+    }
+    const result = checkParameter(name, value);
+    if ('error' in result) {
+      throw new Error(`${path}.${name} ${result.error}`);
+    }
+    checked[name] = result.value;
+  }
+  return checked;
+}
+
+/**
+ * Checks an optional numeric limit of a composite command, e.g. a loop's iterations
+ * or a wait's timeout, so that invalid values cannot disable the limit
+ * @param value Value of the parameter
+ * @param path Location of the parameter, used in error messages
+ * @param integer Whether the value must be an integer
+ * @throws Error if the value is given and is not a finite positive number
+ */
+function checkLimit(value: unknown, path: string, integer: boolean = false): void {
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+    throw new Error(`${path} must be a positive ${integer ? 'integer' : 'number'}`);
+  }
+}
+
+/**
+ * Converts a JSON command tree (e.g. received from an MCP client or read from a file)
+ * into orchestrator commands, validating its structure and assigning missing IDs
+ * @param input JSON command
+ * @param path Location of the command, used in error messages
+ * @returns Orchestrator command
+ * @throws Error describing the first invalid node
+ */
+export function parseFlow(input: unknown, path: string = 'flow'): IOrchestratorCommand {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${path} must be a command object`);
+  }
+
+  const node = input as Record<string, any>;
+  if (!COMMAND_TYPES.includes(node.type)) {
+    throw new Error(`${path}.type must be one of: ${COMMAND_TYPES.join(', ')}`);
+  }
+  if (node.parameters !== undefined && (typeof node.parameters !== 'object' || Array.isArray(node.parameters))) {
+    throw new Error(`${path}.parameters must be an object`);
+  }
+
+  let parameters: Record<string, any> = { ...node.parameters };
+  checkLimit(node.timeout, `${path}.timeout`);
+  if (node.retries !== undefined && (!Number.isInteger(node.retries) || node.retries < 0)) {
+    throw new Error(`${path}.retries must be a non-negative integer`);
+  }
+
+  switch (node.type) {
+    case CommandType.SEQUENCE:
+      if (!Array.isArray(parameters.commands)) {
+        throw new Error(`${path}.parameters.commands must be an array of commands`);
+      }
+      parameters.commands = parameters.commands.map((child: unknown, index: number) =>
+        parseFlow(child, `${path}.parameters.commands[${index}]`)
+      );
+      break;
+
+    case CommandType.REPEAT:
+      if (parameters.times === undefined) {
+        throw new Error(`${path}.parameters.times must be a positive integer`);
+      }
+      checkLimit(parameters.times, `${path}.parameters.times`, true);
+      parameters.command = parseFlow(parameters.command, `${path}.parameters.command`);
+      break;
+
+    case CommandType.WHILE:
+    case CommandType.UNTIL:
+      validateCondition(parameters.condition, `${path}.parameters.condition`);
+      checkLimit(parameters.maxIterations, `${path}.parameters.maxIterations`, true);
+      parameters.command = parseFlow(parameters.command, `${path}.parameters.command`);
+      break;
+
+    case CommandType.WAIT_UNTIL:
+      validateCondition(parameters.condition, `${path}.parameters.condition`);
+      checkLimit(parameters.interval, `${path}.parameters.interval`);
+      checkLimit(parameters.timeout, `${path}.parameters.timeout`);
+      break;
+
+    case CommandType.PARALLEL:
+      if (!Array.isArray(parameters.branches) || parameters.branches.length === 0) {
+        throw new Error(`${path}.parameters.branches must be a non-empty array of branches`);
+      }
+      parameters.branches = parameters.branches.map((branch: any, index: number) => {
+        const branchPath = `${path}.parameters.branches[${index}]`;
+        if (!branch || typeof branch.sessionId !== 'string' || !branch.sessionId) {
+          throw new Error(`${branchPath}.sessionId must be a session ID`);
+        }
+        return {
+          sessionId: branch.sessionId,
+          name: branch.name,
+          command: parseFlow(branch.command, `${branchPath}.command`)
+        };
+      });
+      break;
+
+    case CommandType.CONDITIONAL:
+      validateCondition(parameters.condition, `${path}.parameters.condition`);
+      parameters.ifTrue = parseFlow(parameters.ifTrue, `${path}.parameters.ifTrue`);
+      if (parameters.ifFalse !== undefined) {
+        parameters.ifFalse = parseFlow(parameters.ifFalse, `${path}.parameters.ifFalse`);
+      }
+      break;
+
+    default:
+      for (const name of REQUIRED_PARAMETERS[node.type as CommandType] || []) {
+        if (parameters[name] === undefined) {
+          throw new Error(`${path}.parameters.${name} is required`);
+        }
+      }
+      parameters = checkParameterValues(parameters, `${path}.parameters`);
+  }
+
+  // Simple commands get the defaults of commands created from instructions
+  const simple = !COMPOSITE_TYPES.includes(node.type);
+
+  return {
+    type: node.type,
+    parameters,
+    id: typeof node.id === 'string' ? node.id : uuidv4(),
+    description: node.description,
+    name: node.name,
+    outputs: node.outputs,
+    timeout: node.timeout ?? (simple ? COMMAND_TIMEOUTS[node.type as CommandType] ?? DEFAULT_COMMAND_TIMEOUT : undefined),
+    retries: node.retries ?? (simple ? DEFAULT_COMMAND_RETRIES : undefined)
+  };
+}
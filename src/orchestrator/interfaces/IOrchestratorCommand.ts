@@ -8,51 +8,179 @@
  * can handle and execute through the IDBManager.
  */
 
+import { ProgressCallback } from '../../idb/interfaces/IIDBManager.js';
+
 export enum CommandType {
   // Simulator management commands
   CREATE_SIMULATOR_SESSION = 'createSimulatorSession',
   TERMINATE_SIMULATOR_SESSION = 'terminateSimulatorSession',
   LIST_AVAILABLE_SIMULATORS = 'listAvailableSimulators',
   LIST_BOOTED_SIMULATORS = 'listBootedSimulators',
+  LIST_SIMULATOR_SESSIONS = 'listSimulatorSessions',
   BOOT_SIMULATOR = 'bootSimulator',
   SHUTDOWN_SIMULATOR = 'shutdownSimulator',
+  FOCUS_SIMULATOR = 'focusSimulator',
   
   // Application management commands
   INSTALL_APP = 'installApp',
   LAUNCH_APP = 'launchApp',
   TERMINATE_APP = 'terminateApp',
+  UNINSTALL_APP = 'uninstallApp',
+  LIST_APPS = 'listApps',
   
   // UI interaction commands
   TAP = 'tap',
   SWIPE = 'swipe',
+  PRESS_BUTTON = 'pressButton',
+  INPUT_TEXT = 'inputText',
+  PRESS_KEY = 'pressKey',
+  PRESS_KEY_SEQUENCE = 'pressKeySequence',
+  TAP_ELEMENT = 'tapElement',
+  INPUT_TEXT_INTO_ELEMENT = 'inputTextIntoElement',
+
+  // Gesture commands
+  SCROLL = 'scroll',
+  DIRECTIONAL_SWIPE = 'directionalSwipe',
+  PULL_TO_REFRESH = 'pullToRefresh',
+  LONG_PRESS = 'longPress',
+  DOUBLE_TAP = 'doubleTap',
+  DRAG = 'drag',
+  PINCH = 'pinch',
+  
+  // Accessibility commands
+  DESCRIBE_ELEMENTS = 'describeAllElements',
+  DESCRIBE_POINT = 'describePointElement',
   
   // Capture and logging commands
   TAKE_SCREENSHOT = 'takeScreenshot',
+  START_VIDEO_RECORDING = 'startVideoRecording',
+  STOP_VIDEO_RECORDING = 'stopVideoRecording',
   GET_SYSTEM_LOGS = 'getSystemLogs',
   GET_APP_LOGS = 'getAppLogs',
   
+  // Debug commands
+  START_DEBUG_SERVER = 'startDebugServer',
+  STOP_DEBUG_SERVER = 'stopDebugServer',
+  GET_DEBUG_SERVER_STATUS = 'getDebugServerStatus',
+  
+  // Crash log commands
+  LIST_CRASH_LOGS = 'listCrashLogs',
+  GET_CRASH_LOG = 'getCrashLog',
+  DELETE_CRASH_LOGS = 'deleteCrashLogs',
+  
+  // Miscellaneous commands
+  INSTALL_DYLIB = 'installDylib',
+  OPEN_URL = 'openUrl',
+  CLEAR_KEYCHAIN = 'clearKeychain',
+  SET_LOCATION = 'setLocation',
+  ADD_MEDIA = 'addMedia',
+  APPROVE_PERMISSIONS = 'approvePermissions',
+  UPDATE_CONTACTS = 'updateContacts',
+  
   // Verification commands
   IS_SIMULATOR_BOOTED = 'isSimulatorBooted',
   IS_APP_INSTALLED = 'isAppInstalled',
   
   // Composite commands
   SEQUENCE = 'sequence',
-  CONDITIONAL = 'conditional'
+  CONDITIONAL = 'conditional',
+  REPEAT = 'repeat',
+  WHILE = 'while',
+  UNTIL = 'until',
+  WAIT_UNTIL = 'waitUntil',
+  PARALLEL = 'parallel'
 }
 
 export interface CommandResult {
   success: boolean;
   data?: any;
   error?: string;
+  /**
+   * Set when the command was stopped through its abort signal
+   */
+  cancelled?: boolean;
+  /**
+   * Set when the failure is temporary and the command may succeed if retried
+   */
+  transient?: boolean;
+  /**
+   * Number of attempts made to execute the command
+   */
+  attempts?: number;
   timestamp: number;
 }
 
+/**
+ * Exponential backoff applied between retries of a failed command
+ */
+export interface RetryPolicy {
+  /**
+   * Delay before the first retry in milliseconds
+   */
+  initialDelay: number;
+  /**
+   * Multiplier applied to the delay after every retry
+   */
+  factor: number;
+  /**
+   * Maximum delay between retries in milliseconds
+   */
+  maxDelay: number;
+}
+
+/**
+ * Orchestrator configuration
+ */
+export interface OrchestratorOptions {
+  /**
+   * Backoff applied between retries of commands with `retries` set (optional)
+   */
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
 export interface CommandContext {
   sessionId?: string;
   previousResults?: Record<string, CommandResult>;
   variables?: Record<string, any>;
 }
 
+/**
+ * Options applied to a single command execution
+ */
+export interface ExecutionOptions {
+  /**
+   * Receives progress updates of long-running commands and sequence steps
+   */
+  onProgress?: ProgressCallback;
+
+  /**
+   * Aborts the command, killing the underlying idb processes, when triggered
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Context of the enclosing sequence, used to resolve `${...}` references in parameters
+   */
+  context?: CommandContext;
+
+  /**
+   * Whether parameters are taken as written, without resolving `${...}` references.
+   * Set for commands parsed from natural language instructions
+   */
+  literal?: boolean;
+
+  /**
+   * Session the command runs on, instead of the active session. Set for the
+   * branches of PARALLEL commands
+   */
+  sessionId?: string;
+
+  /**
+   * Language code of natural language instructions, e.g. "es". Detected when omitted
+   */
+  language?: string;
+}
+
 export interface IOrchestratorCommand {
   /**
    * Command type
@@ -60,7 +188,9 @@ export interface IOrchestratorCommand {
   type: CommandType;
   
   /**
-   * Command-specific parameters
+   * Command-specific parameters. String values may reference the results of
+   * previous sequence steps (`${steps.<name>.data.bundleId}`), sequence variables
+   * (`${vars.udid}`) or the active session (`${sessionId}`)
    */
   parameters: Record<string, any>;
   
@@ -73,6 +203,17 @@ export interface IOrchestratorCommand {
    * Human-readable command description
    */
   description?: string;
+
+  /**
+   * Step name used to reference the result from later steps of a sequence (optional, defaults to the ID)
+   */
+  name?: string;
+
+  /**
+   * Variables to store after a successful execution: variable name -> path into the
+   * result (e.g. `{ bundleId: 'data.bundleId' }`)
+   */
+  outputs?: Record<string, string>;
   
   /**
    * Maximum execution time in milliseconds
@@ -108,21 +249,166 @@ export interface SequenceCommand extends IOrchestratorCommand {
   parameters: {
     commands: IOrchestratorCommand[];
     stopOnError?: boolean;
+    /**
+     * Initial values of the sequence variables
+     */
+    variables?: Record<string, any>;
   };
 }
 
+/**
+ * Accessibility element lookup; every given field must match
+ */
+export interface ElementQuery {
+  label?: string;
+  identifier?: string;
+  type?: string;
+  value?: string;
+}
+
+export type ComparisonOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'matches';
+
+/**
+ * Serializable condition evaluated by the orchestrator.
+ *
+ * String values may contain `${...}` references to the sequence context, e.g.
+ * `{ "compare": { "left": "${steps.install.success}", "operator": "eq", "right": true } }`
+ */
+export type ConditionExpression =
+  | { appInstalled: string }
+  | { elementExists: ElementQuery }
+  | { simulatorBooted: boolean }
+  | { compare: { left: any; operator: ComparisonOperator; right?: any } }
+  | { and: ConditionExpression[] }
+  | { or: ConditionExpression[] }
+  | { not: ConditionExpression };
+
+/**
+ * Condition implemented in code (library use only, not serializable)
+ */
+export type ConditionFunction = (context: CommandContext) => Promise<boolean>;
+
 /**
  * Conditional command that executes one command or another based on a condition
  */
 export interface ConditionalCommand extends IOrchestratorCommand {
   type: CommandType.CONDITIONAL;
   parameters: {
-    condition: (context: CommandContext) => Promise<boolean>;
+    condition: ConditionExpression | ConditionFunction;
     ifTrue: IOrchestratorCommand;
     ifFalse?: IOrchestratorCommand;
   };
 }
 
+/**
+ * Command executed a fixed number of times
+ */
+export interface RepeatCommand extends IOrchestratorCommand {
+  type: CommandType.REPEAT;
+  parameters: {
+    command: IOrchestratorCommand;
+    times: number;
+    /**
+     * Stop at the first failed iteration (default true)
+     */
+    stopOnError?: boolean;
+  };
+}
+
+/**
+ * Command executed while a condition holds (WHILE) or until it holds (UNTIL).
+ * The condition is evaluated before every iteration
+ */
+export interface LoopCommand extends IOrchestratorCommand {
+  type: CommandType.WHILE | CommandType.UNTIL;
+  parameters: {
+    condition: ConditionExpression | ConditionFunction;
+    command: IOrchestratorCommand;
+    /**
+     * Maximum number of iterations (default 10); the loop fails if the
+     * condition still requires another iteration when it is reached
+     */
+    maxIterations?: number;
+    /**
+     * Stop at the first failed iteration (default true)
+     */
+    stopOnError?: boolean;
+  };
+}
+
+/**
+ * Polls a condition until it holds or the timeout expires
+ */
+export interface WaitUntilCommand extends IOrchestratorCommand {
+  type: CommandType.WAIT_UNTIL;
+  parameters: {
+    condition: ConditionExpression | ConditionFunction;
+    /**
+     * Milliseconds between evaluations (default 1000)
+     */
+    interval?: number;
+    /**
+     * Milliseconds to wait before failing (default 30000)
+     */
+    timeout?: number;
+  };
+}
+
+/**
+ * Branch of a parallel command, bound to its own simulator session
+ */
+export interface ParallelBranch {
+  /**
+   * Session the branch runs on (may be a `${...}` reference)
+   */
+  sessionId: string;
+  /**
+   * Command to execute on the session
+   */
+  command: IOrchestratorCommand;
+  /**
+   * Branch name, used in results and errors (optional)
+   */
+  name?: string;
+}
+
+/**
+ * Policy of a parallel command when a branch fails: `failFast` cancels the
+ * remaining branches, `collectAll` lets every branch finish
+ */
+export type ParallelPolicy = 'failFast' | 'collectAll';
+
+/**
+ * Runs commands concurrently, each on its own simulator session
+ */
+export interface ParallelCommand extends IOrchestratorCommand {
+  type: CommandType.PARALLEL;
+  parameters: {
+    branches: ParallelBranch[];
+    /**
+     * Maximum number of branches running at once (default: all)
+     */
+    maxConcurrency?: number;
+    /**
+     * Failure policy (default `collectAll`)
+     */
+    policy?: ParallelPolicy;
+  };
+}
+
+/**
+ * Outcome of a branch of a parallel command
+ */
+export interface ParallelBranchResult {
+  sessionId: string;
+  name?: string;
+  /**
+   * Whether the branch was never started because a previous branch failed (failFast)
+   */
+  skipped: boolean;
+  result?: CommandResult;
+}
+
 /**
  * Command factory to create IOrchestratorCommand instances
  */
@@ -130,7 +416,7 @@ export interface CommandFactory {
   createCommand(type: CommandType, parameters: Record<string, any>, description?: string): IOrchestratorCommand;
   createSequence(commands: IOrchestratorCommand[], stopOnError?: boolean): SequenceCommand;
   createConditional(
-    condition: (context: CommandContext) => Promise<boolean>,
+    condition: ConditionExpression | ConditionFunction,
     ifTrue: IOrchestratorCommand,
     ifFalse?: IOrchestratorCommand
   ): ConditionalCommand;
@@ -0,0 +1,136 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { CommandContext } from './interfaces/IOrchestratorCommand.js';
+
+/**
+ * Matches `${...}` references in a string, and `$${...}` escapes of literal text
+ */
+const REFERENCE_PATTERN = /\$?\$\{\s*([^}]+?)\s*\}/g;
+
+/**
+ * Matches strings made of a single reference, whose value is used as is
+ */
+const SINGLE_REFERENCE_PATTERN = /^\$\{\s*([^}]+?)\s*\}$/;
+
+/**
+ * Gets a nested value by its dot-separated path (array indexes included, e.g. `data.0.udid`)
+ * @param value Root value
+ * @param path Dot-separated path
+ * @returns Value at the path or undefined if any segment is missing
+ */
+export function getValueAtPath(value: any, path: string): any {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, segment) => (current === undefined || current === null ? undefined : current[segment]), value);
+}
+
+/**
+ * Resolves a reference such as `steps.install.data.bundleId` or `vars.udid`
+ * @param reference Reference without the `${}` delimiters
+ * @param context Sequence context
+ * @returns Referenced value
+ */
+function resolveReference(reference: string, context: CommandContext): any {
+  const [root, ...path] = reference.split('.');
+  let value: any;
+
+  switch (root) {
+    case 'steps':
+      value = getValueAtPath(context.previousResults, path.join('.'));
+      break;
+    case 'vars':
+      value = getValueAtPath(context.variables, path.join('.'));
+      break;
+    case 'sessionId':
+      value = path.length === 0 ? context.sessionId : undefined;
+      break;
+    default:
+      throw new Error(`Unknown reference "\${${reference}}": use steps.<name>, vars.<name> or sessionId`);
+  }
+
+  if (value === undefined) {
+    throw new Error(`Unresolved reference "\${${reference}}"`);
+  }
+  return value;
+}
+
+/**
+ * Checks whether a value contains `${...}` references
+ * @param value Value to check (strings, arrays and plain objects are inspected)
+ * @returns true if any string in the value contains a reference
+ */
+export function hasTemplates(value: any): boolean {
+  if (typeof value === 'string') {
+    return value.includes('${');
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasTemplates);
+  }
+  if (isPlainObject(value)) {
+    return Object.values(value).some(hasTemplates);
+  }
+  return false;
+}
+
+/**
+ * Replaces `${...}` references in command parameters with values of the sequence context.
+ *
+ * A string consisting of a single reference is replaced by the referenced value,
+ * keeping its type; references embedded in longer strings are interpolated as text.
+ * `$${...}` is an escape for the literal text `${...}`.
+ * Nested commands are left untouched, they are resolved when executed.
+ *
+ * @param value Parameters (or any value) to resolve
+ * @param context Sequence context
+ * @returns Copy of the value with references resolved
+ * @throws Error if a reference cannot be resolved
+ */
+export function resolveTemplates(value: any, context: CommandContext): any {
+  if (typeof value === 'string') {
+    const single = value.match(SINGLE_REFERENCE_PATTERN);
+    if (single) {
+      return resolveReference(single[1], context);
+    }
+    return value.replace(REFERENCE_PATTERN, (match: string, reference: string) => {
+      if (match.startsWith('$$')) {
+        return match.slice(1);
+      }
+      const resolved = resolveReference(reference, context);
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => (isCommand(item) ? item : resolveTemplates(item, context)));
+  }
+  if (isPlainObject(value) && !isCommand(value)) {
+    const resolved: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveTemplates(item, context);
+    }
+    return resolved;
+  }
+  return value;
+}
+
+/**
+ * Stores the named outputs of a step into the context variables
+ * @param outputs Variable name -> path into the step result (e.g. `data.bundleId`)
+ * @param result Step result
+ * @param context Sequence context
+ */
+export function storeOutputs(outputs: Record<string, string>, result: any, context: CommandContext): void {
+  context.variables = context.variables || {};
+  for (const [variable, path] of Object.entries(outputs)) {
+    context.variables[variable] = getValueAtPath(result, path);
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function isCommand(value: any): boolean {
+  return isPlainObject(value) && typeof value.type === 'string' && typeof value.id === 'string' && 'parameters' in value;
+}
@@ -0,0 +1,62 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { LanguagePack } from './interfaces/ILanguagePack.js';
+import { DEFAULT_LANGUAGE_PACKS, accentInsensitive, wordsPattern } from './languages/index.js';
+
+/**
+ * Matches double-quoted text, which is never split
+ */
+const QUOTED_TEXT = /"[^"]*"/g;
+
+/**
+ * Splits a text on a separator, ignoring separators inside double quotes
+ * @param text Text to split
+ * @param separator Global regular expression matching separators
+ * @returns Trimmed fragments, empty where separators are next to each other or at the ends
+ */
+function splitOutsideQuotes(text: string, separator: RegExp): string[] {
+  // Blank out quoted text so its contents cannot match, keeping the offsets
+  const masked = text.replace(QUOTED_TEXT, quoted => '"' + ' '.repeat(quoted.length - 2) + '"');
+  const fragments: string[] = [];
+  let start = 0;
+
+  for (const match of masked.matchAll(separator)) {
+    fragments.push(text.slice(start, match.index));
+    start = (match.index ?? 0) + match[0].length;
+  }
+  fragments.push(text.slice(start));
+
+  return fragments.map(fragment => fragment.trim());
+}
+
+/**
+ * Splits a compound instruction into its steps on the sequencing connectors of the
+ * languages ("then", "and then", "luego", "y después"), newlines and semicolons.
+ * Connectors may also be part of a value (e.g. "input text see you then"), so
+ * fragments are kept even when empty for the caller to decide
+ * @param text Natural language instruction
+ * @param languages Language packs providing the connectors
+ * @returns Instruction fragments, a single one if the instruction is not compound
+ */
+export function splitInstruction(text: string, languages: LanguagePack[] = DEFAULT_LANGUAGE_PACKS): string[] {
+  const connectors = wordsPattern(languages.flatMap(language => language.connectors));
+  const separator = `\\s*(?:[\\r\\n;]+${connectors ? `|,?\\s*${connectors}` : ''})\\s*`;
+  return splitOutsideQuotes(text.trim(), accentInsensitive(new RegExp(separator, 'giu')));
+}
+
+/**
+ * Splits a fragment on the plain conjunctions of the languages ("and", "y"), which may
+ * also be part of a single step (e.g. "input text salt and pepper")
+ * @param fragment Instruction fragment
+ * @param languages Language packs providing the conjunctions
+ * @returns Candidate steps; the caller decides whether they are real steps
+ */
+export function splitConjunctions(fragment: string, languages: LanguagePack[] = DEFAULT_LANGUAGE_PACKS): string[] {
+  const conjunctions = wordsPattern(languages.flatMap(language => language.conjunctions));
+  if (!conjunctions) {
+    return [fragment.trim()].filter(Boolean);
+  }
+  return splitOutsideQuotes(fragment, accentInsensitive(new RegExp(`\\s+${conjunctions}\\s+`, 'giu')))
+    .filter(Boolean);
+}
@@ -1,15 +1,32 @@
 // SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
 // SPDX-License-Identifier: Apache-2.0
 
-import { IParser, ParseResult, ValidationResult } from './interfaces/IParser.js';
+import { IParser, ParseOptions, ParseResult, SupportedCommand, ValidationResult } from './interfaces/IParser.js';
+import { LanguagePack } from './interfaces/ILanguagePack.js';
+import { DEFAULT_LANGUAGE_PACKS } from './languages/index.js';
 import { CommandRegistry } from './commands/CommandRegistry.js';
 import { SimulatorCommands } from './commands/SimulatorCommands.js';
 import { AppCommands } from './commands/AppCommands.js';
 import { UICommands } from './commands/UICommands.js';
+import { GestureCommands } from './commands/GestureCommands.js';
 import { AccessibilityCommands } from './commands/AccessibilityCommands.js';
 import { CaptureCommands } from './commands/CaptureCommands.js';
 import { DebugCommands } from './commands/DebugCommands.js';
 import { MiscCommands } from './commands/MiscCommands.js';
+import { CustomCommands } from './commands/CustomCommands.js';
+import { CommandConfig } from './customCommands.js';
+import { PARAMETER_SPECS, checkParameter } from './parameters.js';
+
+export interface NLParserOptions {
+  /**
+   * Languages understood by the parser, English and Spanish by default
+   */
+  languages?: LanguagePack[];
+  /**
+   * User-defined aliases and macros, registered after the built-in commands
+   */
+  commands?: CommandConfig;
+}
 
 /**
  * Natural language parser implementation
@@ -19,27 +36,45 @@ export class NLParser implements IParser {
 
   /**
    * Constructor
+   * @param options Parser options
+   * @throws Error if a language pack phrases an unknown command, or an alias or
+   *         macro refers to one
    */
-  constructor() {
-    this.commandRegistry = new CommandRegistry();
+  constructor(options: NLParserOptions = {}) {
+    const languages = options.languages || DEFAULT_LANGUAGE_PACKS;
+    this.commandRegistry = new CommandRegistry(languages);
     
     // Register all command handlers
-    this.commandRegistry.registerHandler(new SimulatorCommands());
-    this.commandRegistry.registerHandler(new AppCommands());
-    this.commandRegistry.registerHandler(new UICommands());
-    this.commandRegistry.registerHandler(new AccessibilityCommands());
-    this.commandRegistry.registerHandler(new CaptureCommands());
-    this.commandRegistry.registerHandler(new DebugCommands());
-    this.commandRegistry.registerHandler(new MiscCommands());
+    this.commandRegistry.registerHandler(new SimulatorCommands(languages));
+    this.commandRegistry.registerHandler(new AppCommands(languages));
+    this.commandRegistry.registerHandler(new UICommands(languages));
+    this.commandRegistry.registerHandler(new GestureCommands(languages));
+    this.commandRegistry.registerHandler(new AccessibilityCommands(languages));
+    this.commandRegistry.registerHandler(new CaptureCommands(languages));
+    this.commandRegistry.registerHandler(new DebugCommands(languages));
+    this.commandRegistry.registerHandler(new MiscCommands(languages));
+    if (options.commands) {
+      this.commandRegistry.registerHandler(new CustomCommands(options.commands));
+    }
+    this.commandRegistry.checkLanguages();
   }
 
   /**
    * Parses a natural language instruction into a command structure
    * @param text Natural language instruction text
+   * @param options Parsing options, such as the language of the instruction
    * @returns Parsing result with extracted command and parameters
    */
-  async parseInstruction(text: string): Promise<ParseResult> {
-    return this.commandRegistry.parseInstruction(text);
+  async parseInstruction(text: string, options: ParseOptions = {}): Promise<ParseResult> {
+    return this.commandRegistry.parseInstruction(text, options.language);
+  }
+
+  /**
+   * Gets the codes of the languages understood by the parser
+   * @returns Language codes, e.g. ["en", "es"]
+   */
+  getLanguages(): string[] {
+    return this.commandRegistry.getLanguages();
   }
 
   /**
@@ -48,6 +83,22 @@ export class NLParser implements IParser {
    * @returns Validation result
    */
   async validateInstruction(parseResult: ParseResult): Promise<ValidationResult> {
+    // Compound instructions are valid when every step is
+    if (parseResult.steps) {
+      for (const [index, step] of parseResult.steps.entries()) {
+        const stepValidation = await this.validateInstruction(step);
+        if (!stepValidation.isValid) {
+          return {
+            ...stepValidation,
+            errorMessage: `Step ${index + 1} ("${step.originalText}"): ${stepValidation.errorMessage}`
+          };
+        }
+      }
+      return {
+        isValid: true
+      };
+    }
+
     // Get supported command definitions
     const supportedCommands = await this.commandRegistry.getSupportedCommands();
     const definition = supportedCommands.find(cmd => cmd.command === parseResult.command);
@@ -55,6 +106,9 @@ export class NLParser implements IParser {
     if (!definition) {
       return {
         isValid: false,
+        suggestions: this.commandRegistry
+          .suggestCommands(parseResult.originalText || parseResult.command)
+          .map(suggestion => suggestion.example),
         errorMessage: `Unrecognized command: ${parseResult.command}`
       };
     }
@@ -65,18 +119,25 @@ export class NLParser implements IParser {
     );
     
     if (missingParameters.length > 0) {
+      const suggestion = this.commandRegistry.suggestCommand(parseResult.command, parseResult.originalText);
       return {
         isValid: false,
         missingParameters,
+        suggestions: suggestion ? [suggestion.example] : undefined,
         errorMessage: `Missing required parameters: ${missingParameters.join(', ')}`
       };
     }
     
-    // Validate parameter types
+    // Validate parameter types and constraints
     const invalidParameters: Record<string, string> = {};
     for (const [param, value] of Object.entries(parseResult.parameters)) {
       if (typeof value === 'undefined' || value === null) {
         invalidParameters[param] = 'Value cannot be null or undefined';
+        continue;
+      }
+      const checked = checkParameter(param, value, definition.parameterSpecs?.[param]);
+      if ('error' in checked) {
+        invalidParameters[param] = checked.error;
       }
     }
     
@@ -84,9 +145,25 @@ export class NLParser implements IParser {
       return {
         isValid: false,
         invalidParameters,
-        errorMessage: 'Some parameters have invalid values'
+        errorMessage: 'Invalid parameters: ' + Object.entries(invalidParameters)
+          .map(([param, error]) => `${param} ${error}`)
+          .join('; ')
+      };
+    }
+
+    // Macros are valid when the steps they expand into are
+    let normalizedResult: ParseResult;
+    try {
+      normalizedResult = await this.normalizeParameters(parseResult);
+    } catch (error: any) {
+      return {
+        isValid: false,
+        errorMessage: `Could not expand macro "${parseResult.command}": ${error.message}`
       };
     }
+    if (normalizedResult.steps) {
+      return this.validateInstruction(normalizedResult);
+    }
     
     return {
       isValid: true
@@ -94,31 +171,49 @@ export class NLParser implements IParser {
   }
 
   /**
-   * Normalizes parameters of a parsed instruction
+   * Normalizes parameters of a parsed instruction. Macros are expanded into their steps
    * @param parseResult Parsing result to normalize
    * @returns Parsing result with normalized parameters
+   * @throws Error if a macro cannot be expanded
    */
   async normalizeParameters(parseResult: ParseResult): Promise<ParseResult> {
+    if (parseResult.steps) {
+      return {
+        ...parseResult,
+        steps: await Promise.all(parseResult.steps.map(step => this.normalizeParameters(step)))
+      };
+    }
+
+    const supportedCommands = await this.commandRegistry.getSupportedCommands();
+    const parameterSpecs = supportedCommands.find(cmd => cmd.command === parseResult.command)?.parameterSpecs || {};
     const normalizedParameters = { ...parseResult.parameters };
     
-    // Normalize numeric values
     for (const [key, value] of Object.entries(normalizedParameters)) {
-      if (typeof value === 'string' && !isNaN(Number(value))) {
-        normalizedParameters[key] = Number(value);
+      // Declared parameters are converted to their type, so strings such as a
+      // "1234" bundle ID stay strings
+      const spec = parameterSpecs[key] || PARAMETER_SPECS[key];
+      if (spec) {
+        const checked = checkParameter(key, value, spec);
+        if ('value' in checked) {
+          normalizedParameters[key] = checked.value;
+        }
+        continue;
       }
-    }
-    
-    // Normalize booleans
-    for (const [key, value] of Object.entries(normalizedParameters)) {
-      if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+
+      // Parameters without a declared type: numeric and boolean-looking strings
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        normalizedParameters[key] = Number(value);
+      } else if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
         normalizedParameters[key] = value.toLowerCase() === 'true';
       }
     }
     
-    return {
+    // Macros expand into their steps, filled in with the normalized parameters
+    const expanded = this.commandRegistry.expandMacro({
       ...parseResult,
       parameters: normalizedParameters
-    };
+    });
+    return expanded.steps ? this.normalizeParameters(expanded) : expanded;
   }
 
   /**
@@ -134,12 +229,7 @@ export class NLParser implements IParser {
    * Gets the list of commands supported by the parser
    * @returns List of supported commands with their descriptions
    */
-  async getSupportedCommands(): Promise<Array<{
-    command: string;
-    description: string;
-    requiredParameters: string[];
-    optionalParameters: string[];
-  }>> {
+  async getSupportedCommands(): Promise<SupportedCommand[]> {
     return this.commandRegistry.getSupportedCommands();
   }
 }
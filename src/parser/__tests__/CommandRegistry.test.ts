@@ -0,0 +1,76 @@
+import { CommandRegistry } from '../commands/CommandRegistry.js';
+import { BaseCommandDefinition, CommandDefinition } from '../commands/BaseCommandDefinition.js';
+
+class OverlappingCommands extends BaseCommandDefinition {
+  protected definitions: CommandDefinition[] = [
+    {
+      command: 'open settings',
+      patterns: [/open\s+(?<text>\w+)/i],
+      description: 'Opens a settings page',
+      requiredParameters: [],
+      optionalParameters: ['text'],
+      examples: [],
+      parameterExtractors: { text: (match) => match.groups?.text }
+    },
+    {
+      command: 'open app',
+      patterns: [/open\s+(?<bundleId>\w+)/i],
+      description: 'Opens an app',
+      requiredParameters: [],
+      optionalParameters: ['bundleId'],
+      examples: [],
+      parameterExtractors: { bundleId: (match) => match.groups?.bundleId }
+    },
+    {
+      command: 'open url',
+      patterns: [/open\s+url\s+(?<url>\S+)/i],
+      description: 'Opens a URL',
+      requiredParameters: ['url'],
+      optionalParameters: [],
+      examples: [],
+      parameterExtractors: { url: (match) => match.groups?.url }
+    }
+  ];
+}
+
+describe('CommandRegistry', () => {
+  let registry: CommandRegistry;
+
+  beforeEach(() => {
+    registry = new CommandRegistry();
+    registry.registerHandler(new OverlappingCommands());
+  });
+
+  it('should mark results as ambiguous when the best candidates score the same', () => {
+    const result = registry.parseInstruction('open settings');
+
+    expect(result.ambiguous).toBe(true);
+    expect(result.command).toBe('open settings');
+    expect(result.alternatives?.[0].command).toBe('open app');
+  });
+
+  it('should pick the more specific pattern', () => {
+    const result = registry.parseInstruction('open url https://example.com');
+
+    expect(result.command).toBe('open url');
+    expect(result.ambiguous).toBeUndefined();
+    expect(result.parameters.url).toBe('https://example.com');
+  });
+
+  it('should reject definitions with parameters of undeclared type', () => {
+    class UntypedCommands extends BaseCommandDefinition {
+      protected definitions: CommandDefinition[] = [{
+        command: 'zoom',
+        patterns: [/zoom\s+(?<factor>\d+)/i],
+        description: 'Zooms in',
+        requiredParameters: ['factor'],
+        optionalParameters: [],
+        examples: [],
+        parameterExtractors: { factor: (match) => match.groups?.factor }
+      }];
+    }
+
+    expect(() => registry.registerHandler(new UntypedCommands()))
+      .toThrow('Parameter factor of command "zoom" has no declared type');
+  });
+});
@@ -1,5 +1,7 @@
 import { NLParser } from '../NLParser.js';
 import { ParseResult, ValidationResult } from '../interfaces/IParser.js';
+import { LanguagePack } from '../interfaces/ILanguagePack.js';
+import { DEFAULT_LANGUAGE_PACKS } from '../languages/index.js';
 
 // Add Jest types to global scope
 declare global {
@@ -38,6 +40,267 @@ describe('NLParser', () => {
     });
   });
 
+  describe('did you mean', () => {
+    it('should suggest the closest commands filled in with the input values', async () => {
+      const error = await parser.parseInstruction('lauch app com.foo').catch(error => error);
+
+      expect(error.message).toContain('Could not understand the instruction: lauch app com.foo. Did you mean: "launch app com.foo"');
+      expect(error.suggestions[0]).toMatchObject({
+        command: 'launch app',
+        example: 'launch app com.foo',
+        missingParameters: []
+      });
+    });
+
+    it('should restore missing accents of command words', async () => {
+      const error = await parser.parseInstruction('crar sesion con iPhone 15').catch(error => error);
+      expect(error.suggestions[0].example).toBe('crear sesión con iPhone 15');
+    });
+
+    it('should list the missing parameters when no example can be filled in', async () => {
+      const error = await parser.parseInstruction('swipe 100 200 300 400').catch(error => error);
+
+      expect(error.suggestions[0].command).toBe('swipe');
+      expect(error.suggestions[0].missingParameters).toEqual(['startX', 'startY', 'endX', 'endY']);
+    });
+
+    it('should not suggest unrelated commands', async () => {
+      const error = await parser.parseInstruction('fly away').catch(error => error);
+
+      expect(error.message).toBe('Could not understand the instruction: fly away');
+      expect(error.suggestions).toEqual([]);
+    });
+
+    it('should include suggestions in validation results', async () => {
+      const result = await parser.validateInstruction({
+        command: 'launch app',
+        parameters: {},
+        confidence: 0.9,
+        originalText: 'launch app'
+      });
+
+      expect(result.suggestions).toEqual(['launch app com.example.app']);
+    });
+  });
+
+  describe('confidence scoring', () => {
+    it('should score how much of the instruction the match covers', async () => {
+      const exact = await parser.parseInstruction('tap 100, 200');
+      const partial = await parser.parseInstruction('tap 100, 200 on the login screen, quickly');
+
+      expect(exact.confidence).toBeLessThanOrEqual(1);
+      expect(partial.command).toBe('tap');
+      expect(partial.confidence).toBeLessThan(exact.confidence);
+    });
+
+    it('should rank candidates instead of taking the first handler that matches', async () => {
+      const result = await parser.parseInstruction('listar simuladores arrancados');
+
+      expect(result.command).toBe('list booted simulators');
+      expect(result.ambiguous).toBeUndefined();
+      expect(result.alternatives?.map(alternative => alternative.command)).toContain('list simulators');
+    });
+  });
+
+  describe('compound instructions', () => {
+    it('should split instructions on connectors and conjunctions', async () => {
+      const result = await parser.parseInstruction('launch app com.foo then tap 100, 200 and take a screenshot');
+
+      expect(result.steps?.map(step => step.command)).toEqual(['launch app', 'tap', 'capture screen']);
+      expect(result.steps?.[0].parameters.bundleId).toBe('com.foo');
+      expect(result.steps?.[1].parameters).toEqual({ x: 100, y: 200 });
+    });
+
+    it('should split on newlines, semicolons and Spanish connectors', async () => {
+      const result = await parser.parseInstruction('launch app com.foo; tap 10, 20\ntap 30, 40 luego tap 50, 60 y después take a screenshot');
+      expect(result.steps).toHaveLength(5);
+    });
+
+    it('should keep conjunctions that are part of a value', async () => {
+      const result = await parser.parseInstruction('input text salt and pepper');
+
+      expect(result.steps).toBeUndefined();
+      expect(result.parameters.text).toBe('salt and pepper');
+    });
+
+    it.each([
+      ['input text see you then', 'see you then'],
+      ['input text I will call you then ok', 'I will call you then ok'],
+      ['input text after that we go', 'after that we go'],
+      ['input text first line\nsecond line', 'first line\nsecond line']
+    ])('should keep connectors that are part of a value: %j', async (instruction, text) => {
+      const result = await parser.parseInstruction(instruction);
+
+      expect(result.steps).toBeUndefined();
+      expect(result.command).toBe('input text');
+      expect(result.parameters.text).toBe(text);
+    });
+
+    it('should keep semicolons that are part of a URL', async () => {
+      const result = await parser.parseInstruction('open url https://example.com/?a=1;b=2');
+
+      expect(result.steps).toBeUndefined();
+      expect(result.parameters.url).toBe('https://example.com/?a=1;b=2');
+    });
+
+    it('should report empty steps', async () => {
+      await expect(parser.parseInstruction('launch app com.foo then'))
+        .rejects.toThrow('Could not understand the instruction: (empty step) (step 2 of 2)');
+    });
+
+    it('should not split quoted text', async () => {
+      const result = await parser.parseInstruction('input text "first; then second"');
+      expect(result.steps).toBeUndefined();
+    });
+
+    it('should report the step that could not be understood', async () => {
+      await expect(parser.parseInstruction('launch app com.foo then fly away'))
+        .rejects.toThrow('Could not understand the instruction: fly away (step 2 of 2)');
+    });
+
+    it('should validate every step', async () => {
+      const result = await parser.validateInstruction({
+        command: 'sequence',
+        parameters: {},
+        confidence: 0.9,
+        originalText: 'launch app com.foo then launch app',
+        steps: [
+          { command: 'launch app', parameters: { bundleId: 'com.foo' }, confidence: 0.9, originalText: 'launch app com.foo' },
+          { command: 'launch app', parameters: {}, confidence: 0.9, originalText: 'launch app' }
+        ]
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toBe('Step 2 ("launch app"): Missing required parameters: bundleId');
+    });
+  });
+
+  describe('languages', () => {
+    const french: LanguagePack = {
+      code: 'fr',
+      name: 'Français',
+      connectors: ['puis'],
+      conjunctions: ['et'],
+      numbers: { cent: 100, deux: 2 },
+      directions: { haut: 'up', bas: 'down', gauche: 'left', droite: 'right' },
+      elementTypes: { bouton: 'button', champ: 'field' },
+      commands: {
+        'launch app': {
+          patterns: [/lancer\s+(l')?app\s+(?<bundleId>[^\s,]+)/i],
+          examples: ['lancer app com.example.app']
+        },
+        'tap': {
+          patterns: [/toucher\s+(?<x>\d+)\s*,\s*(?<y>\d+)/i],
+          examples: ['toucher 100, 200']
+        }
+      }
+    };
+
+    it('should detect the language of each instruction', async () => {
+      expect((await parser.parseInstruction('tap at 100, 200')).language).toBe('en');
+      expect((await parser.parseInstruction('tocar 100, 200')).language).toBe('es');
+    });
+
+    it('should match instructions written without accents', async () => {
+      const result = await parser.parseInstruction('establecer ubicacion 40.4168, -3.7038');
+
+      expect(result.command).toBe('set location');
+      expect(result.parameters).toEqual({ latitude: 40.4168, longitude: -3.7038 });
+    });
+
+    it('should only match the selected language', async () => {
+      await expect(parser.parseInstruction('tocar 100, 200', { language: 'en' }))
+        .rejects.toThrow('Could not understand the instruction');
+      expect((await parser.parseInstruction('tocar 100, 200', { language: 'es' })).command).toBe('tap');
+    });
+
+    it('should reject unavailable languages', async () => {
+      await expect(parser.parseInstruction('tap 100, 200', { language: 'fr' }))
+        .rejects.toThrow('Unsupported language "fr". Available languages: en, es');
+    });
+
+    it('should replace number words when the instruction does not match as written', async () => {
+      const result = await parser.parseInstruction('pulsar la tecla cuatro');
+
+      expect(result.command).toBe('press key');
+      expect(result.parameters.keyCode).toBe(4);
+      expect(result.originalText).toBe('pulsar la tecla cuatro');
+    });
+
+    it('should support additional language packs', async () => {
+      const frenchParser = new NLParser({ languages: [...DEFAULT_LANGUAGE_PACKS, french] });
+      const result = await frenchParser.parseInstruction("lancer l'app com.foo puis toucher cent, deux");
+
+      expect(frenchParser.getLanguages()).toEqual(['en', 'es', 'fr']);
+      expect(result.language).toBe('fr');
+      expect(result.steps?.map(step => step.command)).toEqual(['launch app', 'tap']);
+      expect(result.steps?.[1].parameters).toEqual({ x: 100, y: 2 });
+    });
+
+    it('should reject language packs phrasing unknown commands', () => {
+      const typo = { ...french, commands: { 'lunch app': french.commands['launch app'] } };
+      expect(() => new NLParser({ languages: [typo] })).toThrow('Language "fr" phrases unknown command "lunch app"');
+    });
+  });
+
+  describe('element instructions', () => {
+    it('should read the element name and type', async () => {
+      expect((await parser.parseInstruction('tap the Sign In button')).parameters)
+        .toEqual({ element: 'Sign In', elementType: 'button' });
+      expect((await parser.parseInstruction('type "me@example.com" into the Email field')).parameters)
+        .toEqual({ text: 'me@example.com', element: 'Email', elementType: 'field' });
+    });
+
+    it('should translate element types of other languages', async () => {
+      const result = await parser.parseInstruction('escribir hola en el campo de texto Correo');
+
+      expect(result.command).toBe('input text into element');
+      expect(result.parameters).toEqual({ text: 'hola', element: 'Correo', elementType: 'field' });
+    });
+
+    it('should describe the elements of the screen', async () => {
+      for (const instruction of ['describe elements', 'describe all elements', 'describir elementos']) {
+        expect((await parser.parseInstruction(instruction)).command).toBe('describe elements');
+      }
+    });
+
+    it('should keep tapping coordinates and device buttons', async () => {
+      expect((await parser.parseInstruction('tap at 100, 200')).command).toBe('tap');
+      expect((await parser.parseInstruction('tocar 100, 200')).command).toBe('tap');
+      expect((await parser.parseInstruction('tap device button LOCK')).command).toBe('press device button');
+    });
+
+    it('should read coordinates separated by spaces instead of element labels', async () => {
+      for (const instruction of ['tap 100 200', 'tap at 100 200', 'tocar 100 200']) {
+        const result = await parser.parseInstruction(instruction);
+        expect(result.command).toBe('tap');
+        expect(result.parameters).toEqual({ x: 100, y: 200 });
+      }
+      expect((await parser.parseInstruction('tap Room 101')).parameters).toEqual({ element: 'Room 101' });
+    });
+  });
+
+  describe('gestures', () => {
+    it('should translate direction words', async () => {
+      expect((await parser.parseInstruction('scroll down')).parameters).toEqual({ direction: 'down' });
+      expect((await parser.parseInstruction('deslizar hacia la izquierda desde el borde derecho')).parameters)
+        .toEqual({ direction: 'left', fromEdge: true });
+    });
+
+    it('should read durations in seconds or milliseconds', async () => {
+      expect((await parser.parseInstruction('long press at 100, 200 for 2s')).parameters)
+        .toEqual({ x: 100, y: 200, duration: 2000 });
+      expect((await parser.parseInstruction('mantener pulsado 100, 200 durante 300 ms')).parameters.duration).toBe(300);
+    });
+
+    it('should prefer double taps over taps', async () => {
+      const result = await parser.parseInstruction('double tap at 100, 200');
+
+      expect(result.command).toBe('double tap');
+      expect(result.ambiguous).toBeUndefined();
+    });
+  });
+
   describe('validateInstruction', () => {
     it('should validate a complete instruction', async () => {
       const parseResult: ParseResult = {
@@ -66,6 +329,37 @@ describe('NLParser', () => {
       expect(result.errorMessage).toContain('Missing required parameters');
     });
 
+    it('should report parameters breaking their constraints', async () => {
+      const result = await parser.validateInstruction({
+        command: 'set location',
+        parameters: { latitude: 100, longitude: -122.4 },
+        confidence: 1.0,
+        originalText: 'set location 100, -122.4'
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidParameters).toEqual({ latitude: 'must be at most 90' });
+      expect(result.errorMessage).toBe('Invalid parameters: latitude must be at most 90');
+    });
+
+    it('should check enums, formats and list items', async () => {
+      const validate = (command: string, parameters: Record<string, any>) =>
+        parser.validateInstruction({ command, parameters, confidence: 1.0, originalText: command });
+
+      expect((await validate('press device button', { button: 'POWER' })).invalidParameters).toEqual({
+        button: 'must be one of: APPLE_PAY, HOME, LOCK, SIDE_BUTTON, SIRI'
+      });
+      expect((await validate('open url', { url: 'example' })).invalidParameters).toEqual({
+        url: 'must be a URL with a scheme, e.g. https://example.com'
+      });
+      expect((await validate('press key sequence', { keyCodes: [4, 'enter'] })).invalidParameters).toEqual({
+        keyCodes: 'item 2 must be a number'
+      });
+      expect((await validate('boot simulator', { udid: 'not-a-udid' })).invalidParameters).toEqual({
+        udid: 'must be a UDID such as 5A321B8F-4D85-4267-9F79-2F5C91D142C2'
+      });
+    });
+
     it('should detect unrecognized commands', async () => {
       const parseResult: ParseResult = {
         command: 'invalid-command',
@@ -99,6 +393,30 @@ describe('NLParser', () => {
       expect(result.parameters.longitude).toBe(-122.4194);
     });
 
+    it('should convert parameters to their declared type', async () => {
+      const result = await parser.normalizeParameters({
+        command: 'press key',
+        parameters: { keyCode: '13', bundleId: '1234', keyCodes: '4 5', autoboot: 'true' },
+        confidence: 1.0,
+        originalText: 'press key 13'
+      });
+
+      expect(result.parameters).toEqual({ keyCode: 13, bundleId: '1234', keyCodes: [4, 5], autoboot: true });
+    });
+
+    it('should keep quoted list items with spaces whole', async () => {
+      const parsed = await parser.parseInstruction('add media "/tmp/My Photos/beach.png" /tmp/video.mp4');
+      expect(parsed.parameters.mediaPaths).toEqual(['/tmp/My Photos/beach.png', '/tmp/video.mp4']);
+
+      const result = await parser.normalizeParameters({
+        command: 'add media',
+        parameters: { mediaPaths: "'/tmp/My Photos/a.png', /tmp/b.png" },
+        confidence: 1.0,
+        originalText: 'add media'
+      });
+      expect(result.parameters.mediaPaths).toEqual(['/tmp/My Photos/a.png', '/tmp/b.png']);
+    });
+
     it('should normalize boolean string values to booleans', async () => {
       const parseResult: ParseResult = {
         command: 'set-preference',
@@ -144,6 +462,11 @@ describe('NLParser', () => {
       expect(suggestions.some(s => s.startsWith('launch'))).toBe(true);
     });
 
+    it('should suggest similar commands for misspelled text', async () => {
+      const suggestions = await parser.suggestCompletions('lanch');
+      expect(suggestions).toContain('launch app com.example.app');
+    });
+
     it('should return empty array for completely irrelevant text', async () => {
       const suggestions = await parser.suggestCompletions('xyzabc123');
       expect(Array.isArray(suggestions)).toBe(true);
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NLParser } from '../NLParser.js';
+import { CommandConfig, fillPlaceholders, loadCommandConfig, parseCommandConfig } from '../customCommands.js';
+
+const config: CommandConfig = parseCommandConfig({
+  aliases: [
+    {
+      command: 'launch app',
+      patterns: ['^open (?<app>\\w+) please$'],
+      parameters: { bundleId: 'com.example.${app}' },
+      examples: ['open shop please']
+    },
+    {
+      command: 'capture screen',
+      patterns: ['^snap(\\s+(?<outputPath>\\S+))?$']
+    }
+  ],
+  macros: [
+    {
+      name: 'login as test user',
+      description: 'Logs in with a test account',
+      patterns: ['login as (?<user>\\w+) user'],
+      parameters: { user: { type: 'string', enum: ['test', 'admin'] } },
+      examples: ['login as test user'],
+      steps: [
+        'tap 100, 200',
+        { command: 'input text', parameters: { text: '${user}@example.com' } },
+        'tap 100, 300 then take a screenshot'
+      ]
+    },
+    {
+      name: 'scroll down',
+      patterns: ['scroll down (?<times>\\d+) times'],
+      parameters: { times: { type: 'integer', minimum: 1 } },
+      steps: [{ command: 'press key sequence', parameters: { keyCodes: '81 81' } }]
+    },
+    {
+      name: 'fresh start',
+      steps: ['launch app com.example.shop', 'login as admin user']
+    }
+  ]
+});
+
+describe('custom commands', () => {
+  let parser: NLParser;
+
+  beforeEach(() => {
+    parser = new NLParser({ commands: config });
+  });
+
+  describe('aliases', () => {
+    it('should rewrite the parameters of the aliased command', async () => {
+      const result = await parser.parseInstruction('open shop please');
+
+      expect(result.command).toBe('launch app');
+      expect(result.parameters).toEqual({ bundleId: 'com.example.shop' });
+    });
+
+    it('should pass named groups through when no parameters are given', async () => {
+      expect((await parser.parseInstruction('snap')).parameters).toEqual({});
+      expect((await parser.parseInstruction('snap /tmp/shot.png')).parameters).toEqual({ outputPath: '/tmp/shot.png' });
+    });
+
+    it('should not list aliases as commands', async () => {
+      const commands = (await parser.getSupportedCommands()).map(command => command.command);
+      expect(commands.filter(command => command === 'launch app')).toHaveLength(1);
+    });
+  });
+
+  describe('macros', () => {
+    it('should expand into their steps filled in with the parameters', async () => {
+      const result = await parser.normalizeParameters(await parser.parseInstruction('login as test user'));
+
+      expect(result.command).toBe('login as test user');
+      expect(result.steps?.map(step => step.command)).toEqual(['tap', 'input text', 'tap', 'capture screen']);
+      expect(result.steps?.[1].parameters).toEqual({ text: 'test@example.com' });
+      expect(result.steps?.[2].parameters).toEqual({ x: 100, y: 300 });
+    });
+
+    it('should expand macros used by other macros', async () => {
+      const result = await parser.normalizeParameters(await parser.parseInstruction('fresh start'));
+
+      expect(result.steps?.map(step => step.command)).toEqual(['launch app', 'tap', 'input text', 'tap', 'capture screen']);
+      expect(result.steps?.[2].parameters.text).toBe('admin@example.com');
+    });
+
+    it('should validate their parameters with the declared types', async () => {
+      const result = await parser.validateInstruction(await parser.parseInstruction('login as guest user'));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toBe('Invalid parameters: user must be one of: test, admin');
+    });
+
+    it('should validate the steps they expand into', async () => {
+      expect((await parser.validateInstruction(await parser.parseInstruction('scroll down 3 times'))).isValid).toBe(true);
+    });
+
+    it('should be listed with their parameter types', async () => {
+      const commands = await parser.getSupportedCommands();
+      const macro = commands.find(command => command.command === 'login as test user');
+
+      expect(macro).toMatchObject({
+        description: 'Logs in with a test account',
+        requiredParameters: ['user'],
+        parameterSpecs: { user: { type: 'string', enum: ['test', 'admin'] } }
+      });
+    });
+
+    it('should be suggested as completions', async () => {
+      expect(await parser.suggestCompletions('login')).toContain('login as test user');
+    });
+
+    it('should detect macros that run themselves', async () => {
+      const recursive = new NLParser({
+        commands: parseCommandConfig({ macros: [{ name: 'loop forever', steps: ['loop forever'] }] })
+      });
+      const result = await recursive.validateInstruction(await recursive.parseInstruction('loop forever'));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorMessage).toContain('nested more than 10 levels deep');
+    });
+  });
+
+  describe('configuration', () => {
+    it('should report the invalid entry', () => {
+      expect(() => parseCommandConfig({ macros: [{ name: 'broken', steps: [] }] }))
+        .toThrow('Invalid command config: macros[0].steps Array must contain at least 1 element(s)');
+      expect(() => parseCommandConfig({ aliases: [{ command: 'tap', patterns: ['(unclosed'] }] }))
+        .toThrow('Invalid command config: aliases[0].patterns[0] must be a valid regular expression');
+    });
+
+    it('should require every macro parameter to be captured', () => {
+      expect(() => parseCommandConfig({
+        macros: [{ name: 'greet', parameters: { name: { type: 'string' } }, steps: ['input text ${name}'] }]
+      })).toThrow('macros[0] parameter "name" is not captured by any pattern');
+    });
+
+    it('should reject aliases and steps of unknown commands', () => {
+      expect(() => new NLParser({ commands: parseCommandConfig({ aliases: [{ command: 'fly', patterns: ['fly'] }] }) }))
+        .toThrow('Alias of unknown command "fly"');
+      expect(() => new NLParser({
+        commands: parseCommandConfig({ macros: [{ name: 'go', steps: [{ command: 'fly' }] }] })
+      })).toThrow('Step "fly" of macro "go" is not a known command');
+    });
+
+    it('should load configurations from JSON files', () => {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'commands-')), 'commands.json');
+      fs.writeFileSync(file, JSON.stringify({ macros: [{ name: 'home', steps: ['press button HOME'] }] }));
+
+      expect(loadCommandConfig(file).macros[0].name).toBe('home');
+      expect(() => loadCommandConfig(`${file}.missing`)).toThrow(`Could not read command config ${file}.missing`);
+    });
+  });
+
+  describe('fillPlaceholders', () => {
+    it('should keep the type of single placeholders and unknown placeholders', () => {
+      expect(fillPlaceholders({ x: '${x}', text: 'at ${x}, ${vars.y}' }, { x: 10 })).toEqual({ x: 10, text: 'at 10, ${vars.y}' });
+    });
+  });
+});
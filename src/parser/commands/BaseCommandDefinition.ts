@@ -2,6 +2,10 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { ParseResult } from '../interfaces/IParser.js';
+import { LanguagePack } from '../interfaces/ILanguagePack.js';
+import { DEFAULT_LANGUAGE_PACKS, accentInsensitive, foldAccents } from '../languages/index.js';
+import { ParameterSpec } from '../parameters.js';
+import { MacroStep } from '../customCommands.js';
 
 export interface CommandDefinition {
   command: string;
@@ -11,40 +15,227 @@ export interface CommandDefinition {
   optionalParameters: string[];
   examples: string[];
   parameterExtractors: Record<string, (match: RegExpMatchArray) => any>;
+  /**
+   * Patterns by language code, for definitions built from language packs.
+   * Definitions without them match in every language
+   */
+  localizedPatterns?: Record<string, RegExp[]>;
+  /**
+   * Types of the parameters of this command that are not declared in PARAMETER_SPECS
+   */
+  parameterSpecs?: Record<string, ParameterSpec>;
+  /**
+   * Whether the definition is another phrasing of a command defined by a
+   * previously registered handler. Aliases are not listed as commands
+   */
+  alias?: boolean;
+  /**
+   * Steps the command expands into, making it a macro
+   */
+  macroSteps?: MacroStep[];
+}
+
+/**
+ * Language-neutral part of a command definition, completed with the patterns
+ * and examples of the language packs
+ */
+export type CommandSpec = Omit<CommandDefinition, 'patterns' | 'examples' | 'localizedPatterns' | 'alias' | 'macroSteps'>;
+
+/**
+ * Weights of the signals combined into the confidence of a match
+ */
+const SCORE_WEIGHTS = {
+  coverage: 0.5,
+  specificity: 0.3,
+  parameters: 0.2
+};
+
+/**
+ * Parameters whose values are words of a language pack vocabulary, replaced
+ * by the value they stand for in that language
+ */
+const VOCABULARIES: Record<string, (language: LanguagePack) => Record<string, string>> = {
+  elementType: language => language.elementTypes,
+  direction: language => language.directions
+};
+
+/**
+ * Counts the literal characters of a pattern, i.e. the fixed words it requires
+ * as opposed to whitespace, character classes and captured values
+ * @param pattern Command pattern
+ * @returns Number of literal characters
+ */
+function literalLength(pattern: RegExp): number {
+  return pattern.source
+    .replace(/\(\?(<\w+>|[:!=])/g, '(')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\\[a-zA-Z]/g, '')
+    .replace(/\\(.)/g, '$1')
+    .replace(/\{\d*,?\d*\}|[()|?*+.^$]/g, '')
+    .length;
 }
 
 export abstract class BaseCommandDefinition {
   protected abstract definitions: CommandDefinition[];
 
+  /**
+   * Constructor
+   * @param languages Language packs providing the patterns and examples of the commands
+   */
+  constructor(protected readonly languages: LanguagePack[] = DEFAULT_LANGUAGE_PACKS) {}
+
+  /**
+   * Completes command specs with the patterns and examples of every language pack.
+   * Accented letters of the patterns also match without the accent
+   * @param specs Language-neutral command specs
+   * @returns Command definitions
+   */
+  protected localize(specs: CommandSpec[]): CommandDefinition[] {
+    return specs.map(spec => {
+      const localizedPatterns: Record<string, RegExp[]> = {};
+      const examples: string[] = [];
+
+      for (const language of this.languages) {
+        const phrases = language.commands[spec.command];
+        if (phrases) {
+          localizedPatterns[language.code] = phrases.patterns.map(accentInsensitive);
+          examples.push(...phrases.examples);
+        }
+      }
+
+      return {
+        ...spec,
+        patterns: Object.values(localizedPatterns).flat(),
+        examples,
+        localizedPatterns
+      };
+    });
+  }
+
   getDefinitions(): CommandDefinition[] {
     return this.definitions;
   }
 
-  parseCommand(text: string): ParseResult | null {
-    const normalizedText = text.trim().toLowerCase();
+  /**
+   * Parses a text with the best matching definition of this handler
+   * @param text Natural language instruction
+   * @param language Code of the only language to match, or undefined to try all of them
+   * @returns Best candidate or null if no definition matches
+   */
+  parseCommand(text: string, language?: string): ParseResult | null {
+    return this.matchCommands(text, language)[0] ?? null;
+  }
+
+  /**
+   * Matches a text against every definition of this handler
+   * @param text Natural language instruction
+   * @param language Code of the only language to match, or undefined to try all of them
+   * @returns One candidate per matching definition, best first, tagged with
+   *          the language of the pattern that matched
+   */
+  matchCommands(text: string, language?: string): ParseResult[] {
+    // Patterns are case-insensitive; keep the original case of extracted values
+    const normalizedText = text.trim().normalize('NFC');
+    const candidates: ParseResult[] = [];
     
     for (const definition of this.definitions) {
-      for (const pattern of definition.patterns) {
+      let best: ParseResult | null = null;
+
+      // Patterns with the language they belong to
+      const patterns: Array<[string | undefined, RegExp]> = definition.localizedPatterns
+        ? Object.entries(definition.localizedPatterns)
+          .filter(([code]) => !language || code === language)
+          .flatMap(([code, localized]) => localized.map(pattern => [code, pattern] as [string, RegExp]))
+        : definition.patterns.map(pattern => [undefined, pattern]);
+
+      for (const [patternLanguage, pattern] of patterns) {
         const match = normalizedText.match(pattern);
-        if (match) {
-          const parameters: Record<string, any> = {};
-          for (const [paramName, extractor] of Object.entries(definition.parameterExtractors)) {
-            const value = extractor(match);
-            if (value !== undefined) {
-              parameters[paramName] = value;
-            }
+        if (!match) {
+          continue;
+        }
+
+        const parameters: Record<string, any> = {};
+        for (const [paramName, extractor] of Object.entries(definition.parameterExtractors)) {
+          const value = extractor(match);
+          if (value !== undefined) {
+            parameters[paramName] = value;
           }
-          
-          return {
+        }
+
+        if (patternLanguage) {
+          this.translateWords(parameters, patternLanguage);
+        }
+
+        const confidence = this.score(definition, pattern, match, normalizedText, parameters);
+        if (!best || confidence > best.confidence) {
+          best = {
             command: definition.command,
             parameters,
-            confidence: 0.9,
-            originalText: text
+            confidence,
+            originalText: text,
+            ...(patternLanguage ? { language: patternLanguage } : {})
           };
         }
       }
+
+      if (best) {
+        candidates.push(best);
+      }
     }
     
-    return null;
+    return candidates.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Replaces the vocabulary words of the extracted parameters by their value
+   * @param parameters Extracted parameters, modified in place
+   * @param languageCode Language of the pattern that matched
+   */
+  private translateWords(parameters: Record<string, any>, languageCode: string): void {
+    const language = this.languages.find(pack => pack.code === languageCode);
+    if (!language) {
+      return;
+    }
+
+    for (const [name, vocabulary] of Object.entries(VOCABULARIES)) {
+      if (typeof parameters[name] !== 'string') {
+        continue;
+      }
+      const word = foldAccents(parameters[name]).toLowerCase().replace(/\s+/g, ' ');
+      const entry = Object.entries(vocabulary(language))
+        .find(([candidate]) => foldAccents(candidate).toLowerCase() === word);
+      if (entry) {
+        parameters[name] = entry[1];
+      }
+    }
+  }
+
+  /**
+   * Scores a match between 0 and 1 from how much of the text it covers, how much of
+   * it is fixed wording of the pattern and how many parameters it extracted
+   * @param definition Matched definition
+   * @param pattern Matched pattern
+   * @param match Match result
+   * @param text Matched text
+   * @param parameters Extracted parameters
+   * @returns Confidence of the match
+   */
+  private score(
+    definition: CommandDefinition,
+    pattern: RegExp,
+    match: RegExpMatchArray,
+    text: string,
+    parameters: Record<string, any>
+  ): number {
+    const matchLength = Math.max(match[0].length, 1);
+    const coverage = matchLength / Math.max(text.length, 1);
+    const specificity = Math.min(literalLength(pattern) / matchLength, 1);
+    const extractors = Object.keys(definition.parameterExtractors).length;
+    const parameterScore = extractors === 0 ? 1 : Object.keys(parameters).length / extractors;
+
+    const confidence = SCORE_WEIGHTS.coverage * coverage +
+      SCORE_WEIGHTS.specificity * specificity +
+      SCORE_WEIGHTS.parameters * parameterScore;
+    return Math.round(confidence * 100) / 100;
   }
 }
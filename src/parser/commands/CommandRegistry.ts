@@ -1,40 +1,436 @@
 // SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
 // SPDX-License-Identifier: Apache-2.0
 
-import { ParseResult } from '../interfaces/IParser.js';
-import { BaseCommandDefinition } from './BaseCommandDefinition.js';
+import { CommandSuggestion, ParseResult, SupportedCommand } from '../interfaces/IParser.js';
+import { BaseCommandDefinition, CommandDefinition } from './BaseCommandDefinition.js';
+import { splitConjunctions, splitInstruction } from '../InstructionSplitter.js';
+import { phraseSimilarity, tokenize, wordSimilarity } from '../similarity.js';
+import { UnrecognizedInstructionError } from '../errors.js';
+import { PARAMETER_SPECS } from '../parameters.js';
+import { LanguagePack } from '../interfaces/ILanguagePack.js';
+import { DEFAULT_LANGUAGE_PACKS, replaceNumberWords } from '../languages/index.js';
+import { fillPlaceholders } from '../customCommands.js';
+
+/**
+ * Minimum confidence difference between the best two candidates for a parse to be unambiguous
+ */
+export const AMBIGUITY_MARGIN = 0.05;
+
+/**
+ * Maximum number of alternatives reported with a parse result
+ */
+const MAX_ALTERNATIVES = 3;
+
+/**
+ * Number of "did you mean" suggestions and minimum similarity to be suggested
+ */
+const MAX_SUGGESTIONS = 3;
+const MIN_SUGGESTION_SCORE = 0.55;
+
+/**
+ * Minimum similarity for a misspelled word to be replaced by a command word
+ */
+const MIN_CORRECTION_SIMILARITY = 0.7;
+
+/**
+ * Maximum nesting of macros expanding into other macros, which catches recursive macros
+ */
+const MAX_MACRO_DEPTH = 10;
 
 export class CommandRegistry {
   private commandHandlers: BaseCommandDefinition[] = [];
 
+  /**
+   * Constructor
+   * @param languages Language packs of the registered handlers, providing the
+   *        step connectors and number words
+   */
+  constructor(private readonly languages: LanguagePack[] = DEFAULT_LANGUAGE_PACKS) {}
+
+  /**
+   * Registers a command handler
+   * @param handler Handler with its command definitions
+   * @throws Error if a definition uses a parameter without a declared type, an alias
+   *         targets an unknown command or a macro step runs an unknown command
+   */
   registerHandler(handler: BaseCommandDefinition) {
+    const registered = new Set(this.getCommandDefinitions().map(definition => definition.command));
+    const known = new Set([
+      ...registered,
+      ...handler.getDefinitions().filter(definition => !definition.alias).map(definition => definition.command)
+    ]);
+
+    for (const definition of handler.getDefinitions()) {
+      for (const parameter of [...definition.requiredParameters, ...definition.optionalParameters]) {
+        if (!definition.parameterSpecs?.[parameter] && !PARAMETER_SPECS[parameter]) {
+          throw new Error(`Parameter ${parameter} of command "${definition.command}" has no declared type`);
+        }
+      }
+
+      if (definition.alias && !registered.has(definition.command)) {
+        throw new Error(`Alias of unknown command "${definition.command}"`);
+      }
+
+      for (const step of definition.macroSteps || []) {
+        if (typeof step !== 'string' && !known.has(step.command)) {
+          throw new Error(`Step "${step.command}" of macro "${definition.command}" is not a known command`);
+        }
+      }
+    }
     this.commandHandlers.push(handler);
   }
 
-  parseInstruction(text: string): ParseResult {
-    for (const handler of this.commandHandlers) {
-      const result = handler.parseCommand(text);
-      if (result) {
-        return result;
+  /**
+   * Gets the definitions of the registered commands, without aliases
+   * @returns Command definitions
+   */
+  private getCommandDefinitions(): CommandDefinition[] {
+    return this.commandHandlers
+      .flatMap(handler => handler.getDefinitions())
+      .filter(definition => !definition.alias);
+  }
+
+  /**
+   * Expands a macro into its steps, filled in with the parameters of the macro.
+   * Instruction steps are parsed, and steps that are macros are expanded in turn
+   * @param result Parsed macro
+   * @param depth Number of enclosing macros
+   * @returns Parse result with the steps of the macro, or the result as is if it is not a macro
+   * @throws Error if a step cannot be parsed or macros nest too deep
+   */
+  expandMacro(result: ParseResult, depth: number = 0): ParseResult {
+    const definition = this.getCommandDefinitions().find(candidate => candidate.command === result.command);
+    if (!definition?.macroSteps || result.steps) {
+      return result;
+    }
+    if (depth >= MAX_MACRO_DEPTH) {
+      throw new Error(`Macro "${result.command}" is nested more than ${MAX_MACRO_DEPTH} levels deep. Does it run itself?`);
+    }
+
+    const expandStep = (step: ParseResult): ParseResult[] => {
+      const expanded = this.expandMacro(step, depth + 1);
+      return expanded.steps || [expanded];
+    };
+
+    const steps = definition.macroSteps.flatMap(step => {
+      const parsed: ParseResult = typeof step === 'string'
+        ? this.parseInstruction(fillPlaceholders(step, result.parameters))
+        : {
+          command: step.command,
+          parameters: fillPlaceholders(step.parameters || {}, result.parameters),
+          confidence: 1,
+          originalText: step.command
+        };
+      // Instructions may be compound
+      return parsed.steps ? parsed.steps.flatMap(expandStep) : expandStep(parsed);
+    });
+
+    return {
+      ...result,
+      steps
+    };
+  }
+
+  /**
+   * Checks that the language packs only phrase registered commands, so that typos in
+   * command IDs are reported instead of silently ignored
+   * @throws Error if two packs share a code or a pack phrases an unknown command
+   */
+  checkLanguages() {
+    const commands = new Set(this.commandHandlers.flatMap(handler => handler.getDefinitions()).map(definition => definition.command));
+    const codes = new Set<string>();
+
+    for (const language of this.languages) {
+      if (codes.has(language.code)) {
+        throw new Error(`Language "${language.code}" is registered more than once`);
+      }
+      codes.add(language.code);
+
+      for (const command of Object.keys(language.commands)) {
+        if (!commands.has(command)) {
+          throw new Error(`Language "${language.code}" phrases unknown command "${command}"`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Gets the codes of the available languages
+   * @returns Language codes, e.g. ["en", "es"]
+   */
+  getLanguages(): string[] {
+    return this.languages.map(language => language.code);
+  }
+
+  /**
+   * Parses an instruction. Compound instructions are split into steps, parsed one by one
+   * @param text Natural language instruction
+   * @param language Code of the language of the instruction, or undefined to detect it
+   * @returns Parse result, with `steps` if the instruction has more than one
+   * @throws Error if the language is not available
+   */
+  parseInstruction(text: string, language?: string): ParseResult {
+    const languages = this.resolveLanguages(language);
+    const fragments = this.splitFragments(text, languages, language);
+    if (fragments.length <= 1) {
+      return this.parseFragment(fragments[0] ?? text, languages, language);
+    }
+
+    const steps = fragments.map((fragment, index) => {
+      try {
+        return this.parseFragment(fragment, languages, language);
+      } catch (error: any) {
+        throw new UnrecognizedInstructionError(
+          `${fragment || '(empty step)'} (step ${index + 1} of ${fragments.length})`,
+          error.suggestions
+        );
       }
+    });
+
+    // The instruction has a language when all of its steps do
+    const stepLanguages = new Set(steps.map(step => step.language));
+    const [stepLanguage] = stepLanguages;
+    return {
+      command: 'sequence',
+      parameters: {},
+      confidence: Math.min(...steps.map(step => step.confidence)),
+      originalText: text,
+      steps,
+      ...(stepLanguages.size === 1 && stepLanguage ? { language: stepLanguage } : {})
+    };
+  }
+
+  /**
+   * Gets the packs an instruction may be written in
+   * @param language Requested language code, or undefined for all of them
+   * @returns Language packs
+   * @throws Error if the language is not available
+   */
+  private resolveLanguages(language?: string): LanguagePack[] {
+    if (!language) {
+      return this.languages;
+    }
+    const pack = this.languages.find(candidate => candidate.code === language.toLowerCase());
+    if (!pack) {
+      throw new Error(`Unsupported language "${language}". Available languages: ${this.getLanguages().join(', ')}`);
+    }
+    return [pack];
+  }
+
+  /**
+   * Splits an instruction into steps on connectors, newlines and semicolons, and
+   * then on conjunctions. When some step is not a command, the separators may be
+   * part of a free-text value (e.g. "input text see you then", "open url
+   * https://example.com/?a=1;b=2"), so the instruction is kept whole if a value
+   * runs to its end
+   * @param text Natural language instruction
+   * @param languages Languages of the instruction
+   * @param language Requested language code, if any
+   * @returns Steps of the instruction
+   */
+  private splitFragments(text: string, languages: LanguagePack[], language?: string): string[] {
+    const fragments = splitInstruction(text, languages)
+      .flatMap(fragment => fragment ? this.splitSteps(fragment, languages, language) : [fragment]);
+    if (fragments.length <= 1 || fragments.every(fragment => this.tryParse(fragment, languages, language))) {
+      return fragments;
+    }
+
+    const whole = text.trim();
+    const result = this.tryParse(whole, languages, language);
+    const endsWithValue = Object.values(result?.parameters ?? {})
+      .some(value => typeof value === 'string' && value && whole.normalize('NFC').endsWith(value));
+    return endsWithValue ? [whole] : fragments;
+  }
+
+  /**
+   * Splits a fragment on "and"/"y" only when every part is a command by itself,
+   * so that values such as "input text salt and pepper" are kept whole
+   * @param fragment Instruction fragment
+   * @param languages Languages of the instruction
+   * @param language Requested language code, if any
+   * @returns Steps of the fragment
+   */
+  private splitSteps(fragment: string, languages: LanguagePack[], language?: string): string[] {
+    const parts = splitConjunctions(fragment, languages);
+    if (parts.length > 1 && parts.every(part => this.tryParse(part, languages, language))) {
+      return parts;
+    }
+    return [fragment];
+  }
+
+  /**
+   * Ranks the candidates of every handler. When the best two are closer than
+   * AMBIGUITY_MARGIN, the result is marked as ambiguous. Number words are only
+   * replaced by digits when nothing matches the text as written
+   * @param text Instruction fragment
+   * @param languages Languages of the instruction
+   * @param language Requested language code, if any
+   * @returns Best candidate, with the runners-up as alternatives, or null if nothing matches
+   */
+  private tryParse(text: string, languages: LanguagePack[], language?: string): ParseResult | null {
+    let candidates = this.rankCandidates(text, language);
+    for (const pack of languages) {
+      if (candidates.length > 0) {
+        break;
+      }
+      const withDigits = replaceNumberWords(text, pack.numbers);
+      if (withDigits !== text) {
+        candidates = this.rankCandidates(withDigits, pack.code)
+          .map(candidate => ({ ...candidate, originalText: text }));
+      }
+    }
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const [best, ...others] = candidates;
+    const alternatives = others.slice(0, MAX_ALTERNATIVES);
+    return {
+      ...best,
+      ...(alternatives.length > 0 ? { alternatives } : {}),
+      ...(alternatives.length > 0 && best.confidence - alternatives[0].confidence < AMBIGUITY_MARGIN
+        ? { ambiguous: true }
+        : {})
+    };
+  }
+
+  /**
+   * Matches a text against every handler
+   * @param text Instruction fragment
+   * @param language Code of the only language to match, or undefined for all of them
+   * @returns Candidates, best first
+   */
+  private rankCandidates(text: string, language?: string): ParseResult[] {
+    // Stable sort: handlers registered first win ties
+    return this.commandHandlers
+      .flatMap(handler => handler.matchCommands(text, language))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  private parseFragment(text: string, languages: LanguagePack[], language?: string): ParseResult {
+    const result = this.tryParse(text, languages, language);
+    if (result) {
+      return result;
     }
     
-    throw new Error(`Could not understand the instruction: ${text}`);
+    throw new UnrecognizedInstructionError(text, this.suggestCommands(text));
   }
 
-  async getSupportedCommands(): Promise<Array<{
-    command: string;
-    description: string;
-    requiredParameters: string[];
-    optionalParameters: string[];
-  }>> {
+  /**
+   * Finds the commands closest to an instruction, by similarity of its words
+   * to the command names and examples
+   * @param text Instruction that could not be parsed
+   * @param limit Maximum number of suggestions
+   * @returns Suggestions, best first
+   */
+  suggestCommands(text: string, limit: number = MAX_SUGGESTIONS): CommandSuggestion[] {
     return this.commandHandlers
-      .flatMap(handler => handler.getDefinitions())
+      .flatMap(handler => handler.getDefinitions().map(definition => this.suggest(handler, definition, text)))
+      .filter(suggestion => suggestion.score >= MIN_SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Builds the suggestion of a specific command for an instruction
+   * @param command Command name
+   * @param text Instruction
+   * @returns Suggestion or null if the command does not exist
+   */
+  suggestCommand(command: string, text: string): CommandSuggestion | null {
+    for (const handler of this.commandHandlers) {
+      const definition = handler.getDefinitions().find(candidate => candidate.command === command);
+      if (definition) {
+        return this.suggest(handler, definition, text);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Scores a command against an instruction and fills in an example. Misspelled words
+   * are replaced with the closest words of the command; if the result then matches,
+   * it is suggested as is, keeping the values of the instruction
+   * @param handler Handler of the command
+   * @param definition Command definition
+   * @param text Instruction
+   * @returns Suggestion, scored even if unrelated
+   */
+  private suggest(handler: BaseCommandDefinition, definition: CommandDefinition, text: string): CommandSuggestion {
+    const words = tokenize(text);
+    const score = Math.max(...[definition.command, ...definition.examples]
+      .map(phrase => phraseSimilarity(words, tokenize(phrase))));
+
+    const corrected = this.correctWords(text, definition);
+    const match = handler.matchCommands(corrected).find(candidate => candidate.command === definition.command);
+    if (match) {
+      return {
+        command: definition.command,
+        example: corrected,
+        missingParameters: definition.requiredParameters.filter(parameter => !(parameter in match.parameters)),
+        score
+      };
+    }
+
+    const [example] = [...definition.examples]
+      .sort((a, b) => phraseSimilarity(words, tokenize(b)) - phraseSimilarity(words, tokenize(a)));
+    return {
+      command: definition.command,
+      example: example ?? definition.command,
+      missingParameters: definition.requiredParameters,
+      score
+    };
+  }
+
+  /**
+   * Replaces the words of a text that look like misspelled words of a command
+   * @param text Instruction
+   * @param definition Command definition
+   * @returns Corrected instruction
+   */
+  private correctWords(text: string, definition: CommandDefinition): string {
+    // Normalized word -> word as written in the command, accents included
+    const vocabulary = new Map<string, string>();
+    for (const phrase of [definition.command, ...definition.examples]) {
+      for (const word of phrase.toLowerCase().split(/\s+/)) {
+        const [normalized] = tokenize(word);
+        if (normalized) {
+          vocabulary.set(normalized, word);
+        }
+      }
+    }
+
+    return text.trim().split(/\s+/).map(token => {
+      const [normalized] = tokenize(token);
+      if (!normalized) {
+        return token;
+      }
+      const known = vocabulary.get(normalized);
+      if (known) {
+        // Restore missing accents ("boton" -> "botón")
+        return token.toLowerCase() === normalized && known !== normalized ? known : token;
+      }
+      let best = token;
+      let bestSimilarity = MIN_CORRECTION_SIMILARITY;
+      for (const [candidate, word] of vocabulary) {
+        const similarity = wordSimilarity(normalized, candidate);
+        if (similarity >= bestSimilarity) {
+          best = word;
+          bestSimilarity = similarity;
+        }
+      }
+      return best;
+    }).join(' ');
+  }
+
+  async getSupportedCommands(): Promise<SupportedCommand[]> {
+    return this.getCommandDefinitions()
       .map(definition => ({
         command: definition.command,
         description: definition.description,
         requiredParameters: definition.requiredParameters,
-        optionalParameters: definition.optionalParameters
+        optionalParameters: definition.optionalParameters,
+        ...(definition.parameterSpecs ? { parameterSpecs: definition.parameterSpecs } : {})
       }));
   }
 
@@ -67,6 +463,11 @@ export class CommandRegistry {
       }
     }
     
+    // Fall back to similar commands for misspelled input
+    for (const suggestion of this.suggestCommands(partialText)) {
+      suggestions.add(suggestion.example);
+    }
+    
     return Array.from(suggestions).slice(0, 5);
   }
 }
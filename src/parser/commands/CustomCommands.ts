@@ -0,0 +1,128 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { BaseCommandDefinition, CommandDefinition } from './BaseCommandDefinition.js';
+import { AliasConfig, CommandConfig, MacroConfig, fillPlaceholders } from '../customCommands.js';
+import { ParameterSpec } from '../parameters.js';
+import { accentInsensitive } from '../languages/index.js';
+
+/**
+ * Matches `${name}` placeholders, to find the groups a parameter template needs
+ */
+const PLACEHOLDER_NAMES = /\$\{\s*(\w+)\s*\}/g;
+
+/**
+ * Builds the patterns of a custom command. They match in every language
+ * @param sources Regular expressions
+ * @returns Case and accent-insensitive patterns
+ */
+function toPatterns(sources: string[]): RegExp[] {
+  return sources.map(source => accentInsensitive(new RegExp(source, 'i')));
+}
+
+/**
+ * Gets the named groups of a match that took part in it
+ */
+function matchedGroups(match: RegExpMatchArray): Record<string, string> {
+  return Object.fromEntries(Object.entries(match.groups || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => [name, value.trim()]));
+}
+
+/**
+ * Aliases and macros defined by users in a command config file
+ */
+export class CustomCommands extends BaseCommandDefinition {
+  protected definitions: CommandDefinition[];
+
+  /**
+   * Constructor
+   * @param config User-defined aliases and macros
+   */
+  constructor(config: CommandConfig) {
+    super();
+    this.definitions = [
+      ...config.aliases.map(alias => this.toAliasDefinition(alias)),
+      ...config.macros.map(macro => this.toMacroDefinition(macro))
+    ];
+  }
+
+  /**
+   * Builds the definition of an alias. Its parameters are the named groups of its
+   * patterns, or the values of `parameters` filled in with them
+   * @param alias Alias configuration
+   * @returns Command definition
+   */
+  private toAliasDefinition(alias: AliasConfig): CommandDefinition {
+    const patterns = toPatterns(alias.patterns);
+    const groupNames = [...new Set(patterns.flatMap(pattern =>
+      [...pattern.source.matchAll(/\(\?<(\w+)>/g)].map(group => group[1])))];
+
+    const parameterExtractors: CommandDefinition['parameterExtractors'] = {};
+    if (alias.parameters) {
+      for (const [name, template] of Object.entries(alias.parameters)) {
+        const needed = typeof template === 'string'
+          ? [...template.matchAll(PLACEHOLDER_NAMES)].map(placeholder => placeholder[1])
+          : [];
+        parameterExtractors[name] = (match) => {
+          const groups = matchedGroups(match);
+          // Leave the parameter out when a group it needs did not match
+          return needed.every(group => group in groups) ? fillPlaceholders(template, groups) : undefined;
+        };
+      }
+    } else {
+      for (const name of groupNames) {
+        parameterExtractors[name] = (match) => matchedGroups(match)[name];
+      }
+    }
+
+    return {
+      command: alias.command,
+      patterns,
+      description: `Alias of "${alias.command}"`,
+      requiredParameters: [],
+      optionalParameters: Object.keys(parameterExtractors),
+      examples: alias.examples || [],
+      parameterExtractors,
+      alias: true
+    };
+  }
+
+  /**
+   * Builds the definition of a macro. Every parameter of a macro is required
+   * @param macro Macro configuration
+   * @returns Command definition
+   */
+  private toMacroDefinition(macro: MacroConfig): CommandDefinition {
+    const parameterSpecs: Record<string, ParameterSpec> = {};
+    for (const [name, parameter] of Object.entries(macro.parameters || {})) {
+      const description = parameter.description || `Parameter of the "${macro.name}" macro`;
+      parameterSpecs[name] = parameter.type === 'string'
+        ? { type: 'string', enum: parameter.enum, description }
+        : parameter.type === 'boolean'
+          ? { type: 'boolean', description }
+          : { type: parameter.type, minimum: parameter.minimum, maximum: parameter.maximum, description };
+    }
+
+    const parameterExtractors: CommandDefinition['parameterExtractors'] = {};
+    for (const name of Object.keys(parameterSpecs)) {
+      parameterExtractors[name] = (match) => matchedGroups(match)[name];
+    }
+
+    // Without patterns, the macro is invoked by its name
+    const sources = macro.patterns ||
+      [macro.name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')];
+
+    return {
+      command: macro.name,
+      patterns: toPatterns(sources),
+      description: macro.description || `Runs ${macro.steps.length} steps`,
+      requiredParameters: Object.keys(parameterSpecs),
+      optionalParameters: [],
+      examples: macro.examples || [macro.name],
+      parameterExtractors,
+      parameterSpecs,
+      macroSteps: macro.steps
+    };
+  }
+}
@@ -0,0 +1,95 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { BaseCommandDefinition } from './BaseCommandDefinition.js';
+
+/**
+ * Reads a duration captured in the `seconds` or `milliseconds` group
+ * @param match Match result
+ * @returns Duration in milliseconds, or undefined if none was given
+ */
+function extractDuration(match: RegExpMatchArray): number | undefined {
+  if (match.groups?.milliseconds) {
+    return parseInt(match.groups.milliseconds, 10);
+  }
+  if (match.groups?.seconds) {
+    return Math.round(parseFloat(match.groups.seconds) * 1000);
+  }
+  return undefined;
+}
+
+export class GestureCommands extends BaseCommandDefinition {
+  protected definitions = this.localize([
+    {
+      command: 'scroll',
+      description: 'Scrolls the content of the screen in a direction',
+      requiredParameters: ['direction'],
+      optionalParameters: ['distance', 'duration', 'sessionId'],
+      parameterExtractors: {
+        direction: (match) => match.groups?.direction?.trim()
+      }
+    },
+    {
+      command: 'directional swipe',
+      description: 'Swipes in a direction across the screen or from one of its edges',
+      requiredParameters: ['direction'],
+      optionalParameters: ['fromEdge', 'distance', 'duration', 'sessionId'],
+      parameterExtractors: {
+        direction: (match) => match.groups?.direction?.trim(),
+        fromEdge: (match) => match.groups?.edge ? true : undefined
+      }
+    },
+    {
+      command: 'pull to refresh',
+      description: 'Pulls the content down to refresh it',
+      requiredParameters: [],
+      optionalParameters: ['duration', 'sessionId'],
+      parameterExtractors: {}
+    },
+    {
+      command: 'long press',
+      description: 'Touches and holds a point of the screen',
+      requiredParameters: ['x', 'y'],
+      optionalParameters: ['duration', 'sessionId'],
+      parameterExtractors: {
+        x: (match) => parseInt(match.groups?.x || '0', 10),
+        y: (match) => parseInt(match.groups?.y || '0', 10),
+        duration: extractDuration
+      }
+    },
+    {
+      command: 'double tap',
+      description: 'Taps a point of the screen twice as a double-tap gesture',
+      requiredParameters: ['x', 'y'],
+      optionalParameters: ['sessionId'],
+      parameterExtractors: {
+        x: (match) => parseInt(match.groups?.x || '0', 10),
+        y: (match) => parseInt(match.groups?.y || '0', 10)
+      }
+    },
+    {
+      command: 'drag',
+      description: 'Touches a point and drags it to another one',
+      requiredParameters: ['startX', 'startY', 'endX', 'endY'],
+      optionalParameters: ['duration', 'sessionId'],
+      parameterExtractors: {
+        startX: (match) => parseInt(match.groups?.startX || '0', 10),
+        startY: (match) => parseInt(match.groups?.startY || '0', 10),
+        endX: (match) => parseInt(match.groups?.endX || '0', 10),
+        endY: (match) => parseInt(match.groups?.endY || '0', 10),
+        duration: extractDuration
+      }
+    },
+    {
+      command: 'pinch',
+      description: 'Zooms in or out with two fingers around a point, or the centre of the screen',
+      requiredParameters: ['scale'],
+      optionalParameters: ['x', 'y', 'duration', 'sessionId'],
+      parameterExtractors: {
+        scale: (match) => match.groups?.zoomIn ? 2 : match.groups?.zoomOut ? 0.5 : undefined,
+        x: (match) => match.groups?.x ? parseInt(match.groups.x, 10) : undefined,
+        y: (match) => match.groups?.y ? parseInt(match.groups.y, 10) : undefined
+      }
+    }
+  ]);
+}
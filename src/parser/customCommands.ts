@@ -0,0 +1,161 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import fs from 'fs';
+import { z } from 'zod';
+
+/**
+ * Matches `${name}` placeholders of macro and alias parameters
+ */
+const PLACEHOLDER_PATTERN = /\$\{\s*(\w+)\s*\}/g;
+
+/**
+ * Matches strings made of a single placeholder, whose value is used as is
+ */
+const SINGLE_PLACEHOLDER_PATTERN = /^\$\{\s*(\w+)\s*\}$/;
+
+const patternSchema = z.string().min(1).refine(source => {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}, 'must be a valid regular expression');
+
+const parameterSchema = z.object({
+  type: z.enum(['string', 'number', 'integer', 'boolean']),
+  description: z.string().optional(),
+  enum: z.array(z.string()).min(1).optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional()
+}).strict();
+
+const aliasSchema = z.object({
+  command: z.string().min(1),
+  patterns: z.array(patternSchema).min(1),
+  parameters: z.record(z.unknown()).optional(),
+  examples: z.array(z.string()).optional()
+}).strict();
+
+const macroStepSchema = z.union([
+  z.string().min(1),
+  z.object({
+    command: z.string().min(1),
+    parameters: z.record(z.unknown()).optional()
+  }).strict()
+]);
+
+const macroSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  patterns: z.array(patternSchema).min(1).optional(),
+  parameters: z.record(parameterSchema).optional(),
+  examples: z.array(z.string()).optional(),
+  steps: z.array(macroStepSchema).min(1)
+}).strict();
+
+const commandConfigSchema = z.object({
+  aliases: z.array(aliasSchema).default([]),
+  macros: z.array(macroSchema).default([])
+}).strict();
+
+/**
+ * Another phrasing of an existing command. Its patterns are regular expressions whose
+ * named groups become the parameters of the command, unless `parameters` rewrites them
+ * from `${group}` placeholders, e.g. `{ "bundleId": "com.example.${app}" }`
+ */
+export type AliasConfig = z.infer<typeof aliasSchema>;
+
+/**
+ * Step of a macro: an instruction ("tap 100, 200") or a command with its parameters
+ * (`{ "command": "input text", "parameters": { "text": "${user}" } }`). Both may
+ * reference the parameters of the macro as `${name}`
+ */
+export type MacroStep = z.infer<typeof macroStepSchema>;
+
+/**
+ * Named phrase expanding into a sequence of steps. Its parameters are read from the
+ * named groups of its patterns, which default to the name of the macro
+ */
+export type MacroConfig = z.infer<typeof macroSchema>;
+
+/**
+ * User-defined aliases and macros, as read from a JSON file
+ */
+export type CommandConfig = z.infer<typeof commandConfigSchema>;
+
+/**
+ * Formats the path of a zod issue like the paths of flow errors, e.g. "macros[0].steps[1]"
+ */
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((result, segment) =>
+    typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment, '');
+}
+
+/**
+ * Validates a command configuration
+ * @param input Parsed JSON configuration
+ * @param source Name of the configuration in error messages, e.g. its file path
+ * @returns Command configuration
+ * @throws Error describing the first invalid entry
+ */
+export function parseCommandConfig(input: unknown, source: string = 'command config'): CommandConfig {
+  const result = commandConfigSchema.safeParse(input);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const location = formatPath(issue.path);
+    throw new Error(`Invalid ${source}: ${location ? `${location} ` : ''}${issue.message}`);
+  }
+
+  for (const [index, macro] of result.data.macros.entries()) {
+    for (const parameter of Object.keys(macro.parameters || {})) {
+      if (!(macro.patterns || []).some(pattern => pattern.includes(`(?<${parameter}>`))) {
+        throw new Error(`Invalid ${source}: macros[${index}] parameter "${parameter}" is not captured by any pattern`);
+      }
+    }
+  }
+
+  return result.data;
+}
+
+/**
+ * Reads user-defined aliases and macros from a JSON file
+ * @param filePath Path of the file
+ * @returns Command configuration
+ * @throws Error if the file cannot be read or is invalid
+ */
+export function loadCommandConfig(filePath: string): CommandConfig {
+  let input: unknown;
+  try {
+    input = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read command config ${filePath}: ${error.message}`);
+  }
+  return parseCommandConfig(input, `command config ${filePath}`);
+}
+
+/**
+ * Replaces `${name}` placeholders with parameter values. Strings made of a single
+ * placeholder take the value as is, keeping its type; unknown placeholders are kept
+ * @param value String, array or object with placeholders
+ * @param parameters Values by name
+ * @returns Value with the placeholders replaced
+ */
+export function fillPlaceholders(value: unknown, parameters: Record<string, any>): any {
+  if (typeof value === 'string') {
+    const single = value.match(SINGLE_PLACEHOLDER_PATTERN);
+    if (single && single[1] in parameters) {
+      return parameters[single[1]];
+    }
+    return value.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      name in parameters ? String(parameters[name]) : placeholder);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => fillPlaceholders(item, parameters));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, parameters)]));
+  }
+  return value;
+}
@@ -0,0 +1,37 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { CommandSuggestion } from './interfaces/IParser.js';
+
+/**
+ * Formats suggested instructions as a "Did you mean" hint
+ * @param examples Suggested instructions
+ * @returns Hint, or an empty string if there are no suggestions
+ */
+export function formatSuggestions(examples: string[]): string {
+  return examples.length > 0
+    ? `. Did you mean: ${examples.map(example => `"${example}"`).join(', ')}?`
+    : '';
+}
+
+/**
+ * Error raised when no command matches an instruction
+ */
+export class UnrecognizedInstructionError extends Error {
+  /**
+   * Closest commands to the instruction, best first
+   */
+  public readonly suggestions: CommandSuggestion[];
+
+  /**
+   * Constructor
+   * @param text Instruction that could not be parsed
+   * @param suggestions Closest commands to the instruction
+   */
+  constructor(text: string, suggestions: CommandSuggestion[] = []) {
+    super(`Could not understand the instruction: ${text}` +
+      formatSuggestions(suggestions.map(suggestion => suggestion.example)));
+    this.name = 'UnrecognizedInstructionError';
+    this.suggestions = suggestions;
+  }
+}
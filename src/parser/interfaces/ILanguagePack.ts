@@ -0,0 +1,60 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * ILanguagePack - Phrasings of the parser commands in one language
+ *
+ * Command handlers declare what each command does (parameters and how to extract
+ * them); language packs declare how it is said. Adding a language only takes a new
+ * pack with patterns for the command IDs it supports.
+ */
+
+import { Direction } from '../../idb/interfaces/IIDBManager.js';
+
+export { Direction };
+
+export interface CommandPhrases {
+  /**
+   * Patterns matching the command. Named groups are read by the parameter
+   * extractors of the command, so they must use the same names in every language
+   */
+  patterns: RegExp[];
+  /**
+   * Example instructions, used for suggestions and completions
+   */
+  examples: string[];
+}
+
+export interface LanguagePack {
+  /**
+   * ISO 639-1 language code, e.g. "en"
+   */
+  code: string;
+  name: string;
+  /**
+   * Phrasings by command ID, e.g. "launch app". Commands without phrasings
+   * cannot be used in this language
+   */
+  commands: Record<string, CommandPhrases>;
+  /**
+   * Words separating the steps of a compound instruction, e.g. "then"
+   */
+  connectors: string[];
+  /**
+   * Plain conjunctions, which separate steps only when every part is a command, e.g. "and"
+   */
+  conjunctions: string[];
+  /**
+   * Number words, replaced by their value when an instruction does not match as written
+   */
+  numbers: Record<string, number>;
+  /**
+   * Direction words of gesture instructions
+   */
+  directions: Record<string, Direction>;
+  /**
+   * Words naming kinds of UI elements, by the element type they stand for,
+   * e.g. "botón": "button". See ELEMENT_TYPES for the available types
+   */
+  elementTypes: Record<string, string>;
+}
@@ -1,6 +1,8 @@
 // SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
 // SPDX-License-Identifier: Apache-2.0
 
+import { ParameterSpec } from '../parameters.js';
+
 /**
  * IParser - Interface for natural language parser
  * 
@@ -13,6 +15,47 @@ export interface ParseResult {
   parameters: Record<string, any>;
   confidence: number;
   originalText: string;
+  /**
+   * Steps of a compound instruction ("launch app X then tap 100, 200"), each parsed
+   * on its own. When present, the instruction runs as a sequence of these steps
+   */
+  steps?: ParseResult[];
+  /**
+   * Other commands the text matched, best first
+   */
+  alternatives?: ParseResult[];
+  /**
+   * Whether the best alternative scored too close to this result to tell them apart
+   */
+  ambiguous?: boolean;
+  /**
+   * Code of the language the instruction was written in, e.g. "es"
+   */
+  language?: string;
+}
+
+export interface ParseOptions {
+  /**
+   * Code of the language of the instruction. When omitted, every available
+   * language is tried and the best match wins
+   */
+  language?: string;
+}
+
+export interface CommandSuggestion {
+  command: string;
+  /**
+   * Example instruction, filled in with the values of the input when possible
+   */
+  example: string;
+  /**
+   * Required parameters the input does not provide
+   */
+  missingParameters: string[];
+  /**
+   * Similarity between the input and the command, from 0 to 1
+   */
+  score: number;
 }
 
 export interface ValidationResult {
@@ -23,13 +66,26 @@ export interface ValidationResult {
   errorMessage?: string;
 }
 
+export interface SupportedCommand {
+  command: string;
+  description: string;
+  requiredParameters: string[];
+  optionalParameters: string[];
+  /**
+   * Types of the parameters of the command that are not declared in PARAMETER_SPECS,
+   * such as the parameters of user-defined macros
+   */
+  parameterSpecs?: Record<string, ParameterSpec>;
+}
+
 export interface IParser {
   /**
    * Parses a natural language instruction into a command structure
    * @param text Natural language instruction text
+   * @param options Parsing options, such as the language of the instruction
    * @returns Parsing result with extracted command and parameters
    */
-  parseInstruction(text: string): Promise<ParseResult>;
+  parseInstruction(text: string, options?: ParseOptions): Promise<ParseResult>;
 
   /**
    * Validates if an instruction has all required parameters
@@ -56,10 +112,5 @@ export interface IParser {
    * Gets the list of commands supported by the parser
    * @returns List of supported commands with their descriptions
    */
-  getSupportedCommands(): Promise<Array<{
-    command: string;
-    description: string;
-    requiredParameters: string[];
-    optionalParameters: string[];
-  }>>;
+  getSupportedCommands(): Promise<SupportedCommand[]>;
 }
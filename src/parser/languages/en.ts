@@ -0,0 +1,594 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { LanguagePack } from '../interfaces/ILanguagePack.js';
+
+/**
+ * English phrasings of the parser commands
+ */
+export const en: LanguagePack = {
+  code: 'en',
+  name: 'English',
+  connectors: ['and then', 'after that', 'then'],
+  conjunctions: ['and'],
+  numbers: {
+    zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+    eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+    eighty: 80, ninety: 90, hundred: 100, thousand: 1000
+  },
+  directions: {
+    up: 'up', upward: 'up', upwards: 'up', down: 'down', downward: 'down', downwards: 'down',
+    left: 'left', right: 'right'
+  },
+  elementTypes: {
+    button: 'button', field: 'field', 'text field': 'field', 'search field': 'field', box: 'field',
+    switch: 'switch', toggle: 'switch', link: 'link', cell: 'cell', tab: 'tab', image: 'image', icon: 'icon',
+    label: 'text'
+  },
+  commands: {
+    // Simulator management
+    'create session': {
+      patterns: [
+        /create\s+(a\s+)?session(\s+with\s+(?<deviceName>[^,]+))?/i,
+        /create\s+(a\s+)?simulator(\s+(?<deviceName>[^,]+))?/i,
+        /start\s+(a\s+)?simulator(\s+(?<deviceName>(?![0-9a-f]{8}-)[^,]+))?/i,
+        /launch\s+(a\s+)?simulator(\s+(?<deviceName>[^,]+))?/i
+      ],
+      examples: [
+        'create session with iPhone 12',
+        'create simulator iPhone 12',
+        'start simulator iPhone 13'
+      ]
+    },
+    'end session': {
+      patterns: [
+        /end\s+(the\s+)?session/i,
+        /close\s+(the\s+)?simulator/i,
+        /terminate\s+(the\s+)?session/i
+      ],
+      examples: [
+        'end session',
+        'close simulator',
+        'terminate session'
+      ]
+    },
+    'list simulators': {
+      patterns: [
+        /list\s+(all\s+)?simulators/i,
+        /show\s+(all\s+)?simulators/i,
+        /display\s+(all\s+)?simulators/i
+      ],
+      examples: [
+        'list simulators',
+        'show all simulators',
+        'display simulators'
+      ]
+    },
+    'list booted simulators': {
+      patterns: [
+        /list\s+(all\s+)?booted\s+simulators/i,
+        /show\s+running\s+simulators/i,
+        /display\s+active\s+simulators/i
+      ],
+      examples: [
+        'list booted simulators',
+        'show running simulators',
+        'display active simulators'
+      ]
+    },
+    'list sessions': {
+      patterns: [
+        /list\s+(all\s+)?(simulator\s+)?sessions/i,
+        /show\s+(all\s+)?(active\s+)?(simulator\s+)?sessions/i
+      ],
+      examples: [
+        'list simulator sessions',
+        'show active sessions'
+      ]
+    },
+    'boot simulator': {
+      patterns: [
+        /boot\s+(the\s+)?simulator\s+(?<udid>[a-zA-Z0-9-]+)/i,
+        /start\s+(the\s+)?simulator\s+(?<udid>[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i
+      ],
+      examples: [
+        'boot simulator 5A321B8F-4D85-4267-9F79-2F5C91D142C2',
+        'start simulator 5A321B8F-4D85-4267-9F79-2F5C91D142C2'
+      ]
+    },
+    'shutdown simulator': {
+      patterns: [
+        /shutdown\s+(the\s+)?simulator\s+(?<udid>[a-zA-Z0-9-]+)/i,
+        /turn\s+off\s+(the\s+)?simulator\s+(?<udid>[a-zA-Z0-9-]+)/i
+      ],
+      examples: [
+        'shutdown simulator 5A321B8F-4D85-4267-9F79-2F5C91D142C2',
+        'turn off simulator 5A321B8F-4D85-4267-9F79-2F5C91D142C2'
+      ]
+    },
+    'check simulator booted': {
+      patterns: [
+        /is\s+(the\s+)?simulator\s+(booted|running)/i,
+        /check\s+(if\s+)?(the\s+)?simulator\s+(is\s+)?(booted|running)/i
+      ],
+      examples: [
+        'is simulator booted',
+        'check if simulator is running'
+      ]
+    },
+    'focus simulator': {
+      patterns: [
+        /focus\s+(the\s+)?simulator/i,
+        /bring\s+(the\s+)?simulator\s+to\s+front/i
+      ],
+      examples: [
+        'focus simulator',
+        'bring simulator to front'
+      ]
+    },
+
+    // Application management
+    'install app': {
+      patterns: [
+        /\binstall\s+(the\s+)?app(\s+at)?\s+(?<appPath>[^\s,]+)/i,
+        /\binstall\s+(the\s+)?application(\s+at)?\s+(?<appPath>[^\s,]+)/i
+      ],
+      examples: [
+        'install app /path/to/app.ipa',
+        'install application /path/to/app.app'
+      ]
+    },
+    'launch app': {
+      patterns: [
+        /launch\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /open\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /start\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i
+      ],
+      examples: [
+        'launch app com.example.app',
+        'open app com.apple.mobilesafari'
+      ]
+    },
+    'terminate app': {
+      patterns: [
+        /terminate\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /close\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /kill\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i
+      ],
+      examples: [
+        'terminate app com.example.app',
+        'close app com.apple.mobilesafari',
+        'kill app com.example.app'
+      ]
+    },
+    'uninstall app': {
+      patterns: [
+        /uninstall\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /remove\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /delete\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)/i
+      ],
+      examples: [
+        'uninstall app com.example.app',
+        'remove app com.apple.mobilesafari',
+        'delete app com.example.app'
+      ]
+    },
+    'list apps': {
+      patterns: [
+        /list\s+(the\s+)?(installed\s+)?apps/i,
+        /show\s+(the\s+)?(installed\s+)?apps/i,
+        /what\s+apps\s+(are\s+there|are\s+installed)/i
+      ],
+      examples: [
+        'list apps',
+        'show apps',
+        'show installed apps',
+        'what apps are installed'
+      ]
+    },
+    'check app installed': {
+      patterns: [
+        /is\s+(the\s+)?app\s+(?<bundleId>[^\s,]+)\s+installed/i,
+        /check\s+(if\s+)?(the\s+)?app\s+(?<bundleId>[^\s,]+)\s+is\s+installed/i
+      ],
+      examples: [
+        'is app com.example.app installed',
+        'check if app com.example.app is installed'
+      ]
+    },
+
+    // UI interaction
+    'tap': {
+      patterns: [
+        /tap(\s+at)?\s+(?<x>\d+)(?:\s*,\s*|\s+)(?<y>\d+)/i
+      ],
+      examples: [
+        'tap at 100, 200',
+        'tap 150, 300',
+        'tap 150 300'
+      ]
+    },
+    'swipe': {
+      patterns: [
+        /swipe\s+from\s+(?<startX>\d+)\s*,\s*(?<startY>\d+)\s+to\s+(?<endX>\d+)\s*,\s*(?<endY>\d+)(\s+with\s+duration\s+(?<duration>\d+))?/i
+      ],
+      examples: [
+        'swipe from 100, 200 to 300, 400',
+        'swipe from 150, 300 to 150, 100 with duration 500'
+      ]
+    },
+    'press device button': {
+      patterns: [
+        /press\s+(the\s+)?device\s+button\s+(?<button>APPLE_PAY|HOME|LOCK|SIDE_BUTTON|SIRI)/i,
+        /push\s+(the\s+)?device\s+button\s+(?<button>APPLE_PAY|HOME|LOCK|SIDE_BUTTON|SIRI)/i,
+        /press\s+(the\s+)?button\s+(?<button>APPLE_PAY|HOME|LOCK|SIDE_BUTTON|SIRI)/i,
+        /tap\s+(the\s+)?device\s+button\s+(?<button>APPLE_PAY|HOME|LOCK|SIDE_BUTTON|SIRI)/i
+      ],
+      examples: [
+        'press device button HOME',
+        'push device button SIRI',
+        'press button HOME',
+        'tap device button LOCK'
+      ]
+    },
+    'input text': {
+      patterns: [
+        /input\s+text\s+(?<text>.+)/is,
+        /type\s+text\s+(?<text>.+)/is,
+        /enter\s+text\s+(?<text>.+)/is
+      ],
+      examples: [
+        'input text Hello world',
+        'type text Test message',
+        'enter text Hello'
+      ]
+    },
+    'press key': {
+      patterns: [
+        /press\s+key\s+(?<keyCode>\d+)/i,
+        /hit\s+key\s+(?<keyCode>\d+)/i,
+        /type\s+key\s+(?<keyCode>\d+)/i
+      ],
+      examples: [
+        'press key 4',
+        'hit key 65',
+        'type key 13'
+      ]
+    },
+    'press key sequence': {
+      patterns: [
+        /press\s+key\s+sequence\s+(?<keyCodes>[\d\s]+)/i,
+        /type\s+key\s+sequence\s+(?<keyCodes>[\d\s]+)/i,
+        /enter\s+key\s+sequence\s+(?<keyCodes>[\d\s]+)/i
+      ],
+      examples: [
+        'press key sequence 4 5 6',
+        'type key sequence 65 66 67',
+        'enter key sequence 13 14 15'
+      ]
+    },
+    'tap element': {
+      patterns: [
+        /^(?:tap|click)\s+(?:on\s+)?(?:the\s+)?"?(?<element>[^"]+?)"?\s+(?<elementType>button|text\s+field|search\s+field|field|switch|toggle|link|cell|tab|image|icon|label)$/i,
+        /^(?:tap|click)\s+(?:on\s+)?(?:the\s+)?(?!at\s|(?:[a-z]+\s+)?\d+(?:\s*,|\s+\d+\b)|device\s+button)"?(?<element>[^"]+?)"?$/i
+      ],
+      examples: [
+        'tap the Login button',
+        'tap on Settings',
+        'click "Sign in"'
+      ]
+    },
+    'input text into element': {
+      patterns: [
+        /^(?:type|enter|input)(?:\s+text)?\s+"?(?<text>.+?)"?\s+(?:into|in)\s+(?:the\s+)?"?(?<element>[^"]+?)"?\s+(?<elementType>text\s+field|search\s+field|field|box)$/i,
+        /^(?:type|enter|input)(?:\s+text)?\s+"?(?<text>.+?)"?\s+into\s+(?:the\s+)?"?(?<element>[^"]+?)"?$/i
+      ],
+      examples: [
+        'type hello into the Email field',
+        'enter "secret" into Password'
+      ]
+    },
+
+    // Gestures
+    'scroll': {
+      patterns: [
+        /scroll\s+(?<direction>up(wards?)?|down(wards?)?|left|right)/i
+      ],
+      examples: [
+        'scroll down',
+        'scroll up'
+      ]
+    },
+    'directional swipe': {
+      patterns: [
+        /swipe\s+(?<direction>up(wards?)?|down(wards?)?|left|right)(\s+from\s+(the\s+)?(?<edge>top|bottom|left|right)\s+edge)?/i
+      ],
+      examples: [
+        'swipe left',
+        'swipe left from the right edge',
+        'swipe up from the bottom edge'
+      ]
+    },
+    'pull to refresh': {
+      patterns: [
+        /pull\s+(down\s+)?to\s+refresh/i
+      ],
+      examples: [
+        'pull to refresh'
+      ]
+    },
+    'long press': {
+      patterns: [
+        /(long\s+press|press\s+and\s+hold|touch\s+and\s+hold)(\s+at)?\s+(?<x>\d+)\s*,\s*(?<y>\d+)(\s+for\s+((?<milliseconds>\d+)\s*(ms|milliseconds?)|(?<seconds>\d+(\.\d+)?)\s*(s|secs?|seconds?))\b)?/i
+      ],
+      examples: [
+        'long press at 100, 200 for 2s',
+        'press and hold 150, 300'
+      ]
+    },
+    'double tap': {
+      patterns: [
+        /double[\s-]tap(\s+at)?\s+(?<x>\d+)\s*,\s*(?<y>\d+)/i
+      ],
+      examples: [
+        'double tap at 100, 200'
+      ]
+    },
+    'drag': {
+      patterns: [
+        /drag\s+from\s+(?<startX>\d+)\s*,\s*(?<startY>\d+)\s+to\s+(?<endX>\d+)\s*,\s*(?<endY>\d+)(\s+for\s+((?<milliseconds>\d+)\s*(ms|milliseconds?)|(?<seconds>\d+(\.\d+)?)\s*(s|secs?|seconds?))\b)?/i
+      ],
+      examples: [
+        'drag from 100, 200 to 300, 400',
+        'drag from 50, 600 to 50, 100 for 1.5 seconds'
+      ]
+    },
+    'pinch': {
+      patterns: [
+        /((?<zoomIn>zoom\s+in|pinch\s+out|spread)|(?<zoomOut>zoom\s+out|pinch\s+in|pinch))(\s+at\s+(?<x>\d+)\s*,\s*(?<y>\d+))?/i
+      ],
+      examples: [
+        'zoom in',
+        'pinch in at 200, 400'
+      ]
+    },
+
+    // Accessibility
+    'describe elements': {
+      patterns: [
+        /describe\s+(all\s+)?(the\s+)?(screen\s+)?elements/i,
+        /show\s+(all\s+)?accessibility\s+elements/i
+      ],
+      examples: [
+        'describe all elements',
+        'describe elements',
+        'show accessibility elements'
+      ]
+    },
+    'describe point': {
+      patterns: [
+        /describe\s+point\s+(?<x>\d+)\s*,\s*(?<y>\d+)/i,
+        /what(\s+is|'s)\s+at\s+(?<x>\d+)\s*,\s*(?<y>\d+)/i
+      ],
+      examples: [
+        'describe point 150, 300',
+        "what's at 150, 300"
+      ]
+    },
+
+    // Screen capture and logs
+    'capture screen': {
+      patterns: [
+        /screenshot(\s+to\s+(?<outputPath>[^\s,]+))?/i,
+        /capture\s+(the\s+)?screen(\s+to\s+(?<outputPath>[^\s,]+))?/i,
+        /take\s+(a\s+)?screenshot(\s+to\s+(?<outputPath>[^\s,]+))?/i
+      ],
+      examples: [
+        'capture screen',
+        'take screenshot to /path/capture.png'
+      ]
+    },
+    'record video': {
+      patterns: [
+        /record\s+video(\s+(?<outputPath>[^\s,]+))?/i,
+        /start\s+recording\s+video(\s+(?<outputPath>[^\s,]+))?/i,
+        /begin\s+video\s+recording(\s+(?<outputPath>[^\s,]+))?/i
+      ],
+      examples: [
+        'record video /tmp/captura.mp4',
+        'record video /path/video.mp4',
+        'start recording video /path/output.mp4',
+        'record video'
+      ]
+    },
+    'stop recording': {
+      patterns: [
+        /stop\s+recording/i,
+        /end\s+recording/i,
+        /stop\s+video\s+recording/i
+      ],
+      examples: [
+        'stop recording',
+        'end recording',
+        'stop video recording'
+      ]
+    },
+    'get logs': {
+      patterns: [
+        /get\s+logs(\s+for\s+(?<bundleId>[^\s,]+))?/i,
+        /show\s+logs(\s+for\s+(?<bundleId>[^\s,]+))?/i,
+        /display\s+logs(\s+for\s+(?<bundleId>[^\s,]+))?/i
+      ],
+      examples: [
+        'get logs for com.apple.mobilesafari',
+        'show logs',
+        'display logs for com.example.app'
+      ]
+    },
+
+    // Debugging
+    'start debug': {
+      patterns: [
+        /start\s+debug\s+(?<bundleId>[^\s,]+)/i,
+        /debug\s+app\s+(?<bundleId>[^\s,]+)/i,
+        /begin\s+debug\s+(?<bundleId>[^\s,]+)/i,
+        /launch\s+debug\s+(?<bundleId>[^\s,]+)/i
+      ],
+      examples: [
+        'start debug com.apple.mobilesafari',
+        'debug app com.example.app',
+        'begin debug com.example.app',
+        'launch debug com.apple.mobilesafari'
+      ]
+    },
+    'stop debug': {
+      patterns: [
+        /stop\s+debug/i,
+        /end\s+debug/i,
+        /terminate\s+debug/i
+      ],
+      examples: [
+        'stop debug',
+        'end debug',
+        'terminate debug'
+      ]
+    },
+    'debug status': {
+      patterns: [
+        /status\s+debug/i,
+        /debug\s+status/i,
+        /get\s+debug\s+status/i,
+        /show\s+debug\s+info/i
+      ],
+      examples: [
+        'status debug',
+        'debug status',
+        'get debug status',
+        'show debug info'
+      ]
+    },
+    'list crash logs': {
+      patterns: [
+        /list\s+crash\s+logs/i,
+        /show\s+crash\s+logs/i,
+        /display\s+crash\s+logs/i
+      ],
+      examples: [
+        'list crash logs',
+        'show crash logs',
+        'display crash logs'
+      ]
+    },
+    'show crash log': {
+      patterns: [
+        /show\s+crash\s+log\s+(?<crashName>[^\s,]+)/i,
+        /display\s+crash\s+log\s+(?<crashName>[^\s,]+)/i,
+        /view\s+crash\s+log\s+(?<crashName>[^\s,]+)/i
+      ],
+      examples: [
+        'show crash log system_crash',
+        'display crash log error_log_123',
+        'view crash log app_crash_456'
+      ]
+    },
+    'delete crash logs': {
+      patterns: [
+        /delete\s+crash\s+logs/i,
+        /remove\s+crash\s+logs/i,
+        /clear\s+crash\s+logs/i
+      ],
+      examples: [
+        'delete crash logs',
+        'remove crash logs',
+        'clear crash logs'
+      ]
+    },
+
+    // Miscellaneous
+    'install dylib': {
+      patterns: [
+        /install\s+dylib\s+(?<dylibPath>[^\s,]+)/i,
+        /add\s+dylib\s+(?<dylibPath>[^\s,]+)/i,
+        /load\s+dylib\s+(?<dylibPath>[^\s,]+)/i
+      ],
+      examples: [
+        'install dylib /tmp/library.dylib',
+        'add dylib /path/to/lib.dylib',
+        'load dylib /path/to/library.dylib'
+      ]
+    },
+    'open url': {
+      patterns: [
+        /open\s+url\s+(?<url>[^\s]+)/i,
+        /navigate\s+to\s+(?<url>[^\s]+)/i,
+        /browse\s+to\s+(?<url>[^\s]+)/i
+      ],
+      examples: [
+        'open url https://google.com',
+        'navigate to https://example.com',
+        'browse to https://apple.com'
+      ]
+    },
+    'clear keychain': {
+      patterns: [
+        /clear\s+keychain/i,
+        /reset\s+keychain/i,
+        /empty\s+keychain/i
+      ],
+      examples: [
+        'clear keychain',
+        'reset keychain',
+        'empty keychain'
+      ]
+    },
+    'set location': {
+      patterns: [
+        /set\s+location\s+(?<latitude>-?\d+(\.\d+)?)\s*,\s*(?<longitude>-?\d+(\.\d+)?)/i,
+        /update\s+location\s+(?<latitude>-?\d+(\.\d+)?)\s*,\s*(?<longitude>-?\d+(\.\d+)?)/i,
+        /change\s+location\s+to\s+(?<latitude>-?\d+(\.\d+)?)\s*,\s*(?<longitude>-?\d+(\.\d+)?)/i
+      ],
+      examples: [
+        'set location 40.7128, -74.0060',
+        'update location 48.8566, 2.3522',
+        'change location to 35.6762, 139.6503'
+      ]
+    },
+    'add media': {
+      patterns: [
+        /add\s+media\s+(?<mediaPaths>.+)/i,
+        /import\s+media\s+(?<mediaPaths>.+)/i,
+        /upload\s+media\s+(?<mediaPaths>.+)/i
+      ],
+      examples: [
+        'add media /tmp/photo.png',
+        'import media /path/to/photos/*.jpg',
+        'upload media /path/video.mp4'
+      ]
+    },
+    'approve permissions': {
+      patterns: [
+        /approve\s+permissions\s+(?<bundleId>[^\s,]+)\s+(?<permissions>.+)/i,
+        /grant\s+permissions\s+(?<bundleId>[^\s,]+)\s+(?<permissions>.+)/i,
+        /allow\s+permissions\s+(?<bundleId>[^\s,]+)\s+(?<permissions>.+)/i
+      ],
+      examples: [
+        'approve permissions com.apple.mobilesafari contacts',
+        'grant permissions com.example.app camera',
+        'allow permissions com.example.app location'
+      ]
+    },
+    'update contacts': {
+      patterns: [
+        /update\s+contacts\s+(?<dbPath>[^\s,]+)/i,
+        /import\s+contacts\s+(?<dbPath>[^\s,]+)/i,
+        /load\s+contacts\s+(?<dbPath>[^\s,]+)/i
+      ],
+      examples: [
+        'update contacts /tmp/contacts.db',
+        'import contacts /path/to/contacts.db',
+        'load contacts /path/contacts.sqlite'
+      ]
+    }
+  }
+};
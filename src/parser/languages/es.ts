@@ -0,0 +1,537 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { LanguagePack } from '../interfaces/ILanguagePack.js';
+
+/**
+ * Spanish phrasings of the parser commands
+ */
+export const es: LanguagePack = {
+  code: 'es',
+  name: 'Español',
+  connectors: ['y después', 'y luego', 'después', 'luego'],
+  conjunctions: ['y'],
+  numbers: {
+    cero: 0, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9,
+    diez: 10, once: 11, doce: 12, trece: 13, catorce: 14, quince: 15, dieciséis: 16, diecisiete: 17,
+    dieciocho: 18, diecinueve: 19, veinte: 20, treinta: 30, cuarenta: 40, cincuenta: 50, sesenta: 60,
+    setenta: 70, ochenta: 80, noventa: 90, cien: 100, mil: 1000
+  },
+  directions: {
+    arriba: 'up', abajo: 'down', izquierda: 'left', derecha: 'right'
+  },
+  elementTypes: {
+    botón: 'button', campo: 'field', 'campo de texto': 'field', caja: 'field', buscador: 'field',
+    interruptor: 'switch', enlace: 'link', celda: 'cell', pestaña: 'tab', imagen: 'image', icono: 'icon',
+    etiqueta: 'text'
+  },
+  commands: {
+    // Simulator management
+    'create session': {
+      patterns: [
+        /crear\s+(una\s+)?sesión(\s+de\s+simulador)?(\s+con\s+(?<deviceName>[^,]+))?/i,
+        /iniciar\s+(un\s+)?simulador(\s+(?<deviceName>[^,]+))?/i
+      ],
+      examples: [
+        'crear sesión',
+        'crear una sesión de simulador',
+        'iniciar simulador iPhone 12'
+      ]
+    },
+    'end session': {
+      patterns: [
+        /terminar\s+(la\s+)?sesión/i,
+        /cerrar\s+(el\s+)?simulador/i
+      ],
+      examples: [
+        'terminar sesión',
+        'cerrar simulador'
+      ]
+    },
+    'list simulators': {
+      patterns: [
+        /listar\s+(los\s+)?simuladores/i,
+        /mostrar\s+(los\s+)?simuladores/i,
+        /qué\s+simuladores\s+(hay|están\s+disponibles)/i
+      ],
+      examples: [
+        'listar simuladores',
+        'mostrar simuladores',
+        'qué simuladores hay'
+      ]
+    },
+    'list booted simulators': {
+      patterns: [
+        /listar\s+(los\s+)?simuladores\s+arrancados/i,
+        /mostrar\s+(los\s+)?simuladores\s+arrancados/i,
+        /qué\s+simuladores\s+están\s+arrancados/i
+      ],
+      examples: [
+        'listar simuladores arrancados',
+        'mostrar simuladores arrancados',
+        'qué simuladores están arrancados'
+      ]
+    },
+    'list sessions': {
+      patterns: [
+        /listar\s+(las\s+)?sesiones/i,
+        /mostrar\s+(las\s+)?sesiones(\s+activas)?/i
+      ],
+      examples: [
+        'listar sesiones',
+        'mostrar sesiones activas'
+      ]
+    },
+    'boot simulator': {
+      patterns: [
+        /arrancar\s+(el\s+)?simulador\s+(?<udid>[a-zA-Z0-9-]+)/i,
+        /bootear\s+(el\s+)?simulador\s+(?<udid>[a-zA-Z0-9-]+)/i
+      ],
+      examples: [
+        'arrancar simulador 5A321B8F-4D85-4267-9F79-2F5C91D142C2',
+        'bootear simulador 5A321B8F-4D85-4267-9F79-2F5C91D142C2'
+      ]
+    },
+    'shutdown simulator': {
+      patterns: [
+        /apagar\s+(el\s+)?simulador\s+(?<udid>[a-zA-Z0-9-]+)/i,
+        /shutdown\s+(el\s+)?simulador\s+(?<udid>[a-zA-Z0-9-]+)/i
+      ],
+      examples: [
+        'apagar simulador 5A321B8F-4D85-4267-9F79-2F5C91D142C2',
+        'shutdown simulador 5A321B8F-4D85-4267-9F79-2F5C91D142C2'
+      ]
+    },
+    'check simulator booted': {
+      patterns: [
+        /está\s+(el\s+)?simulador\s+arrancado/i
+      ],
+      examples: [
+        'está el simulador arrancado'
+      ]
+    },
+    'focus simulator': {
+      patterns: [
+        /enfocar\s+(el\s+)?simulador/i,
+        /focus\s+(el\s+)?simulador/i,
+        /traer\s+(el\s+)?simulador\s+al\s+frente/i
+      ],
+      examples: [
+        'enfocar simulador',
+        'focus simulador',
+        'traer simulador al frente'
+      ]
+    },
+
+    // Application management
+    'install app': {
+      patterns: [
+        /\binstalar\s+(la\s+)?app(\s+en\s+la\s+ruta)?\s+(?<appPath>[^\s,]+)/i,
+        /\binstalar\s+(la\s+)?aplicación(\s+en\s+la\s+ruta)?\s+(?<appPath>[^\s,]+)/i
+      ],
+      examples: [
+        'instalar app /ruta/a/la/app.ipa',
+        'instalar la aplicación /ruta/a/la/app.app'
+      ]
+    },
+    'launch app': {
+      patterns: [
+        /lanzar\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /abrir\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /iniciar\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i
+      ],
+      examples: [
+        'lanzar app com.example.app',
+        'abrir app com.apple.mobilesafari'
+      ]
+    },
+    'terminate app': {
+      patterns: [
+        /terminar\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /cerrar\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /matar\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i
+      ],
+      examples: [
+        'terminar app com.example.app',
+        'cerrar app com.apple.mobilesafari',
+        'matar app com.example.app'
+      ]
+    },
+    'uninstall app': {
+      patterns: [
+        /desinstalar\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /eliminar\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i,
+        /borrar\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)/i
+      ],
+      examples: [
+        'desinstalar app com.example.app',
+        'eliminar app com.apple.mobilesafari',
+        'borrar app com.example.app'
+      ]
+    },
+    'list apps': {
+      patterns: [
+        /listar\s+(las\s+)?apps/i,
+        /mostrar\s+(las\s+)?apps/i,
+        /qué\s+apps\s+(hay|están\s+instaladas)/i
+      ],
+      examples: [
+        'listar apps',
+        'mostrar apps',
+        'qué apps hay'
+      ]
+    },
+    'check app installed': {
+      patterns: [
+        /está\s+(la\s+)?app\s+(?<bundleId>[^\s,]+)\s+instalada/i
+      ],
+      examples: [
+        'está la app com.example.app instalada'
+      ]
+    },
+
+    // UI interaction
+    'tap': {
+      patterns: [
+        /tap\s+en\s+(?<x>\d+)(?:\s*,\s*|\s+)(?<y>\d+)/i,
+        /tocar(\s+en)?\s+(?<x>\d+)(?:\s*,\s*|\s+)(?<y>\d+)/i,
+        /pulsar(\s+en)?\s+(?<x>\d+)(?:\s*,\s*|\s+)(?<y>\d+)/i
+      ],
+      examples: [
+        'tap en 100, 200',
+        'tocar 150, 300',
+        'pulsar en 200, 400'
+      ]
+    },
+    'swipe': {
+      patterns: [
+        /(deslizar|swipe)\s+desde\s+(?<startX>\d+)\s*,\s*(?<startY>\d+)\s+hasta\s+(?<endX>\d+)\s*,\s*(?<endY>\d+)(\s+con\s+duración\s+(?<duration>\d+))?/i
+      ],
+      examples: [
+        'swipe desde 100, 200 hasta 300, 400',
+        'deslizar desde 150, 300 hasta 150, 100 con duración 500'
+      ]
+    },
+    'press device button': {
+      patterns: [
+        /presionar\s+(el\s+)?botón\s+del\s+dispositivo\s+(?<button>APPLE_PAY|HOME|LOCK|SIDE_BUTTON|SIRI)/i,
+        /pulsar\s+(el\s+)?botón\s+del\s+dispositivo\s+(?<button>APPLE_PAY|HOME|LOCK|SIDE_BUTTON|SIRI)/i,
+        /presionar\s+(el\s+)?botón\s+físico\s+(?<button>APPLE_PAY|HOME|LOCK|SIDE_BUTTON|SIRI)/i
+      ],
+      examples: [
+        'presionar botón del dispositivo HOME',
+        'pulsar botón del dispositivo SIRI',
+        'presionar botón físico HOME'
+      ]
+    },
+    'input text': {
+      patterns: [
+        /introducir\s+texto\s+(?<text>.+)/is,
+        /escribir\s+texto\s+(?<text>.+)/is
+      ],
+      examples: [
+        'introducir texto Hola mundo',
+        'escribir texto Prueba de texto'
+      ]
+    },
+    'press key': {
+      patterns: [
+        /presionar\s+(la\s+)?tecla\s+(?<keyCode>\d+)/i,
+        /pulsar\s+(la\s+)?tecla\s+(?<keyCode>\d+)/i
+      ],
+      examples: [
+        'presionar tecla 4',
+        'pulsar la tecla 65'
+      ]
+    },
+    'press key sequence': {
+      patterns: [
+        /presionar\s+secuencia\s+de\s+teclas\s+(?<keyCodes>[\d\s]+)/i,
+        /pulsar\s+secuencia\s+de\s+teclas\s+(?<keyCodes>[\d\s]+)/i
+      ],
+      examples: [
+        'presionar secuencia de teclas 4 5 6',
+        'pulsar secuencia de teclas 65 66 67'
+      ]
+    },
+    'tap element': {
+      patterns: [
+        /^(?:tocar|pulsar)\s+(?:en\s+)?(?:el\s+|la\s+)?(?<elementType>botón|campo\s+de\s+texto|campo|enlace|interruptor|celda|pestaña|imagen|icono|etiqueta)\s+(?!del\s+dispositivo)"?(?<element>[^"]+?)"?$/i,
+        /^tocar\s+(?:en\s+)?(?:el\s+|la\s+)?(?!(?:en\s+)?\d+(?:\s*,|\s+\d+\b))"?(?<element>[^"]+?)"?$/i
+      ],
+      examples: [
+        'tocar el botón Entrar',
+        'tocar en Ajustes'
+      ]
+    },
+    'input text into element': {
+      patterns: [
+        /^(?:escribir|introducir)(?:\s+texto)?\s+"?(?<text>.+?)"?\s+en\s+(?:el\s+|la\s+)?(?<elementType>campo\s+de\s+texto|campo|caja|buscador)\s+"?(?<element>[^"]+?)"?$/i,
+        /^(?:escribir|introducir)(?:\s+texto)?\s+"?(?<text>.+?)"?\s+en\s+(?:el\s+|la\s+)?"(?<element>[^"]+)"$/i
+      ],
+      examples: [
+        'escribir hola en el campo Email',
+        'introducir texto "secreto" en "Contraseña"'
+      ]
+    },
+
+    // Gestures
+    'scroll': {
+      patterns: [
+        /(desplazar(se)?|hacer\s+scroll|scroll)\s+(hacia\s+)?(la\s+)?(?<direction>arriba|abajo|izquierda|derecha)/i
+      ],
+      examples: [
+        'desplazar hacia abajo',
+        'hacer scroll hacia arriba'
+      ]
+    },
+    'directional swipe': {
+      patterns: [
+        /(deslizar|swipe)\s+(hacia\s+)?(la\s+)?(?<direction>arriba|abajo|izquierda|derecha)(\s+desde\s+el\s+borde\s+(?<edge>superior|inferior|izquierdo|derecho))?/i
+      ],
+      examples: [
+        'deslizar hacia la izquierda',
+        'deslizar hacia la izquierda desde el borde derecho'
+      ]
+    },
+    'pull to refresh': {
+      patterns: [
+        /(tirar|deslizar)\s+(hacia\s+abajo\s+)?para\s+(actualizar|refrescar)/i
+      ],
+      examples: [
+        'tirar para actualizar'
+      ]
+    },
+    'long press': {
+      patterns: [
+        /(pulsación\s+larga|mantener\s+pulsado)(\s+en)?\s+(?<x>\d+)\s*,\s*(?<y>\d+)(\s+durante\s+((?<milliseconds>\d+)\s*(ms|milisegundos?)|(?<seconds>\d+(\.\d+)?)\s*(s|segundos?))\b)?/i
+      ],
+      examples: [
+        'pulsación larga en 100, 200 durante 2 segundos',
+        'mantener pulsado 150, 300'
+      ]
+    },
+    'double tap': {
+      patterns: [
+        /doble\s+(tap|toque)(\s+en)?\s+(?<x>\d+)\s*,\s*(?<y>\d+)/i
+      ],
+      examples: [
+        'doble toque en 100, 200'
+      ]
+    },
+    'drag': {
+      patterns: [
+        /arrastrar\s+desde\s+(?<startX>\d+)\s*,\s*(?<startY>\d+)\s+hasta\s+(?<endX>\d+)\s*,\s*(?<endY>\d+)(\s+durante\s+((?<milliseconds>\d+)\s*(ms|milisegundos?)|(?<seconds>\d+(\.\d+)?)\s*(s|segundos?))\b)?/i
+      ],
+      examples: [
+        'arrastrar desde 100, 200 hasta 300, 400'
+      ]
+    },
+    'pinch': {
+      patterns: [
+        /((?<zoomIn>ampliar|acercar(\s+el)?\s+zoom)|(?<zoomOut>alejar(\s+el)?\s+zoom|reducir\s+zoom|pellizcar))(\s+en\s+(?<x>\d+)\s*,\s*(?<y>\d+))?/i
+      ],
+      examples: [
+        'ampliar',
+        'alejar el zoom en 200, 400'
+      ]
+    },
+
+    // Accessibility
+    'describe elements': {
+      patterns: [
+        /describir\s+(todos\s+los\s+)?elementos/i,
+        /mostrar\s+elementos\s+de\s+accesibilidad/i
+      ],
+      examples: [
+        'describir todos los elementos',
+        'mostrar elementos de accesibilidad'
+      ]
+    },
+    'describe point': {
+      patterns: [
+        /describir\s+punto\s+(?<x>\d+)\s*,\s*(?<y>\d+)/i,
+        /qué\s+hay\s+en\s+(?<x>\d+)\s*,\s*(?<y>\d+)/i
+      ],
+      examples: [
+        'describir punto 100, 200',
+        'qué hay en 200, 400'
+      ]
+    },
+
+    // Screen capture and logs
+    'capture screen': {
+      patterns: [
+        /capturar\s+(la\s+)?pantalla(\s+en\s+(?<outputPath>[^\s,]+))?/i,
+        /screenshot(\s+en\s+(?<outputPath>[^\s,]+))?/i,
+        /tomar\s+(una\s+)?captura(\s+en\s+(?<outputPath>[^\s,]+))?/i
+      ],
+      examples: [
+        'capturar pantalla',
+        'screenshot en /ruta/captura.png',
+        'tomar una captura'
+      ]
+    },
+    'record video': {
+      patterns: [
+        /grabar\s+video(\s+(?<outputPath>[^\s,]+))?/i,
+        /iniciar\s+grabación\s+de\s+video(\s+(?<outputPath>[^\s,]+))?/i
+      ],
+      examples: [
+        'grabar video /ruta/video.mp4',
+        'iniciar grabación de video /ruta/salida.mp4',
+        'grabar video'
+      ]
+    },
+    'stop recording': {
+      patterns: [
+        /detener\s+grabación(\s+de\s+video)?/i,
+        /parar\s+grabación(\s+de\s+video)?/i
+      ],
+      examples: [
+        'detener grabación',
+        'parar grabación de video'
+      ]
+    },
+    'get logs': {
+      patterns: [
+        /obtener\s+logs(\s+de\s+(?<bundleId>[^\s,]+))?/i,
+        /mostrar\s+logs(\s+de\s+(?<bundleId>[^\s,]+))?/i
+      ],
+      examples: [
+        'obtener logs',
+        'mostrar logs de com.example.app'
+      ]
+    },
+
+    // Debugging
+    'start debug': {
+      patterns: [
+        /iniciar\s+debug\s+(?<bundleId>[^\s,]+)/i
+      ],
+      examples: [
+        'iniciar debug com.example.app'
+      ]
+    },
+    'stop debug': {
+      patterns: [
+        /detener\s+debug/i,
+        /parar\s+debug/i
+      ],
+      examples: [
+        'detener debug',
+        'parar debug'
+      ]
+    },
+    'debug status': {
+      patterns: [
+        /estado\s+debug/i,
+        /información\s+debug/i
+      ],
+      examples: [
+        'estado debug',
+        'información debug'
+      ]
+    },
+    'list crash logs': {
+      patterns: [
+        /listar\s+crash\s+logs/i,
+        /mostrar\s+crash\s+logs/i
+      ],
+      examples: [
+        'listar crash logs',
+        'mostrar crash logs'
+      ]
+    },
+    'show crash log': {
+      patterns: [
+        /mostrar\s+crash\s+log\s+(?<crashName>[^\s,]+)/i,
+        /ver\s+crash\s+log\s+(?<crashName>[^\s,]+)/i
+      ],
+      examples: [
+        'mostrar crash log crash_2023-01-01',
+        'ver crash log app_crash_123'
+      ]
+    },
+    'delete crash logs': {
+      patterns: [
+        /eliminar\s+crash\s+logs/i,
+        /borrar\s+crash\s+logs/i
+      ],
+      examples: [
+        'eliminar crash logs',
+        'borrar crash logs'
+      ]
+    },
+
+    // Miscellaneous
+    'install dylib': {
+      patterns: [
+        /instalar\s+dylib\s+(?<dylibPath>[^\s,]+)/i
+      ],
+      examples: [
+        'instalar dylib /ruta/a/lib.dylib'
+      ]
+    },
+    'open url': {
+      patterns: [
+        /abrir\s+url\s+(?<url>[^\s]+)/i,
+        /navegar\s+a\s+(?<url>[^\s]+)/i
+      ],
+      examples: [
+        'abrir url https://example.com',
+        'navegar a https://apple.com'
+      ]
+    },
+    'clear keychain': {
+      patterns: [
+        /limpiar\s+keychain/i,
+        /borrar\s+keychain/i
+      ],
+      examples: [
+        'limpiar keychain',
+        'borrar keychain'
+      ]
+    },
+    'set location': {
+      patterns: [
+        /establecer\s+ubicación\s+(?<latitude>-?\d+(\.\d+)?)\s*,\s*(?<longitude>-?\d+(\.\d+)?)/i,
+        /cambiar\s+ubicación\s+a\s+(?<latitude>-?\d+(\.\d+)?)\s*,\s*(?<longitude>-?\d+(\.\d+)?)/i
+      ],
+      examples: [
+        'establecer ubicación 37.7749, -122.4194',
+        'cambiar ubicación a 51.5074, -0.1278'
+      ]
+    },
+    'add media': {
+      patterns: [
+        /añadir\s+media\s+(?<mediaPaths>.+)/i,
+        /importar\s+multimedia\s+(?<mediaPaths>.+)/i
+      ],
+      examples: [
+        'añadir media /ruta/imagen.jpg /ruta/video.mp4',
+        'importar multimedia /ruta/a/fotos/*.jpg'
+      ]
+    },
+    'approve permissions': {
+      patterns: [
+        /aprobar\s+permisos\s+(?<bundleId>[^\s,]+)\s+(?<permissions>.+)/i,
+        /dar\s+permisos\s+a\s+(?<bundleId>[^\s,]+)\s+(?<permissions>.+)/i
+      ],
+      examples: [
+        'aprobar permisos com.example.app photos camera',
+        'dar permisos a com.example.app photos'
+      ]
+    },
+    'update contacts': {
+      patterns: [
+        /actualizar\s+contactos\s+(?<dbPath>[^\s,]+)/i,
+        /importar\s+contactos\s+(?<dbPath>[^\s,]+)/i
+      ],
+      examples: [
+        'actualizar contactos /ruta/a/contactos.sqlite',
+        'importar contactos /ruta/contacts.sqlite'
+      ]
+    }
+  }
+};
@@ -0,0 +1,101 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { LanguagePack } from '../interfaces/ILanguagePack.js';
+import { en } from './en.js';
+import { es } from './es.js';
+
+export { en, es };
+
+/**
+ * Language packs used by the parser unless others are given. On ties, the
+ * earlier languages win
+ */
+export const DEFAULT_LANGUAGE_PACKS: LanguagePack[] = [en, es];
+
+/**
+ * Accented variants of the letters, matched interchangeably with the plain letter
+ */
+const ACCENTED_LETTERS: Record<string, string> = {
+  a: 'aáàâä',
+  e: 'eéèêë',
+  i: 'iíìîï',
+  o: 'oóòôö',
+  u: 'uúùûü',
+  n: 'nñ',
+  c: 'cç'
+};
+
+/**
+ * Removes the accents of a text ("ubicación" -> "ubicacion")
+ * @param text Text to fold
+ * @returns Text without diacritics
+ */
+export function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Makes the accented letters of a pattern optional, so that "ubicacion" matches
+ * /ubicación/. Escapes, character classes and group names are kept as they are
+ * @param pattern Pattern written with accents
+ * @returns Equivalent pattern accepting the letters with or without accents
+ */
+export function accentInsensitive(pattern: RegExp): RegExp {
+  const source = pattern.source.normalize('NFC');
+  let result = '';
+  let inClass = false;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\') {
+      result += source.slice(index, index + 2);
+      index++;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      result += char;
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+    }
+
+    const letter = foldAccents(char).toLowerCase();
+    result += letter !== char.toLowerCase() && ACCENTED_LETTERS[letter]
+      ? `[${ACCENTED_LETTERS[letter]}]`
+      : char;
+  }
+
+  return result === pattern.source ? pattern : new RegExp(result, pattern.flags);
+}
+
+/**
+ * Replaces the number words of a text by their value ("press key four" -> "press key 4")
+ * @param text Instruction
+ * @param numbers Number words of a language
+ * @returns Text with digits instead of number words
+ */
+export function replaceNumberWords(text: string, numbers: Record<string, number>): string {
+  const values = new Map(Object.entries(numbers).map(([word, value]) => [foldAccents(word).toLowerCase(), value]));
+  return text.replace(/\p{L}+/gu, word => {
+    const value = values.get(foldAccents(word).toLowerCase());
+    return value === undefined ? word : String(value);
+  });
+}
+
+/**
+ * Builds a regular expression matching any of the given words or phrases as whole words
+ * @param words Words or phrases
+ * @returns Alternation of the words, longest first, or null if there are none
+ */
+export function wordsPattern(words: string[]): string | null {
+  if (words.length === 0) {
+    return null;
+  }
+  const alternatives = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+  return `(?<!\\p{L})(?:${alternatives.join('|')})(?!\\p{L})`;
+}
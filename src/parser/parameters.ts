@@ -0,0 +1,300 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+import { z } from 'zod';
+import { ButtonType, Direction } from '../idb/interfaces/IIDBManager.js';
+import { ELEMENT_TYPES } from '../idb/elements.js';
+
+/**
+ * Type and constraints of a command parameter
+ */
+export type ParameterSpec =
+  | {
+      type: 'string';
+      description: string;
+      /**
+       * Allowed values
+       */
+      enum?: readonly string[];
+      /**
+       * Format the value must match, described by `formatDescription` in errors
+       */
+      pattern?: RegExp;
+      formatDescription?: string;
+      /**
+       * Whether the value must be a URL with a scheme
+       */
+      url?: boolean;
+    }
+  | {
+      type: 'number' | 'integer';
+      description: string;
+      minimum?: number;
+      maximum?: number;
+    }
+  | {
+      type: 'boolean';
+      description: string;
+    }
+  | {
+      type: 'array';
+      description: string;
+      items: ParameterSpec;
+    };
+
+export const BUTTON_TYPES: readonly ButtonType[] = ['APPLE_PAY', 'HOME', 'LOCK', 'SIDE_BUTTON', 'SIRI'];
+
+export const DIRECTIONS: readonly Direction[] = ['up', 'down', 'left', 'right'];
+
+export const PERMISSIONS = ['photos', 'camera', 'contacts', 'url', 'location', 'notification', 'microphone'] as const;
+
+const COORDINATE = { type: 'number', minimum: 0 } as const;
+
+const KEY_CODE: ParameterSpec = { type: 'integer', minimum: 0, maximum: 255, description: 'HID key code' };
+
+/**
+ * Types of the parameters shared by the parser command definitions, by name.
+ * Every parameter listed by a command definition must be declared here
+ */
+export const PARAMETER_SPECS: Record<string, ParameterSpec> = {
+  sessionId: { type: 'string', description: 'Simulator session ID (defaults to the active session)' },
+  deviceName: { type: 'string', description: 'Simulator device name, e.g. "iPhone 15"' },
+  platformVersion: {
+    type: 'string',
+    pattern: /^\d+(\.\d+)*$/,
+    formatDescription: 'a version number such as 17.0',
+    description: 'iOS runtime version, e.g. "17.0"'
+  },
+  autoboot: { type: 'boolean', description: 'Whether to boot the simulator when creating the session' },
+  udid: {
+    type: 'string',
+    pattern: /^[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}$/,
+    formatDescription: 'a UDID such as 5A321B8F-4D85-4267-9F79-2F5C91D142C2',
+    description: 'Simulator UDID'
+  },
+  appPath: {
+    type: 'string',
+    pattern: /\.(app|ipa)\/?$/i,
+    formatDescription: 'a path to a .app or .ipa file',
+    description: 'Path to the .app or .ipa file'
+  },
+  bundleId: {
+    type: 'string',
+    pattern: /^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*$/,
+    formatDescription: 'a bundle ID such as com.example.app',
+    description: 'Application bundle ID, e.g. "com.example.app"'
+  },
+  x: { ...COORDINATE, description: 'X coordinate in points' },
+  y: { ...COORDINATE, description: 'Y coordinate in points' },
+  startX: { ...COORDINATE, description: 'Initial X coordinate in points' },
+  startY: { ...COORDINATE, description: 'Initial Y coordinate in points' },
+  endX: { ...COORDINATE, description: 'Final X coordinate in points' },
+  endY: { ...COORDINATE, description: 'Final Y coordinate in points' },
+  duration: { type: 'number', minimum: 0, description: 'Duration in milliseconds' },
+  delta: { type: 'number', minimum: 1, description: 'Size of each swipe step' },
+  direction: { type: 'string', enum: DIRECTIONS, description: 'Direction of the gesture' },
+  distance: { type: 'number', minimum: 0.01, maximum: 1, description: 'Fraction of the screen the gesture covers' },
+  fromEdge: { type: 'boolean', description: 'Whether the swipe starts at the edge of the screen' },
+  scale: { type: 'number', minimum: 0.1, maximum: 10, description: 'Zoom factor: below 1 pinches in, above 1 spreads out' },
+  button: { type: 'string', enum: BUTTON_TYPES, description: 'Hardware button to press' },
+  text: { type: 'string', description: 'Text to input' },
+  element: { type: 'string', description: 'Label, identifier or value of the UI element' },
+  elementType: {
+    type: 'string',
+    enum: Object.keys(ELEMENT_TYPES),
+    description: 'Kind of UI element (button, field, switch, ...)'
+  },
+  keyCode: { ...KEY_CODE, description: 'Key code to press' },
+  keyCodes: { type: 'array', items: KEY_CODE, description: 'Key codes to press in order' },
+  outputPath: { type: 'string', description: 'Path of the output file' },
+  recordingId: { type: 'string', description: 'Video recording ID' },
+  limit: { type: 'integer', minimum: 1, description: 'Maximum number of entries to return' },
+  crashName: { type: 'string', description: 'Name of the crash log' },
+  all: { type: 'boolean', description: 'Apply to all crash logs' },
+  dylibPath: {
+    type: 'string',
+    pattern: /\.dylib$/i,
+    formatDescription: 'a path to a .dylib file',
+    description: 'Path to the .dylib library'
+  },
+  url: { type: 'string', url: true, description: 'URL to open' },
+  latitude: { type: 'number', minimum: -90, maximum: 90, description: 'Latitude in degrees' },
+  longitude: { type: 'number', minimum: -180, maximum: 180, description: 'Longitude in degrees' },
+  mediaPaths: {
+    type: 'array',
+    items: { type: 'string', description: 'Path of a media file' },
+    description: 'Paths of the media files'
+  },
+  permissions: {
+    type: 'array',
+    items: { type: 'string', enum: PERMISSIONS, description: 'Permission' },
+    description: 'Permissions to approve (photos, camera, contacts, ...)'
+  },
+  dbPath: { type: 'string', description: 'Path to the contacts database' }
+};
+
+/**
+ * Converts numeric strings, as extracted from text, into numbers
+ */
+function toNumber(value: unknown): unknown {
+  return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+}
+
+/**
+ * Converts "true" and "false" strings into booleans
+ */
+function toBoolean(value: unknown): unknown {
+  if (typeof value === 'string' && ['true', 'false'].includes(value.trim().toLowerCase())) {
+    return value.trim().toLowerCase() === 'true';
+  }
+  return value;
+}
+
+/**
+ * Keeps identifiers such as "1234" as strings even if they were sent as numbers
+ */
+function toText(value: unknown): unknown {
+  return typeof value === 'number' ? String(value) : value;
+}
+
+/**
+ * Splits a space or comma separated list. Items in single or double quotes are kept
+ * whole, so that they can contain spaces and commas, e.g. "/tmp/My Photos/a.png"
+ * @param text List text
+ * @returns Items, without their quotes
+ */
+export function splitList(text: string): string[] {
+  return Array.from(text.matchAll(/"([^"]*)"|'([^']*)'|[^\s,]+/g), match => match[1] ?? match[2] ?? match[0])
+    .filter(Boolean);
+}
+
+/**
+ * Splits space or comma separated lists
+ */
+function toList(value: unknown): unknown {
+  return typeof value === 'string' ? splitList(value) : value;
+}
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return /^[a-z][a-z0-9+.-]*:/i.test(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds the zod schema of a parameter. Values are coerced from their textual form
+ * (e.g. "37.5" for numbers) before being checked
+ * @param spec Parameter type and constraints
+ * @returns Zod schema producing the normalized value
+ */
+export function toZodSchema(spec: ParameterSpec): z.ZodTypeAny {
+  switch (spec.type) {
+    case 'number':
+    case 'integer': {
+      let schema = z.number({ invalid_type_error: 'must be a number' });
+      if (spec.type === 'integer') {
+        schema = schema.int('must be an integer');
+      }
+      if (spec.minimum !== undefined) {
+        schema = schema.min(spec.minimum, `must be at least ${spec.minimum}`);
+      }
+      if (spec.maximum !== undefined) {
+        schema = schema.max(spec.maximum, `must be at most ${spec.maximum}`);
+      }
+      return z.preprocess(toNumber, schema);
+    }
+
+    case 'boolean':
+      return z.preprocess(toBoolean, z.boolean({ invalid_type_error: 'must be true or false' }));
+
+    case 'array':
+      return z.preprocess(
+        toList,
+        z.array(toZodSchema(spec.items), { invalid_type_error: 'must be a list' }).min(1, 'must not be empty')
+      );
+
+    case 'string': {
+      if (spec.enum) {
+        const allowed = spec.enum;
+        return z.preprocess(toText, z.string().refine(
+          value => allowed.includes(value),
+          `must be one of: ${allowed.join(', ')}`
+        ));
+      }
+      let schema: z.ZodTypeAny = z.string({ invalid_type_error: 'must be a string' }).min(1, 'must not be empty');
+      if (spec.pattern) {
+        schema = (schema as z.ZodString).regex(spec.pattern, `must be ${spec.formatDescription || `in the format ${spec.pattern}`}`);
+      }
+      if (spec.url) {
+        schema = schema.refine(isUrl, 'must be a URL with a scheme, e.g. https://example.com');
+      }
+      return z.preprocess(toText, schema);
+    }
+  }
+}
+
+/**
+ * Converts a parameter type into JSON Schema, as exposed by MCP tools
+ * @param spec Parameter type and constraints
+ * @returns JSON Schema
+ */
+export function toJsonSchema(spec: ParameterSpec): Record<string, any> {
+  switch (spec.type) {
+    case 'number':
+    case 'integer':
+      return {
+        type: spec.type,
+        ...(spec.minimum !== undefined ? { minimum: spec.minimum } : {}),
+        ...(spec.maximum !== undefined ? { maximum: spec.maximum } : {}),
+        description: spec.description
+      };
+
+    case 'boolean':
+      return { type: 'boolean', description: spec.description };
+
+    case 'array': {
+      const { description: _itemDescription, ...items } = toJsonSchema(spec.items);
+      return { type: 'array', items, minItems: 1, description: spec.description };
+    }
+
+    case 'string':
+      return {
+        type: 'string',
+        ...(spec.enum ? { enum: [...spec.enum] } : {}),
+        // JSON Schema patterns have no flags, case-insensitive ones are only checked by the parser
+        ...(spec.pattern && !spec.pattern.flags ? { pattern: spec.pattern.source } : {}),
+        ...(spec.url ? { format: 'uri' } : {}),
+        description: spec.description
+      };
+  }
+}
+
+/**
+ * Validates and normalizes the value of a parameter
+ * @param name Parameter name
+ * @param value Parameter value
+ * @param spec Type of the parameter, declared in PARAMETER_SPECS by default
+ * @returns Normalized value, or the error of the first constraint it breaks.
+ *          Parameters without a declared type are returned as they are
+ */
+export function checkParameter(
+  name: string,
+  value: unknown,
+  spec: ParameterSpec | undefined = PARAMETER_SPECS[name]
+): { value: unknown } | { error: string } {
+  if (!spec) {
+    return { value };
+  }
+
+  const result = toZodSchema(spec).safeParse(value);
+  if (result.success) {
+    return { value: result.data };
+  }
+
+  const [issue] = result.error.issues;
+  const item = typeof issue.path[0] === 'number' ? `item ${issue.path[0] + 1} ` : '';
+  return { error: `${item}${issue.message}` };
+}
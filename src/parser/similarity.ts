@@ -0,0 +1,76 @@
+// SPDX-FileCopyrightText: © 2025 Industria de Diseño Textil S.A. INDITEX
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Words scoring below this similarity are treated as unrelated
+ */
+const MIN_WORD_SIMILARITY = 0.5;
+
+/**
+ * Computes the edit distance between two strings
+ * @param a First string
+ * @param b Second string
+ * @returns Number of insertions, deletions and substitutions to turn a into b
+ */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two words from their edit distance
+ * @param a First word
+ * @param b Second word
+ * @returns Value between 0 (unrelated) and 1 (equal)
+ */
+export function wordSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+/**
+ * Extracts the lowercase words of a text, without accents, ignoring numbers and values
+ * such as paths, URLs and bundle IDs
+ * @param text Text to tokenize
+ * @returns Words of the text
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(word => /^[a-z']+$/.test(word));
+}
+
+/**
+ * Similarity of two phrases, matching every word to the most similar word of the other phrase
+ * @param a Words of the first phrase
+ * @param b Words of the second phrase
+ * @returns Value between 0 (unrelated) and 1 (same words)
+ */
+export function phraseSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const bestMatches = (words: string[], others: string[]) => words.reduce((total, word) => {
+    const best = Math.max(...others.map(other => wordSimilarity(word, other)));
+    return total + (best >= MIN_WORD_SIMILARITY ? best : 0);
+  }, 0);
+
+  return (bestMatches(a, b) + bestMatches(b, a)) / (a.length + b.length);
+}